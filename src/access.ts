@@ -0,0 +1,88 @@
+import { appendFileSync } from "fs";
+import { join } from "path";
+import { type AccessConfig, type ChannelOverride, channelOverride } from "./config.js";
+import * as log from "./log.js";
+
+// ============================================================================
+// AccessPolicy — who may talk to the agent, and with which tools
+// ============================================================================
+//
+// Configured by the `access` section of troublemaker.config.json plus
+// `channels.<id>.roles`. Adapter allow/deny lists gate every message; a role
+// (owner > member > guest) gates slash commands and decides which tools a run
+// gets. Without any access config everyone is owner, as before. Denials are
+// appended to <workingDir>/audit.jsonl.
+
+export type Role = "guest" | "member" | "owner";
+
+const ROLE_RANK: Record<Role, number> = { guest: 0, member: 1, owner: 2 };
+
+/** True if `role` is at least `required` */
+export function hasRole(role: Role, required: Role): boolean {
+	return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/** Guests can't touch the machine, reach other channels or change memory unless the config says otherwise */
+const DEFAULT_WITHHELD: Record<Role, string[]> = {
+	owner: [],
+	member: [],
+	guest: ["bash", "write", "edit", "send_message", "remember", "forget", "search_history"],
+};
+
+export interface AuditEntry {
+	action: "denied" | "command_denied";
+	adapter: string;
+	channel: string;
+	user: string;
+	reason: string;
+}
+
+export class AccessPolicy {
+	private auditPath: string;
+
+	constructor(
+		workingDir: string,
+		private access?: AccessConfig,
+		private channels: Record<string, ChannelOverride> = {},
+	) {
+		this.auditPath = join(workingDir, "audit.jsonl");
+	}
+
+	/**
+	 * Check the adapter's allow/deny lists. Returns the reason a user is
+	 * turned away, or undefined if they may talk to the agent.
+	 */
+	checkUser(userId: string, adapter: string): string | undefined {
+		const lists = this.access?.adapters?.[adapter];
+		if (!lists) return undefined;
+		if (lists.deny?.includes(userId)) return `${userId} is on the ${adapter} deny list`;
+		if (lists.allow && !lists.allow.includes(userId)) return `${userId} is not on the ${adapter} allow list`;
+		return undefined;
+	}
+
+	/** Channel role, then workspace role, then the defaults */
+	roleOf(userId: string, channelId: string): Role {
+		const channel = channelOverride(this.channels, channelId);
+		const role =
+			channel?.roles?.[userId] ??
+			this.access?.roles?.[userId] ??
+			channel?.defaultRole ??
+			this.access?.defaultRole ??
+			(this.access ? "member" : "owner");
+		return role as Role;
+	}
+
+	/** Tool names a run on behalf of `role` must not get */
+	withheldTools(role: Role): string[] {
+		return this.access?.tools?.[role] ?? (this.access ? DEFAULT_WITHHELD[role] : []);
+	}
+
+	audit(entry: AuditEntry): void {
+		log.logInfo(`[access] ${entry.action}: ${entry.user} in ${entry.channel} (${entry.reason})`);
+		try {
+			appendFileSync(this.auditPath, `${JSON.stringify({ date: new Date().toISOString(), ...entry })}\n`);
+		} catch (err) {
+			log.logWarning("Failed to write audit.jsonl", err instanceof Error ? err.message : String(err));
+		}
+	}
+}
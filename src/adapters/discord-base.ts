@@ -0,0 +1,648 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { basename, join } from "path";
+import * as log from "../log.js";
+import type { Attachment, ChannelStore } from "../store.js";
+import { markdownToDiscord } from "./discord-format.js";
+import { platformChannelId, qualifyChannelId } from "./instance.js";
+import { ChannelQueue } from "./slack-base.js";
+import type { ChannelInfo, MomContext, MomEvent, MomHandler, PlatformAdapter, UserInfo } from "./types.js";
+
+// ============================================================================
+// Discord-specific types (internal to adapter)
+// ============================================================================
+
+const DISCORD_API = "https://discord.com/api/v10";
+
+/**
+ * Discord channel IDs are numeric snowflakes, which would collide with
+ * Telegram's numeric chat IDs. Mom-side channel IDs are prefixed instead:
+ *   "discord-1234567890123456789" ↔ snowflake "1234567890123456789"
+ * Named instances add their suffix on top: "discord-1234567890123456789@acme".
+ */
+export const DISCORD_CHANNEL_PREFIX = "discord-";
+
+export function toDiscordChannelId(snowflake: string, instance?: string): string {
+	return qualifyChannelId(`${DISCORD_CHANNEL_PREFIX}${snowflake}`, instance);
+}
+
+export function toDiscordSnowflake(channelId: string, instance?: string): string {
+	const id = platformChannelId(channelId, instance);
+	return id.startsWith(DISCORD_CHANNEL_PREFIX) ? id.slice(DISCORD_CHANNEL_PREFIX.length) : id;
+}
+
+/** Subset of the Discord message object we care about */
+export interface DiscordMessage {
+	id: string;
+	channel_id: string;
+	guild_id?: string;
+	author: { id: string; username: string; global_name?: string | null; bot?: boolean };
+	content: string;
+	timestamp: string;
+	mentions?: Array<{ id: string }>;
+	attachments?: Array<{ id: string; filename: string; url: string; size?: number; content_type?: string }>;
+}
+
+export interface DiscordBaseConfig {
+	botToken: string;
+	workingDir: string;
+	/** Named instance (e.g. a second bot) — suffixes channel IDs with "@<instance>" */
+	instance?: string;
+}
+
+export abstract class DiscordBase implements PlatformAdapter {
+	readonly name = "discord";
+	readonly instance?: string;
+	readonly maxMessageLength = 2000;
+	readonly formatInstructions = `## Discord Formatting (Markdown)
+Bold: **text**, Italic: *text*, Code: \`code\`, Block: \`\`\`code\`\`\`, Links: [text](url), Headers: # / ## / ###
+No tables — use code blocks or bullet lists instead. Messages are limited to 2000 characters.
+
+When mentioning users, use @username format.`;
+
+	protected handler!: MomHandler;
+	protected workingDir: string;
+	protected botToken: string;
+	protected botUserId: string | null = null;
+
+	protected users = new Map<string, UserInfo>();
+	protected channels = new Map<string, ChannelInfo>();
+	/** Channels that are DMs (no threads, no guild) */
+	protected dmChannels = new Set<string>();
+	private queues = new Map<string, ChannelQueue>();
+	/** Parent message ID → thread channel snowflake (tool detail threads) */
+	private threads = new Map<string, string>();
+
+	constructor(config: DiscordBaseConfig) {
+		this.workingDir = config.workingDir;
+		this.botToken = config.botToken;
+		this.instance = config.instance;
+	}
+
+	setHandler(handler: MomHandler): void {
+		this.handler = handler;
+	}
+
+	// ==========================================================================
+	// Abstract — subclasses implement connection lifecycle
+	// ==========================================================================
+
+	abstract start(): Promise<void>;
+	abstract stop(): Promise<void>;
+
+	// ==========================================================================
+	// REST API
+	// ==========================================================================
+
+	/**
+	 * Call the Discord REST API. Retries once on 429 using the server-provided
+	 * retry_after, which covers the common per-route edit limits while working.
+	 */
+	protected async api<T = unknown>(method: string, path: string, body?: unknown | FormData): Promise<T> {
+		for (let attempt = 0; attempt < 2; attempt++) {
+			const isForm = body instanceof FormData;
+			const response = await fetch(`${DISCORD_API}${path}`, {
+				method,
+				headers: {
+					Authorization: `Bot ${this.botToken}`,
+					...(body !== undefined && !isForm ? { "Content-Type": "application/json" } : {}),
+				},
+				body: body === undefined ? undefined : isForm ? body : JSON.stringify(body),
+			});
+
+			if (response.status === 429 && attempt === 0) {
+				const data = (await response.json().catch(() => ({}))) as { retry_after?: number };
+				await new Promise((resolve) => setTimeout(resolve, Math.ceil((data.retry_after ?? 1) * 1000)));
+				continue;
+			}
+
+			if (!response.ok) {
+				const errorText = await response.text();
+				throw new Error(`Discord API ${method} ${path} failed (${response.status}): ${errorText}`);
+			}
+
+			if (response.status === 204) return undefined as T;
+			return (await response.json()) as T;
+		}
+		throw new Error(`Discord API ${method} ${path} rate limited`);
+	}
+
+	// ==========================================================================
+	// Shared startup sequence (call from subclass start())
+	// ==========================================================================
+
+	protected async initMetadata(): Promise<void> {
+		const me = await this.api<{ id: string; username: string }>("GET", "/users/@me");
+		this.botUserId = me.id;
+		log.logInfo(`Discord bot: @${me.username} (${me.id})`);
+
+		try {
+			const guilds = await this.api<Array<{ id: string; name: string }>>("GET", "/users/@me/guilds");
+			for (const guild of guilds) {
+				const channels = await this.api<Array<{ id: string; name?: string; type: number }>>(
+					"GET",
+					`/guilds/${guild.id}/channels`,
+				);
+				this.trackGuildChannels(channels);
+			}
+			log.logInfo(`Loaded ${this.channels.size} Discord channels across ${guilds.length} guilds`);
+		} catch (err) {
+			log.logWarning("Failed to load Discord channels", err instanceof Error ? err.message : String(err));
+		}
+	}
+
+	/** Track text-capable guild channels (0 = text, 5 = announcement) */
+	protected trackGuildChannels(channels: Array<{ id: string; name?: string; type: number }>): void {
+		for (const c of channels) {
+			if ((c.type === 0 || c.type === 5) && c.name) {
+				const id = toDiscordChannelId(c.id, this.instance);
+				this.channels.set(id, { id, name: c.name });
+			}
+		}
+	}
+
+	// ==========================================================================
+	// Shared incoming message handler
+	// ==========================================================================
+
+	/**
+	 * @param addressed - message is directed at the bot even without an @mention
+	 *   (e.g. an application command received via interactions)
+	 */
+	protected handleIncomingMessage(msg: DiscordMessage, addressed = false): void {
+		if (msg.author.bot || msg.author.id === this.botUserId) return;
+		if (!msg.content && (!msg.attachments || msg.attachments.length === 0)) return;
+
+		const channelId = toDiscordChannelId(msg.channel_id, this.instance);
+		const isDM = !msg.guild_id;
+		const userName = msg.author.username;
+		const displayName = msg.author.global_name || userName;
+
+		// Track user + channel
+		this.users.set(msg.author.id, { id: msg.author.id, userName, displayName });
+		if (isDM) {
+			this.dmChannels.add(channelId);
+			this.channels.set(channelId, { id: channelId, name: `DM:${userName}` });
+		}
+
+		const isBotMention = addressed || (!!this.botUserId && (msg.mentions || []).some((m) => m.id === this.botUserId));
+		const text = msg.content.replace(/<@!?\d+>/g, "").trim();
+
+		this.processMessageWithAttachments(msg, channelId, isDM, isBotMention, text, userName, displayName).catch((err) => {
+			log.logWarning("Failed to process Discord message", err instanceof Error ? err.message : String(err));
+		});
+	}
+
+	private async processMessageWithAttachments(
+		msg: DiscordMessage,
+		channelId: string,
+		isDM: boolean,
+		isBotMention: boolean,
+		text: string,
+		userName: string,
+		displayName: string,
+	): Promise<void> {
+		const attachments: Attachment[] = [];
+		for (const file of msg.attachments || []) {
+			try {
+				const localPath = await this.downloadAttachment(channelId, file.url, file.filename, msg.timestamp);
+				attachments.push({ original: file.filename, local: localPath });
+				log.logInfo(`[discord] Downloaded ${file.filename} → ${localPath}`);
+			} catch (err) {
+				log.logWarning("[discord] Failed to download attachment", err instanceof Error ? err.message : String(err));
+			}
+		}
+
+		// Log every message (channel chatter gets synced into context later)
+		this.logToFile(channelId, {
+			date: new Date(msg.timestamp).toISOString(),
+			ts: msg.id,
+			user: msg.author.id,
+			userName,
+			displayName,
+			text,
+			attachments,
+			isBot: false,
+		});
+
+		// Only DMs and @mentions trigger the agent
+		if (!isDM && !isBotMention) return;
+
+		const momEvent: MomEvent = {
+			type: isDM ? "dm" : "mention",
+			channel: channelId,
+			ts: msg.id,
+			user: msg.author.id,
+			text,
+			attachments,
+		};
+
+		this.dispatchUserEvent(momEvent);
+	}
+
+	/** Commands + stop handling + busy check + enqueue, shared by gateway messages and interactions */
+	protected dispatchUserEvent(momEvent: MomEvent): void {
+		if (this.handler.isCommand(momEvent.text)) {
+			this.handler.handleCommand(momEvent, this);
+			return;
+		}
+
+		if (momEvent.text.toLowerCase().trim() === "stop") {
+			if (this.handler.isRunning(momEvent.channel)) {
+				this.handler.handleStop(momEvent.channel, momEvent.user, this);
+			} else {
+				this.postMessage(momEvent.channel, "_Nothing running_");
+			}
+			return;
+		}
+
+		if (this.handler.isRunning(momEvent.channel)) {
+			this.handler
+				.handleBusy(momEvent, this)
+				.then(async (taken) => {
+					if (!taken) await this.postMessage(momEvent.channel, "_Already working. Say `stop` to cancel._");
+				})
+				.catch((err) =>
+					log.logWarning("Failed to handle message during run", err instanceof Error ? err.message : String(err)),
+				);
+		} else {
+			this.handler.accept(momEvent, this);
+			this.getQueue(momEvent.channel).enqueue(() => this.handler.handleEvent(momEvent, this));
+		}
+	}
+
+	private async downloadAttachment(channelId: string, url: string, fileName: string, timestamp: string): Promise<string> {
+		// Discord CDN attachment URLs are signed — no auth header needed
+		const response = await fetch(url);
+		if (!response.ok) {
+			throw new Error(`Discord attachment download failed: HTTP ${response.status}`);
+		}
+		const buffer = Buffer.from(await response.arrayBuffer());
+
+		const ts = new Date(timestamp).getTime() || Date.now();
+		const sanitized = fileName.replace(/[^a-zA-Z0-9._-]/g, "_");
+		const relativePath = `${channelId}/attachments/${ts}_${sanitized}`;
+
+		const dir = join(this.workingDir, channelId, "attachments");
+		if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+		writeFileSync(join(this.workingDir, relativePath), buffer);
+
+		return relativePath;
+	}
+
+	// ==========================================================================
+	// PlatformAdapter implementation
+	// ==========================================================================
+
+	async postMessage(channel: string, text: string): Promise<string> {
+		const result = await this.api<{ id: string }>("POST", `/channels/${toDiscordSnowflake(channel, this.instance)}/messages`, {
+			content: this.clamp(markdownToDiscord(text)),
+		});
+		return result.id;
+	}
+
+	async updateMessage(channel: string, ts: string, text: string): Promise<void> {
+		await this.api("PATCH", `/channels/${toDiscordSnowflake(channel, this.instance)}/messages/${ts}`, {
+			content: this.clamp(markdownToDiscord(text)),
+		});
+	}
+
+	async deleteMessage(channel: string, ts: string): Promise<void> {
+		try {
+			await this.api("DELETE", `/channels/${toDiscordSnowflake(channel, this.instance)}/messages/${ts}`);
+		} catch {
+			// Ignore errors (message may already be gone)
+		}
+	}
+
+	async postInThread(channel: string, threadTs: string, text: string): Promise<string> {
+		const threadId = await this.getOrCreateThread(channel, threadTs);
+		const result = await this.api<{ id: string }>("POST", `/channels/${threadId}/messages`, {
+			content: this.clamp(markdownToDiscord(text)),
+		});
+		return result.id;
+	}
+
+	async uploadFile(channel: string, filePath: string, title?: string): Promise<void> {
+		const fileName = title || basename(filePath);
+		const form = new FormData();
+		form.append("payload_json", JSON.stringify({ attachments: [{ id: 0, filename: fileName }] }));
+		form.append("files[0]", new Blob([readFileSync(filePath)]), fileName);
+		await this.api("POST", `/channels/${toDiscordSnowflake(channel, this.instance)}/messages`, form);
+	}
+
+	logToFile(channel: string, entry: object): void {
+		const dir = join(this.workingDir, channel);
+		if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+		appendFileSync(join(dir, "log.jsonl"), `${JSON.stringify(entry)}\n`);
+	}
+
+	logBotResponse(channel: string, text: string, ts: string): void {
+		this.logToFile(channel, {
+			date: new Date().toISOString(),
+			ts,
+			user: "bot",
+			text,
+			attachments: [],
+			isBot: true,
+		});
+	}
+
+	getUser(userId: string): UserInfo | undefined {
+		return this.users.get(userId);
+	}
+
+	getChannel(channelId: string): ChannelInfo | undefined {
+		return this.channels.get(channelId);
+	}
+
+	getAllUsers(): UserInfo[] {
+		return Array.from(this.users.values());
+	}
+
+	getAllChannels(): ChannelInfo[] {
+		return Array.from(this.channels.values());
+	}
+
+	enqueueEvent(event: MomEvent, isEvent = true): boolean {
+		if (!this.handler.accept(event, this, isEvent)) {
+			log.logWarning(`Event queue full for ${event.channel}, discarding: ${event.text.substring(0, 50)}`);
+			return false;
+		}
+		log.logInfo(`Enqueueing event for ${event.channel}: ${event.text.substring(0, 50)}`);
+		this.getQueue(event.channel).enqueue(() => this.handler.handleEvent(event, this, isEvent));
+		return true;
+	}
+
+	queueSize(channel: string): number {
+		return this.queues.get(channel)?.size() ?? 0;
+	}
+
+	// ==========================================================================
+	// Context creation
+	// ==========================================================================
+
+	createContext(event: MomEvent, _store: ChannelStore, isEvent?: boolean): MomContext {
+		// Single-message pattern (like Slack):
+		//   While working: "_Thinking_" header + tool arrows, edited in place.
+		//   On final: tool arrows (no header) + blank line + response text.
+		//   Tool details go into a thread started from the working message (guild channels only).
+		let messageTs: string | null = null;
+		const extraMessageIds: string[] = [];
+		let isWorking = true;
+		let updatePromise = Promise.resolve();
+
+		const workingEntries: string[] = [];
+		const isDM = this.dmChannels.has(event.channel);
+
+		// Edit throttling: Discord allows ~5 edits per 5s per channel
+		let lastEditTime = 0;
+		let editTimer: ReturnType<typeof setTimeout> | null = null;
+		let editDirty = false;
+
+		const user = this.users.get(event.user);
+		const eventFilename = isEvent ? event.text.match(/^\[EVENT:([^:]+):/)?.[1] : undefined;
+		const headerLine = eventFilename ? `_Starting event: ${eventFilename}_` : "_Thinking_";
+
+		const buildWorkingDisplay = (): string => {
+			let display = [headerLine, ...workingEntries].join("\n");
+			while (display.length > 1900 && workingEntries.length > 1) {
+				workingEntries.shift();
+				display = [headerLine, "_... trimmed_", ...workingEntries].join("\n");
+			}
+			return isWorking ? display + " ..." : display;
+		};
+
+		const flushMessage = async () => {
+			const display = buildWorkingDisplay();
+			if (messageTs) {
+				await this.updateMessage(event.channel, messageTs, display);
+			} else {
+				messageTs = await this.postMessage(event.channel, display);
+			}
+			lastEditTime = Date.now();
+			editDirty = false;
+		};
+
+		const scheduleUpdate = async () => {
+			const elapsed = Date.now() - lastEditTime;
+			if (elapsed >= 1000) {
+				if (editTimer) {
+					clearTimeout(editTimer);
+					editTimer = null;
+				}
+				await flushMessage();
+			} else {
+				editDirty = true;
+				if (!editTimer) {
+					editTimer = setTimeout(() => {
+						editTimer = null;
+						if (editDirty) {
+							updatePromise = updatePromise.then(() => flushMessage());
+						}
+					}, 1000 - elapsed);
+				}
+			}
+		};
+
+		return {
+			message: {
+				text: event.text,
+				rawText: event.text,
+				user: event.user,
+				userName: user?.userName,
+				channel: event.channel,
+				ts: event.ts,
+				attachments: (event.attachments || []).map((a) => ({ local: a.local })),
+			},
+			channelName: this.channels.get(event.channel)?.name,
+			channels: this.getAllChannels().map((c) => ({ id: c.id, name: c.name })),
+			users: this.getAllUsers().map((u) => ({ id: u.id, userName: u.userName, displayName: u.displayName })),
+
+			respond: async (text: string, shouldLog = true) => {
+				updatePromise = updatePromise.then(async () => {
+					// Tool labels (shouldLog=false, starts with _→) → append to working entries
+					if (!shouldLog && text.startsWith("_→")) {
+						workingEntries.push(text);
+						await scheduleUpdate();
+						return;
+					}
+
+					// Other status messages → refresh display
+					if (!shouldLog) {
+						await scheduleUpdate();
+						return;
+					}
+
+					// Real content — replaceMessage handles final text
+				});
+				await updatePromise;
+			},
+
+			replaceMessage: async (text: string) => {
+				updatePromise = updatePromise.then(async () => {
+					if (!text.trim()) return;
+
+					if (editTimer) {
+						clearTimeout(editTimer);
+						editTimer = null;
+					}
+
+					// Discord's 2000 char limit: first chunk replaces the working message,
+					// the rest follow as separate messages.
+					const prefix = workingEntries.length > 0 ? `${workingEntries.join("\n")}\n\n` : "";
+					const [first, ...rest] = this.splitText(prefix + text);
+
+					if (messageTs) {
+						await this.updateMessage(event.channel, messageTs, first);
+					} else {
+						messageTs = await this.postMessage(event.channel, first);
+					}
+					for (const chunk of rest) {
+						extraMessageIds.push(await this.postMessage(event.channel, chunk));
+					}
+
+					this.logBotResponse(event.channel, text, messageTs);
+				});
+				await updatePromise;
+			},
+
+			respondInThread: async (text: string) => {
+				// DMs have no threads — tool details stay in log.jsonl only
+				if (isDM) return;
+				updatePromise = updatePromise.then(async () => {
+					if (messageTs) {
+						for (const chunk of this.splitText(text)) {
+							await this.postInThread(event.channel, messageTs, chunk);
+						}
+					}
+				});
+				await updatePromise;
+			},
+
+			// Reasoning goes to the detail thread as a quote; DMs have no thread, so it's dropped
+			respondThinking: async (thinking: string) => {
+				if (isDM || !thinking.trim()) return;
+				updatePromise = updatePromise.then(async () => {
+					if (messageTs) {
+						const quoted = thinking.trim().substring(0, 1800).split("\n").map((line) => `> ${line}`).join("\n");
+						await this.postInThread(event.channel, messageTs, `_Thinking_\n${quoted}`);
+					}
+				});
+				await updatePromise;
+			},
+
+			setTyping: async (isTyping: boolean) => {
+				if (isTyping && !messageTs) {
+					updatePromise = updatePromise.then(async () => {
+						if (!messageTs) {
+							try {
+								await this.api("POST", `/channels/${toDiscordSnowflake(event.channel, this.instance)}/typing`);
+							} catch {
+								// Ignore typing errors
+							}
+							await flushMessage();
+						}
+					});
+					await updatePromise;
+				}
+			},
+
+			uploadFile: async (filePath: string, title?: string) => {
+				await this.uploadFile(event.channel, filePath, title);
+			},
+
+			setWorking: async (working: boolean) => {
+				updatePromise = updatePromise.then(async () => {
+					isWorking = working;
+					if (!working) {
+						if (editTimer) {
+							clearTimeout(editTimer);
+							editTimer = null;
+						}
+						// Final edit — removes the "..." spinner
+						if (messageTs) {
+							await flushMessage();
+						}
+					}
+				});
+				await updatePromise;
+			},
+
+			deleteMessage: async () => {
+				updatePromise = updatePromise.then(async () => {
+					if (editTimer) {
+						clearTimeout(editTimer);
+						editTimer = null;
+					}
+					for (const id of extraMessageIds) {
+						await this.deleteMessage(event.channel, id);
+					}
+					extraMessageIds.length = 0;
+					if (messageTs) {
+						// Deleting the parent message also removes its thread starter link
+						const threadId = this.threads.get(messageTs);
+						if (threadId) {
+							try {
+								await this.api("DELETE", `/channels/${threadId}`);
+							} catch {
+								// Ignore errors deleting the detail thread
+							}
+							this.threads.delete(messageTs);
+						}
+						await this.deleteMessage(event.channel, messageTs);
+						messageTs = null;
+					}
+				});
+				await updatePromise;
+			},
+		};
+	}
+
+	// ==========================================================================
+	// Helpers
+	// ==========================================================================
+
+	protected getQueue(channelId: string): ChannelQueue {
+		let queue = this.queues.get(channelId);
+		if (!queue) {
+			queue = new ChannelQueue();
+			this.queues.set(channelId, queue);
+		}
+		return queue;
+	}
+
+	/** Start (or reuse) a thread hanging off a message, for tool details */
+	private async getOrCreateThread(channel: string, messageId: string): Promise<string> {
+		const existing = this.threads.get(messageId);
+		if (existing) return existing;
+
+		const thread = await this.api<{ id: string }>(
+			"POST",
+			`/channels/${toDiscordSnowflake(channel, this.instance)}/messages/${messageId}/threads`,
+			{ name: "Details", auto_archive_duration: 1440 },
+		);
+		this.threads.set(messageId, thread.id);
+		return thread.id;
+	}
+
+	private clamp(text: string): string {
+		return text.length > this.maxMessageLength ? `${text.substring(0, this.maxMessageLength - 3)}...` : text;
+	}
+
+	/** Split on line boundaries where possible so code blocks aren't cut mid-line */
+	private splitText(text: string): string[] {
+		const limit = this.maxMessageLength - 100;
+		if (text.length <= limit) return [text];
+
+		const chunks: string[] = [];
+		let remaining = text;
+		while (remaining.length > limit) {
+			let cut = remaining.lastIndexOf("\n", limit);
+			if (cut < limit / 2) cut = limit;
+			chunks.push(remaining.substring(0, cut));
+			remaining = remaining.substring(cut).replace(/^\n/, "");
+		}
+		if (remaining) chunks.push(remaining);
+		return chunks;
+	}
+}
@@ -0,0 +1,68 @@
+// ============================================================================
+// Markdown → Discord markdown conversion
+// ============================================================================
+//
+// Discord renders most standard markdown natively (bold, italic, code, links,
+// blockquotes, # headers up to ###). What it does NOT render:
+//   headers deeper than ###  → shown literally
+//   tables                   → shown as raw pipes
+//   horizontal rules (---)   → shown literally
+//   images ![alt](url)       → shown as "!" + link
+//   Slack-style <url|text>   → shown literally
+//
+// Agents always output markdown regardless of system prompt instructions,
+// so we convert at the boundary before sending to the Discord API.
+
+/**
+ * Convert markdown text to Discord-compatible markdown.
+ *
+ * Code blocks and inline code are preserved as-is (Discord uses the same syntax).
+ * Safe to call on text that is already valid Discord markdown.
+ */
+export function markdownToDiscord(text: string): string {
+	if (!text) return text;
+
+	// Accumulate placeholders and restore at the end
+	const placeholders: string[] = [];
+	const ph = (content: string): string => {
+		const idx = placeholders.length;
+		placeholders.push(content);
+		return `\x00PH${idx}\x00`;
+	};
+
+	let out = text;
+
+	// 1. Extract fenced code blocks (preserve as-is, including language identifier)
+	out = out.replace(/```[\s\S]*?```/g, (match) => ph(match));
+
+	// 2. Extract inline code (preserve as-is)
+	out = out.replace(/`[^`\n]+`/g, (match) => ph(match));
+
+	// 3. Convert unsupported constructs
+
+	// Slack-style links: <url|text> → [text](url)
+	out = out.replace(/<(https?:\/\/[^|>]+)\|([^>]+)>/g, "[$2]($1)");
+
+	// Images: ![alt](url) → [alt](url)
+	out = out.replace(/!\[([^\]]*)\]\(([^)]+)\)/g, (_match, alt: string, url: string) => `[${alt || url}](${url})`);
+
+	// Deep headers: #### text → **text** (Discord only renders #, ##, ###)
+	out = out.replace(/^#{4,6}\s+(.+)$/gm, "**$1**");
+
+	// Horizontal rules: --- / *** / ___ on their own line → blank line
+	out = out.replace(/^\s*([-*_])\1{2,}\s*$/gm, "");
+
+	// Tables: consecutive lines starting and ending with | → fenced block (monospace keeps alignment)
+	out = out.replace(/(?:^\|.*\|[ \t]*$\n?)+/gm, (table) => {
+		const rows = table
+			.trimEnd()
+			.split("\n")
+			.filter((row) => !/^\|[\s:|-]+\|$/.test(row.trim()));
+		return `${ph("```\n" + rows.join("\n") + "\n```")}\n`;
+	});
+
+	// 4. Restore placeholders
+	out = out.replace(/\x00PH(\d+)\x00/g, (_match, idx: string) => placeholders[Number(idx)]);
+
+	return out;
+}
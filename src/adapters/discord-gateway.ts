@@ -0,0 +1,231 @@
+import WebSocket from "ws";
+import * as log from "../log.js";
+import { DiscordBase, type DiscordBaseConfig, type DiscordMessage } from "./discord-base.js";
+
+// ============================================================================
+// DiscordGatewayAdapter — outbound WebSocket to the Discord Gateway
+// ============================================================================
+
+// Gateway opcodes
+const OP_DISPATCH = 0;
+const OP_HEARTBEAT = 1;
+const OP_IDENTIFY = 2;
+const OP_RESUME = 6;
+const OP_RECONNECT = 7;
+const OP_INVALID_SESSION = 9;
+const OP_HELLO = 10;
+const OP_HEARTBEAT_ACK = 11;
+
+// Intents: GUILDS | GUILD_MESSAGES | DIRECT_MESSAGES | MESSAGE_CONTENT
+const INTENTS = (1 << 0) | (1 << 9) | (1 << 12) | (1 << 15);
+
+interface GatewayPayload {
+	op: number;
+	d?: unknown;
+	s?: number | null;
+	t?: string | null;
+}
+
+export type DiscordGatewayAdapterConfig = DiscordBaseConfig;
+
+export class DiscordGatewayAdapter extends DiscordBase {
+	private ws: WebSocket | null = null;
+	private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+	private firstHeartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+	private heartbeatAcked = true;
+	private sequence: number | null = null;
+	private sessionId: string | null = null;
+	private resumeUrl: string | null = null;
+	private stopping = false;
+
+	async start(): Promise<void> {
+		if (!this.handler) throw new Error("DiscordGatewayAdapter: handler not set. Call setHandler() before start().");
+
+		await this.initMetadata();
+		const { url } = await this.api<{ url: string }>("GET", "/gateway/bot");
+		await this.connect(url, false);
+		log.logConnected();
+	}
+
+	async stop(): Promise<void> {
+		this.stopping = true;
+		this.stopHeartbeat();
+		if (this.ws) {
+			this.ws.close(1000);
+			this.ws = null;
+		}
+	}
+
+	// ==========================================================================
+	// Connection lifecycle
+	// ==========================================================================
+
+	/** Resolves once the session is READY (or RESUMED) */
+	private connect(baseUrl: string, resume: boolean): Promise<void> {
+		return new Promise((resolve, reject) => {
+			let settled = false;
+			const ws = new WebSocket(`${baseUrl}/?v=10&encoding=json`);
+			this.ws = ws;
+
+			ws.on("message", (data) => {
+				let payload: GatewayPayload;
+				try {
+					payload = JSON.parse(data.toString());
+				} catch {
+					return;
+				}
+				if (payload.s != null) this.sequence = payload.s;
+
+				switch (payload.op) {
+					case OP_HELLO: {
+						const { heartbeat_interval } = payload.d as { heartbeat_interval: number };
+						this.startHeartbeat(heartbeat_interval);
+						if (resume && this.sessionId) {
+							this.send({
+								op: OP_RESUME,
+								d: { token: this.botToken, session_id: this.sessionId, seq: this.sequence },
+							});
+						} else {
+							this.identify();
+						}
+						break;
+					}
+					case OP_HEARTBEAT:
+						this.send({ op: OP_HEARTBEAT, d: this.sequence });
+						break;
+					case OP_HEARTBEAT_ACK:
+						this.heartbeatAcked = true;
+						break;
+					case OP_RECONNECT:
+						log.logInfo("Discord gateway requested reconnect");
+						ws.close(4000);
+						break;
+					case OP_INVALID_SESSION: {
+						const resumable = payload.d === true;
+						log.logWarning(`Discord session invalidated (resumable: ${resumable})`);
+						if (!resumable) {
+							this.sessionId = null;
+							this.sequence = null;
+						}
+						ws.close(4000);
+						break;
+					}
+					case OP_DISPATCH:
+						if (payload.t === "READY" || payload.t === "RESUMED") {
+							if (!settled) {
+								settled = true;
+								resolve();
+							}
+						}
+						this.handleDispatch(payload.t ?? "", payload.d);
+						break;
+				}
+			});
+
+			ws.on("close", (code) => {
+				this.stopHeartbeat();
+				if (this.ws === ws) this.ws = null;
+				if (this.stopping) return;
+
+				// 4004 (auth failed), 4013/4014 (invalid/disallowed intents) are fatal
+				if (code === 4004 || code === 4013 || code === 4014) {
+					const err = new Error(`Discord gateway closed with fatal code ${code}`);
+					if (!settled) {
+						settled = true;
+						reject(err);
+					} else {
+						log.logWarning(err.message);
+					}
+					return;
+				}
+
+				log.logWarning(`Discord gateway closed (${code}), reconnecting...`);
+				const canResume = !!this.sessionId && !!this.resumeUrl;
+				const reconnect = new Promise<void>((done) => setTimeout(done, 1000 + Math.random() * 4000)).then(() =>
+					this.stopping ? undefined : this.connect(canResume ? this.resumeUrl! : baseUrl, canResume),
+				);
+				if (!settled) {
+					// Closed before READY: start() waits on the retry instead
+					settled = true;
+					resolve(reconnect);
+				} else {
+					reconnect.catch((err) => {
+						log.logWarning("Discord reconnect failed", err instanceof Error ? err.message : String(err));
+					});
+				}
+			});
+
+			ws.on("error", (err) => {
+				log.logWarning("Discord gateway error", err.message);
+			});
+		});
+	}
+
+	private identify(): void {
+		this.send({
+			op: OP_IDENTIFY,
+			d: {
+				token: this.botToken,
+				intents: INTENTS,
+				properties: { os: process.platform, browser: "troublemaker", device: "troublemaker" },
+			},
+		});
+	}
+
+	private startHeartbeat(intervalMs: number): void {
+		this.stopHeartbeat();
+		this.heartbeatAcked = true;
+		// First beat is jittered per the gateway docs
+		const beat = () => {
+			if (!this.heartbeatAcked) {
+				log.logWarning("Discord heartbeat not acknowledged, reconnecting");
+				this.ws?.close(4000);
+				return;
+			}
+			this.heartbeatAcked = false;
+			this.send({ op: OP_HEARTBEAT, d: this.sequence });
+		};
+		this.firstHeartbeatTimer = setTimeout(beat, Math.random() * intervalMs);
+		this.heartbeatTimer = setInterval(beat, intervalMs);
+	}
+
+	private stopHeartbeat(): void {
+		if (this.firstHeartbeatTimer) {
+			clearTimeout(this.firstHeartbeatTimer);
+			this.firstHeartbeatTimer = null;
+		}
+		if (this.heartbeatTimer) {
+			clearInterval(this.heartbeatTimer);
+			this.heartbeatTimer = null;
+		}
+	}
+
+	private send(payload: GatewayPayload): void {
+		if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+			this.ws.send(JSON.stringify(payload));
+		}
+	}
+
+	// ==========================================================================
+	// Dispatch events
+	// ==========================================================================
+
+	private handleDispatch(type: string, data: unknown): void {
+		switch (type) {
+			case "READY": {
+				const ready = data as { session_id: string; resume_gateway_url: string };
+				this.sessionId = ready.session_id;
+				this.resumeUrl = ready.resume_gateway_url;
+				break;
+			}
+			case "GUILD_CREATE": {
+				const guild = data as { channels?: Array<{ id: string; name?: string; type: number }> };
+				this.trackGuildChannels(guild.channels || []);
+				break;
+			}
+			case "MESSAGE_CREATE":
+				this.handleIncomingMessage(data as DiscordMessage);
+				break;
+		}
+	}
+}
@@ -0,0 +1,164 @@
+import { createPublicKey, verify } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import * as log from "../log.js";
+import { DiscordBase, type DiscordBaseConfig, type DiscordMessage } from "./discord-base.js";
+
+// ============================================================================
+// DiscordInteractionsAdapter — HTTP interactions endpoint (serverless-friendly)
+// ============================================================================
+//
+// Receives application commands (e.g. `/ask prompt:...`) over HTTPS instead of
+// holding a Gateway WebSocket open. Plain channel messages are NOT delivered
+// this way — users talk to the bot through slash commands.
+
+// Interaction types
+const INTERACTION_PING = 1;
+const INTERACTION_APPLICATION_COMMAND = 2;
+
+// Interaction callback types
+const CALLBACK_PONG = 1;
+const CALLBACK_CHANNEL_MESSAGE = 4;
+
+// ASN.1 SPKI header for a raw 32-byte Ed25519 public key
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+interface CommandOption {
+	name: string;
+	type: number;
+	value?: string | number | boolean;
+}
+
+interface Interaction {
+	id: string;
+	type: number;
+	channel_id?: string;
+	guild_id?: string;
+	member?: { user: DiscordMessage["author"] };
+	user?: DiscordMessage["author"];
+	data?: {
+		name: string;
+		options?: CommandOption[];
+		resolved?: {
+			attachments?: Record<string, { id: string; filename: string; url: string; size?: number; content_type?: string }>;
+		};
+	};
+}
+
+export interface DiscordInteractionsAdapterConfig extends DiscordBaseConfig {
+	/** Application public key (hex) from the Developer Portal */
+	publicKey: string;
+}
+
+export class DiscordInteractionsAdapter extends DiscordBase {
+	private publicKey: ReturnType<typeof createPublicKey>;
+
+	constructor(config: DiscordInteractionsAdapterConfig) {
+		super(config);
+		this.publicKey = createPublicKey({
+			key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(config.publicKey, "hex")]),
+			format: "der",
+			type: "spki",
+		});
+	}
+
+	async start(): Promise<void> {
+		if (!this.handler) throw new Error("DiscordInteractionsAdapter: handler not set. Call setHandler() before start().");
+
+		await this.initMetadata();
+		log.logConnected();
+	}
+
+	async stop(): Promise<void> {
+		// No-op — gateway owns the HTTP server
+	}
+
+	// ==========================================================================
+	// HTTP request handling — called by Gateway
+	// ==========================================================================
+
+	dispatch(req: IncomingMessage, res: ServerResponse): void {
+		const chunks: Buffer[] = [];
+		req.on("data", (chunk: Buffer) => chunks.push(chunk));
+		req.on("end", () => {
+			const rawBody = Buffer.concat(chunks);
+
+			// Verify Ed25519 signature over timestamp + body
+			const signature = req.headers["x-signature-ed25519"] as string | undefined;
+			const timestamp = req.headers["x-signature-timestamp"] as string | undefined;
+			if (!signature || !timestamp || !this.verifySignature(signature, timestamp, rawBody)) {
+				log.logWarning("Discord interaction signature verification failed");
+				res.writeHead(401);
+				res.end("Invalid request signature");
+				return;
+			}
+
+			let interaction: Interaction;
+			try {
+				interaction = JSON.parse(rawBody.toString("utf-8"));
+			} catch {
+				res.writeHead(400);
+				res.end("Invalid JSON");
+				return;
+			}
+
+			// Discord validates the endpoint with PINGs
+			if (interaction.type === INTERACTION_PING) {
+				this.respondJson(res, { type: CALLBACK_PONG });
+				return;
+			}
+
+			if (interaction.type !== INTERACTION_APPLICATION_COMMAND || !interaction.channel_id) {
+				res.writeHead(400);
+				res.end("Unsupported interaction");
+				return;
+			}
+
+			const msg = this.toMessage(interaction);
+
+			// Must respond within 3 seconds — echo the prompt, the run posts its own messages
+			this.respondJson(res, {
+				type: CALLBACK_CHANNEL_MESSAGE,
+				data: { content: msg.content ? `> ${msg.content.substring(0, 1900)}` : `_/${interaction.data?.name}_` },
+			});
+
+			this.handleIncomingMessage(msg, true);
+		});
+	}
+
+	private verifySignature(signature: string, timestamp: string, body: Buffer): boolean {
+		try {
+			return verify(null, Buffer.concat([Buffer.from(timestamp), body]), this.publicKey, Buffer.from(signature, "hex"));
+		} catch {
+			return false;
+		}
+	}
+
+	private respondJson(res: ServerResponse, body: object): void {
+		res.writeHead(200, { "Content-Type": "application/json" });
+		res.end(JSON.stringify(body));
+	}
+
+	/** Flatten an application command into the message shape the base class handles */
+	private toMessage(interaction: Interaction): DiscordMessage {
+		const author = interaction.member?.user ?? interaction.user ?? { id: "unknown", username: "unknown" };
+		const options = interaction.data?.options || [];
+		const text = options
+			.filter((o) => o.type !== 11 && o.value !== undefined)
+			.map((o) => String(o.value))
+			.join(" ");
+
+		// Attachment options (type 11) reference entries in data.resolved.attachments
+		const resolved = interaction.data?.resolved?.attachments || {};
+		const attachments = options.filter((o) => o.type === 11 && resolved[String(o.value)]).map((o) => resolved[String(o.value)]);
+
+		return {
+			id: interaction.id,
+			channel_id: interaction.channel_id!,
+			guild_id: interaction.guild_id,
+			author,
+			content: text,
+			timestamp: new Date().toISOString(),
+			attachments,
+		};
+	}
+}
@@ -52,6 +52,8 @@ Keep responses concise and professional. The user will receive one email with yo
 	private handler!: MomHandler;
 	/** Per-channel email metadata for threading (set in processEmail, read in createContext) */
 	private pendingPayloads = new Map<string, EmailPayload>();
+	/** Email being answered outside a run (a slash command, or mail that arrived mid-run) — postMessage replies to it */
+	private commandPayloads = new Map<string, EmailPayload>();
 
 	constructor(config: EmailWebhookAdapterConfig) {
 		this.workingDir = config.workingDir;
@@ -132,9 +134,6 @@ Keep responses concise and professional. The user will receive one email with yo
 			text: this.buildMessageText(payload, savedPaths),
 		};
 
-		// Store payload for createContext to read (threading metadata)
-		this.pendingPayloads.set(channelId, payload);
-
 		// Log the inbound message
 		this.logToFile(channelId, {
 			date: new Date().toISOString(),
@@ -146,12 +145,41 @@ Keep responses concise and professional. The user will receive one email with yo
 			isBot: false,
 		});
 
-		if (this.handler.isRunning(channelId)) {
-			log.logInfo(`[email] Already running for ${channelId}, queuing`);
-			this.enqueueEvent(event);
+		// Slash commands run right away; postMessage replies thread onto this email
+		const command = this.findCommand(payload);
+		if (command) {
+			this.commandPayloads.set(channelId, payload);
+			try {
+				await this.handler.handleCommand({ ...event, text: command }, this);
+			} finally {
+				this.commandPayloads.delete(channelId);
+			}
 			return;
 		}
 
+		// Mid-run mail steers or follows up the run like any other message. The
+		// run keeps its own payload, so its reply still threads onto the email that started it.
+		if (this.handler.isRunning(channelId)) {
+			this.commandPayloads.set(channelId, payload);
+			try {
+				if (await this.handler.handleBusy(event, this)) return;
+				if (this.handler.isRunning(channelId)) {
+					log.logInfo(`[email] Already running for ${channelId}, not taking this email`);
+					await this.postMessage(
+						channelId,
+						"_Already working on your last email. Send it again once I've replied, or send `/stop` to cancel._",
+					);
+					return;
+				}
+			} finally {
+				this.commandPayloads.delete(channelId);
+			}
+		}
+
+		// Store payload for createContext to read (threading metadata)
+		this.pendingPayloads.set(channelId, payload);
+
+		this.handler.accept(event, this);
 		try {
 			await this.handler.handleEvent(event, this);
 		} finally {
@@ -159,6 +187,13 @@ Keep responses concise and professional. The user will receive one email with yo
 		}
 	}
 
+	/** A command on the first line of the body, or as the subject */
+	private findCommand(payload: EmailPayload): string | undefined {
+		const firstLine = payload.body.trim().split("\n")[0].trim();
+		const subject = (payload.subject || "").replace(/^(re|fwd?):\s*/i, "").trim();
+		return [firstLine, subject].find((text) => this.handler.isCommand(text));
+	}
+
 	private buildMessageText(payload: EmailPayload, savedPaths: Map<string, string>): string {
 		const parts: string[] = [];
 
@@ -211,6 +246,23 @@ Keep responses concise and professional. The user will receive one email with yo
 			throw new Error(`postMessage called with non-email channel: ${channel}`);
 		}
 
+		// Slash command replies go back in the command's thread
+		const commandPayload = this.commandPayloads.get(channel);
+		if (commandPayload && !attachments?.length) {
+			await this.sendEmailReply(
+				{
+					from: commandPayload.from,
+					subject: commandPayload.subject || "(no subject)",
+					messageId: commandPayload.messageId,
+					inReplyTo: commandPayload.inReplyTo,
+					references: commandPayload.references,
+				},
+				text,
+				[],
+			);
+			return String(Date.now());
+		}
+
 		const toAddress = emailMatch[1];
 		log.logInfo(`[email] Sending outbound to ${toAddress}${attachments?.length ? ` with ${attachments.length} attachment(s)` : ""}`);
 
@@ -310,8 +362,10 @@ Keep responses concise and professional. The user will receive one email with yo
 		return undefined;
 	}
 
-	getChannel(_channelId: string): ChannelInfo | undefined {
-		return undefined;
+	getChannel(channelId: string): ChannelInfo | undefined {
+		// Any "email-{address}" ID is addressable, even if we've never received mail from it
+		const emailMatch = channelId.match(/^email-(.+@.+)$/);
+		return emailMatch ? { id: channelId, name: emailMatch[1] } : undefined;
 	}
 
 	getAllUsers(): UserInfo[] {
@@ -322,17 +376,17 @@ Keep responses concise and professional. The user will receive one email with yo
 		return [];
 	}
 
-	enqueueEvent(event: MomEvent): boolean {
-		// Email channel IDs start with "email-"
-		if (!event.channel.startsWith("email-")) return false;
-
+	enqueueEvent(event: MomEvent, isEvent = true): boolean {
 		if (this.handler.isRunning(event.channel)) {
 			log.logInfo(`[email] Already running for ${event.channel}, discarding event`);
-			return true; // Claim it so other adapters don't grab it
+			// Not taken: boot replay then marks its journal item done instead of replaying it forever
+			return false;
 		}
+		if (!this.handler.accept(event, this, isEvent)) return false;
 
+		// A replayed email has lost its threading metadata — the reply starts a new thread
 		log.logInfo(`Enqueueing email event for ${event.channel}: ${event.text.substring(0, 50)}`);
-		this.handler.handleEvent(event, this, true).catch((err) => {
+		this.handler.handleEvent(event, this, isEvent).catch((err) => {
 			log.logWarning(`[email] Event handler error for ${event.channel}`, err instanceof Error ? err.message : String(err));
 		});
 		return true;
@@ -410,6 +464,10 @@ Keep responses concise and professional. The user will receive one email with yo
 				toolLog.push(text);
 			},
 
+			respondThinking: async () => {
+				// Hidden — reasoning doesn't belong in an email reply
+			},
+
 			setTyping: async () => {
 				// No-op for email
 			},
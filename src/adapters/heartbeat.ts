@@ -1,8 +1,10 @@
 import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync } from "fs";
 import { join } from "path";
 import * as log from "../log.js";
+import type { ChannelRegistry } from "../channels.js";
 import { createSendMessageTool } from "../tools/send-message.js";
 import type { ChannelStore } from "../store.js";
+import { canFlow } from "../visibility.js";
 import type { ChannelInfo, MomContext, MomEvent, MomHandler, PlatformAdapter, UserInfo } from "./types.js";
 
 // ============================================================================
@@ -13,7 +15,7 @@ import type { ChannelInfo, MomContext, MomEvent, MomHandler, PlatformAdapter, Us
 // gives the agent a send_message tool to reach any channel via other adapters.
 // ============================================================================
 
-const HEARTBEAT_CHANNEL = "_heartbeat";
+export const HEARTBEAT_CHANNEL = "_heartbeat";
 
 export class HeartbeatAdapter implements PlatformAdapter {
 	readonly name = "heartbeat";
@@ -37,10 +39,12 @@ You have woken up on your own schedule to think, act, and decide.
 
 	private workingDir: string;
 	private handler!: MomHandler;
+	private channels: ChannelRegistry;
 	private otherAdapters: PlatformAdapter[] = [];
 
-	constructor(config: { workingDir: string }) {
+	constructor(config: { workingDir: string; channels: ChannelRegistry }) {
 		this.workingDir = config.workingDir;
+		this.channels = config.channels;
 	}
 
 	/** Set references to all other adapters for cross-channel routing */
@@ -72,7 +76,7 @@ You have woken up on your own schedule to think, act, and decide.
 	 * Delegates to the shared createSendMessageTool() in tools/send-message.ts.
 	 */
 	getSendMessageTool() {
-		return createSendMessageTool(this.otherAdapters);
+		return createSendMessageTool(this.otherAdapters, this.channels, HEARTBEAT_CHANNEL);
 	}
 
 	// ==========================================================================
@@ -82,7 +86,8 @@ You have woken up on your own schedule to think, act, and decide.
 	/**
 	 * Scan log.jsonl files across all channel directories and compile
 	 * a summary of recent activity. Gives the heartbeat situational
-	 * awareness of what's been happening across all channels.
+	 * awareness of what's been happening across all channels — those whose
+	 * visibility lets their content into the heartbeat, anyway.
 	 */
 	getRecentActivitySummary(hoursBack: number = 4): string {
 		const cutoff = Date.now() - hoursBack * 60 * 60 * 1000;
@@ -99,6 +104,7 @@ You have woken up on your own schedule to think, act, and decide.
 		}
 
 		for (const channelId of dirs) {
+			if (!canFlow(channelId, HEARTBEAT_CHANNEL)) continue;
 			const logPath = join(this.workingDir, channelId, "log.jsonl");
 			if (!existsSync(logPath)) continue;
 
@@ -126,16 +132,10 @@ You have woken up on your own schedule to think, act, and decide.
 				}
 
 				if (recent.length > 0) {
-					// Determine adapter type from channel ID pattern
-					let adapter = "unknown";
-					if (/^-?\d+$/.test(channelId)) adapter = "telegram";
-					else if (/^[CDG]/.test(channelId)) adapter = "slack";
-					else if (channelId.startsWith("email-")) adapter = "email";
-					else if (channelId.startsWith("web-")) adapter = "web";
-
-					// Look up channel name
-					const channelInfo = this.getChannel(channelId);
-					const displayName = channelInfo ? `${channelInfo.name} (${adapter})` : `${channelId} (${adapter})`;
+					// Owning adapter + last known name from the channel registry
+					const record = this.channels.get(channelId);
+					const adapter = record?.adapter ?? "unknown";
+					const displayName = record?.name ? `${record.name} (${adapter})` : `${channelId} (${adapter})`;
 
 					channelActivity.push({ channel: displayName, adapter, messages: recent });
 				}
@@ -309,6 +309,10 @@ You have woken up on your own schedule to think, act, and decide.
 				// No-op — tool details go to log.jsonl
 			},
 
+			respondThinking: async () => {
+				// No-op — nobody is watching a heartbeat run
+			},
+
 			setTyping: async () => {
 				// No-op
 			},
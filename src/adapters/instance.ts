@@ -0,0 +1,26 @@
+// ============================================================================
+// Named adapter instances
+// ============================================================================
+//
+// Several instances of one adapter type can run side by side
+// (--adapter=slack:socket@acme,slack:socket@beta). Platform IDs from different
+// instances can collide — two Slack workspaces can both have a C0123ABC — so a
+// named instance suffixes its channel IDs: "C0123ABC@acme". Adapters add the
+// suffix on the way in and strip it at API boundaries. The default (unnamed)
+// instance keeps bare IDs, so existing workspaces are unaffected.
+
+/** "C0123ABC" → "C0123ABC@acme" (unchanged for the default instance) */
+export function qualifyChannelId(platformId: string, instance?: string): string {
+	return instance ? `${platformId}@${instance}` : platformId;
+}
+
+/** "C0123ABC@acme" → "C0123ABC" (unchanged for the default instance) */
+export function platformChannelId(channelId: string, instance?: string): string {
+	const suffix = `@${instance}`;
+	return instance && channelId.endsWith(suffix) ? channelId.slice(0, -suffix.length) : channelId;
+}
+
+/** Routing key for an adapter instance: "slack" or "slack@acme" */
+export function adapterKey(adapter: { name: string; instance?: string }): string {
+	return adapter.instance ? `${adapter.name}@${adapter.instance}` : adapter.name;
+}
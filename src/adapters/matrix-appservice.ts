@@ -0,0 +1,104 @@
+import { timingSafeEqual } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import * as log from "../log.js";
+import { MatrixBase, type MatrixBaseConfig, type MatrixEvent } from "./matrix-base.js";
+
+// ============================================================================
+// MatrixAppserviceAdapter — application service push API (serverless-friendly)
+// ============================================================================
+//
+// The homeserver pushes events to PUT /_matrix/app/v1/transactions/{txnId}
+// authenticated with the hs_token from the registration file. Outbound calls
+// use the as_token as the bot's access token.
+
+export interface MatrixAppserviceAdapterConfig extends MatrixBaseConfig {
+	/** hs_token from the appservice registration — authenticates the homeserver to us */
+	hsToken: string;
+}
+
+export class MatrixAppserviceAdapter extends MatrixBase {
+	private hsToken: string;
+	/** Recently processed transaction IDs — the homeserver retries until it gets a 200 */
+	private seenTxns: string[] = [];
+
+	constructor(config: MatrixAppserviceAdapterConfig) {
+		super(config);
+		this.hsToken = config.hsToken;
+	}
+
+	async start(): Promise<void> {
+		if (!this.handler) throw new Error("MatrixAppserviceAdapter: handler not set. Call setHandler() before start().");
+
+		await this.initMetadata();
+		log.logConnected();
+	}
+
+	async stop(): Promise<void> {
+		// No-op — gateway owns the HTTP server
+	}
+
+	// ==========================================================================
+	// HTTP request handling — called by Gateway
+	// ==========================================================================
+
+	dispatch(req: IncomingMessage, res: ServerResponse): void {
+		const chunks: Buffer[] = [];
+		req.on("data", (chunk: Buffer) => chunks.push(chunk));
+		req.on("end", () => {
+			const url = new URL(req.url || "/", "http://localhost");
+
+			// Bearer header (current spec) or ?access_token= (older homeservers)
+			const auth = req.headers.authorization;
+			const token = auth?.startsWith("Bearer ") ? auth.slice("Bearer ".length) : url.searchParams.get("access_token");
+			if (!token || !this.verifyToken(token)) {
+				log.logWarning("Matrix appservice token verification failed");
+				this.respondJson(res, 403, { errcode: "M_FORBIDDEN" });
+				return;
+			}
+
+			// Named instances are mounted under a prefix ("/acme/_matrix/app/v1/..."), so match the tail
+			const txnMatch = url.pathname.match(/\/_matrix\/app\/v1\/transactions\/([^/]+)$/);
+			if (req.method === "PUT" && txnMatch) {
+				let body: { events?: MatrixEvent[] };
+				try {
+					body = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+				} catch {
+					this.respondJson(res, 400, { errcode: "M_NOT_JSON" });
+					return;
+				}
+
+				// Acknowledge immediately (homeserver retries on non-2xx)
+				this.respondJson(res, 200, {});
+
+				const txnId = decodeURIComponent(txnMatch[1]);
+				if (this.seenTxns.includes(txnId)) return;
+				this.seenTxns.push(txnId);
+				if (this.seenTxns.length > 100) this.seenTxns.shift();
+
+				for (const event of body.events || []) {
+					if (event.room_id) this.handleRoomEvent(event.room_id, event);
+				}
+				return;
+			}
+
+			if (req.method === "POST" && url.pathname.endsWith("/_matrix/app/v1/ping")) {
+				this.respondJson(res, 200, {});
+				return;
+			}
+
+			// User/room alias queries — we don't manage any namespaces beyond the bot user
+			this.respondJson(res, 404, { errcode: "M_NOT_FOUND" });
+		});
+	}
+
+	private verifyToken(token: string): boolean {
+		const expected = Buffer.from(this.hsToken);
+		const actual = Buffer.from(token);
+		return expected.length === actual.length && timingSafeEqual(expected, actual);
+	}
+
+	private respondJson(res: ServerResponse, status: number, body: object): void {
+		res.writeHead(status, { "Content-Type": "application/json" });
+		res.end(JSON.stringify(body));
+	}
+}
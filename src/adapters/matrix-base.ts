@@ -0,0 +1,802 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from "fs";
+import { basename, extname, join } from "path";
+import * as log from "../log.js";
+import type { Attachment, ChannelStore } from "../store.js";
+import { qualifyChannelId } from "./instance.js";
+import { markdownToMatrixHtml } from "./matrix-format.js";
+import { ChannelQueue } from "./slack-base.js";
+import type { ChannelInfo, MomContext, MomEvent, MomHandler, PlatformAdapter, UserInfo } from "./types.js";
+
+// ============================================================================
+// MatrixBase — abstract base class for Matrix adapters
+// ============================================================================
+
+/**
+ * Matrix room IDs ("!abcDEF:example.org") contain characters that don't belong
+ * in directory names. Mom-side channel IDs are prefixed and sanitized:
+ *   "!abcDEF:example.org" → "matrix-abcDEF_example.org"
+ * Named instances add their suffix on top: "matrix-abcDEF_example.org@acme".
+ * The adapter keeps a map back to the real room ID (rebuilt from joined_rooms on start).
+ */
+export const MATRIX_CHANNEL_PREFIX = "matrix-";
+
+export function toMatrixChannelId(roomId: string, instance?: string): string {
+	return qualifyChannelId(`${MATRIX_CHANNEL_PREFIX}${roomId.replace(/^!/, "").replace(/[^a-zA-Z0-9._-]/g, "_")}`, instance);
+}
+
+/** Client-server API event (timeline or state) — subset we care about */
+export interface MatrixEvent {
+	type: string;
+	event_id: string;
+	sender: string;
+	origin_server_ts: number;
+	room_id?: string;
+	state_key?: string;
+	content: Record<string, any>;
+}
+
+export interface MatrixBaseConfig {
+	/** e.g. "https://matrix.example.org" — any server speaking the client-server API */
+	homeserverUrl: string;
+	accessToken: string;
+	workingDir: string;
+	/** Named instance (e.g. a second homeserver) — suffixes channel IDs with "@<instance>" */
+	instance?: string;
+}
+
+const MEDIA_MSGTYPES = new Set(["m.file", "m.image", "m.audio", "m.video"]);
+
+export abstract class MatrixBase implements PlatformAdapter {
+	readonly name = "matrix";
+	readonly instance?: string;
+	readonly maxMessageLength = 32000;
+	readonly formatInstructions = `## Text Formatting
+Use markdown: **bold**, *italic*, \`code\`, \`\`\`blocks\`\`\`, [links](url), ~~strikethrough~~, # headers.
+When mentioning users, use their display name.`;
+
+	protected handler!: MomHandler;
+	protected workingDir: string;
+	protected homeserverUrl: string;
+	protected accessToken: string;
+	protected botUserId: string | null = null;
+
+	// Track users/rooms we've seen
+	protected users = new Map<string, UserInfo>();
+	protected channels = new Map<string, ChannelInfo>();
+	/** channelId → real room ID */
+	protected roomIds = new Map<string, string>();
+	/** roomId → joined member user IDs (2 members = DM) */
+	protected members = new Map<string, Set<string>>();
+	private encryptedNoticeSent = new Set<string>();
+	private queues = new Map<string, ChannelQueue>();
+	private txnCounter = 0;
+
+	constructor(config: MatrixBaseConfig) {
+		this.workingDir = config.workingDir;
+		this.homeserverUrl = config.homeserverUrl.replace(/\/+$/, "");
+		this.accessToken = config.accessToken;
+		this.instance = config.instance;
+	}
+
+	setHandler(handler: MomHandler): void {
+		this.handler = handler;
+	}
+
+	// ==========================================================================
+	// Abstract — subclasses implement connection lifecycle
+	// ==========================================================================
+
+	abstract start(): Promise<void>;
+	abstract stop(): Promise<void>;
+
+	// ==========================================================================
+	// Client-server API
+	// ==========================================================================
+
+	/**
+	 * Call the homeserver. `path` is absolute (e.g. "/_matrix/client/v3/sync").
+	 * Retries once on 429 (M_LIMIT_EXCEEDED) using retry_after_ms.
+	 */
+	protected async api<T = any>(
+		method: string,
+		path: string,
+		body?: unknown,
+		options: { signal?: AbortSignal; contentType?: string } = {},
+	): Promise<T> {
+		for (let attempt = 0; attempt < 2; attempt++) {
+			const isRaw = body instanceof Uint8Array;
+			const headers: Record<string, string> = { Authorization: `Bearer ${this.accessToken}` };
+			if (body !== undefined) headers["Content-Type"] = options.contentType || "application/json";
+
+			const response = await fetch(`${this.homeserverUrl}${path}`, {
+				method,
+				headers,
+				body: body === undefined ? undefined : isRaw ? body : JSON.stringify(body),
+				signal: options.signal,
+			});
+
+			if (response.status === 429 && attempt === 0) {
+				const data = (await response.json().catch(() => ({}))) as { retry_after_ms?: number };
+				await new Promise((resolve) => setTimeout(resolve, data.retry_after_ms ?? 1000));
+				continue;
+			}
+
+			if (!response.ok) {
+				const errorText = await response.text();
+				throw new Error(`Matrix API ${method} ${path} failed (${response.status}): ${errorText}`);
+			}
+
+			return (await response.json()) as T;
+		}
+		throw new Error(`Matrix API ${method} ${path} rate limited`);
+	}
+
+	protected nextTxnId(): string {
+		return `mom${Date.now()}.${this.txnCounter++}`;
+	}
+
+	protected resolveRoomId(channel: string): string {
+		const roomId = this.roomIds.get(channel);
+		if (!roomId) throw new Error(`Unknown Matrix room for channel ${channel}`);
+		return roomId;
+	}
+
+	private async sendEvent(roomId: string, content: object): Promise<string> {
+		const result = await this.api<{ event_id: string }>(
+			"PUT",
+			`/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/send/m.room.message/${this.nextTxnId()}`,
+			content,
+		);
+		return result.event_id;
+	}
+
+	private textContent(text: string): Record<string, string> {
+		return {
+			msgtype: "m.text",
+			body: text,
+			format: "org.matrix.custom.html",
+			formatted_body: markdownToMatrixHtml(text),
+		};
+	}
+
+	// ==========================================================================
+	// Shared startup sequence (call from subclass start())
+	// ==========================================================================
+
+	protected async initMetadata(): Promise<void> {
+		const me = await this.api<{ user_id: string }>("GET", "/_matrix/client/v3/account/whoami");
+		this.botUserId = me.user_id;
+		log.logInfo(`Matrix bot: ${me.user_id} (${this.homeserverUrl})`);
+
+		try {
+			const { joined_rooms } = await this.api<{ joined_rooms: string[] }>("GET", "/_matrix/client/v3/joined_rooms");
+			for (const roomId of joined_rooms) {
+				await this.loadRoom(roomId);
+			}
+			log.logInfo(`Loaded ${joined_rooms.length} Matrix rooms`);
+		} catch (err) {
+			log.logWarning("Failed to load Matrix rooms", err instanceof Error ? err.message : String(err));
+		}
+	}
+
+	/** Fetch name + members for a room we've joined */
+	protected async loadRoom(roomId: string): Promise<void> {
+		const channelId = this.registerRoom(roomId);
+		const room = encodeURIComponent(roomId);
+
+		try {
+			const { name } = await this.api<{ name: string }>("GET", `/_matrix/client/v3/rooms/${room}/state/m.room.name`);
+			if (name) this.channels.set(channelId, { id: channelId, name });
+		} catch {
+			// Unnamed room — keep the fallback name
+		}
+
+		try {
+			const { joined } = await this.api<{ joined: Record<string, { display_name?: string }> }>(
+				"GET",
+				`/_matrix/client/v3/rooms/${room}/joined_members`,
+			);
+			this.members.set(roomId, new Set(Object.keys(joined)));
+			for (const [userId, info] of Object.entries(joined)) {
+				this.trackUser(userId, info.display_name);
+			}
+		} catch (err) {
+			log.logWarning(`Failed to load members for ${roomId}`, err instanceof Error ? err.message : String(err));
+		}
+	}
+
+	protected registerRoom(roomId: string): string {
+		const channelId = toMatrixChannelId(roomId, this.instance);
+		this.roomIds.set(channelId, roomId);
+		if (!this.channels.has(channelId)) {
+			this.channels.set(channelId, { id: channelId, name: roomId });
+		}
+		return channelId;
+	}
+
+	protected async joinRoom(roomId: string): Promise<void> {
+		try {
+			await this.api("POST", `/_matrix/client/v3/join/${encodeURIComponent(roomId)}`, {});
+			log.logInfo(`Joined Matrix room ${roomId}`);
+			await this.loadRoom(roomId);
+		} catch (err) {
+			log.logWarning(`Failed to join Matrix room ${roomId}`, err instanceof Error ? err.message : String(err));
+			return;
+		}
+
+		try {
+			await this.api("GET", `/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/state/m.room.encryption`);
+		} catch {
+			// No encryption state event — a plain room
+			return;
+		}
+		this.noticeEncrypted(roomId, "joined an encrypted room");
+	}
+
+	/**
+	 * End-to-end encryption is not supported: warn and tell the room once,
+	 * rather than silently ignoring everything said there.
+	 */
+	private noticeEncrypted(roomId: string, what: string): void {
+		if (this.encryptedNoticeSent.has(roomId)) return;
+		this.encryptedNoticeSent.add(roomId);
+		log.logWarning(`[matrix] ${roomId}: ${what} — E2EE is not supported`);
+		const channelId = this.registerRoom(roomId);
+		this.postMessage(
+			channelId,
+			"_This room is end-to-end encrypted and I can't read encrypted messages. Invite me to an unencrypted room instead._",
+		).catch((err) => {
+			log.logWarning(`Failed to post encryption notice in ${roomId}`, err instanceof Error ? err.message : String(err));
+		});
+	}
+
+	private trackUser(userId: string, displayName?: string | null): void {
+		// "@alice:example.org" → "alice"
+		const userName = userId.replace(/^@/, "").split(":")[0];
+		this.users.set(userId, { id: userId, userName, displayName: displayName || userName });
+	}
+
+	// ==========================================================================
+	// Shared incoming event handler
+	// ==========================================================================
+
+	protected handleRoomEvent(roomId: string, event: MatrixEvent): void {
+		const channelId = this.registerRoom(roomId);
+
+		if (event.state_key !== undefined) {
+			this.handleStateEvent(roomId, channelId, event);
+			return;
+		}
+
+		if (event.sender === this.botUserId) return;
+
+		if (event.type === "m.room.encrypted") {
+			this.noticeEncrypted(roomId, "encrypted message");
+			return;
+		}
+
+		if (event.type !== "m.room.message") return;
+
+		const content = event.content;
+		// Edits arrive as new events — the original already triggered us
+		if (content["m.relates_to"]?.rel_type === "m.replace") return;
+
+		this.processMessageWithMedia(roomId, channelId, event).catch((err) => {
+			log.logWarning("Failed to process Matrix message", err instanceof Error ? err.message : String(err));
+		});
+	}
+
+	private handleStateEvent(roomId: string, channelId: string, event: MatrixEvent): void {
+		if (event.type === "m.room.name" && event.content.name) {
+			this.channels.set(channelId, { id: channelId, name: event.content.name });
+			return;
+		}
+
+		if (event.type === "m.room.member" && event.state_key) {
+			const membership = event.content.membership;
+
+			// Auto-accept invites addressed to us
+			if (membership === "invite" && event.state_key === this.botUserId) {
+				this.joinRoom(roomId);
+				return;
+			}
+
+			let roomMembers = this.members.get(roomId);
+			if (!roomMembers) {
+				roomMembers = new Set();
+				this.members.set(roomId, roomMembers);
+			}
+			if (membership === "join") {
+				roomMembers.add(event.state_key);
+				this.trackUser(event.state_key, event.content.displayname);
+			} else if (membership === "leave" || membership === "ban") {
+				roomMembers.delete(event.state_key);
+			}
+		}
+	}
+
+	private async processMessageWithMedia(roomId: string, channelId: string, event: MatrixEvent): Promise<void> {
+		const content = event.content;
+		const msgtype: string = content.msgtype || "m.text";
+		const userId = event.sender;
+		if (!this.users.has(userId)) this.trackUser(userId);
+		const user = this.users.get(userId)!;
+
+		let text: string = content.body || "";
+
+		// Download any attached media
+		const attachments: Attachment[] = [];
+		if (MEDIA_MSGTYPES.has(msgtype) && typeof content.url === "string") {
+			const fileName: string = content.filename || content.body || "file";
+			try {
+				const localPath = await this.downloadMedia(channelId, content.url, fileName, event.origin_server_ts);
+				attachments.push({ original: fileName, local: localPath });
+				log.logInfo(`[matrix] Downloaded ${fileName} → ${localPath}`);
+			} catch (err) {
+				log.logWarning("[matrix] Failed to download media", err instanceof Error ? err.message : String(err));
+			}
+			// body is the caption when a separate filename is given, otherwise it IS the filename
+			text = content.filename && content.body !== content.filename ? content.body : `[File: ${fileName}]`;
+		}
+
+		// Replies carry a quoted fallback of the original ("> <@user> ...") — drop it
+		if (content["m.relates_to"]?.["m.in_reply_to"]) {
+			text = text.replace(/^(>.*\n)+\n?/, "");
+		}
+
+		const isDM = (this.members.get(roomId)?.size ?? 0) === 2;
+		const botName = this.botUserId ? this.users.get(this.botUserId)?.displayName : undefined;
+		const mentionIds: string[] = content["m.mentions"]?.user_ids || [];
+		const isBotMention =
+			!!this.botUserId &&
+			(mentionIds.includes(this.botUserId) || text.includes(this.botUserId) || (!!botName && text.startsWith(botName)));
+
+		// Strip the mention (full MXID or a leading "Name:" pill fallback)
+		if (this.botUserId) text = text.split(this.botUserId).join("");
+		if (botName && text.startsWith(botName)) text = text.slice(botName.length).replace(/^[:,]/, "");
+		text = text.trim();
+
+		// Log every message (room chatter gets synced into context later)
+		this.logToFile(channelId, {
+			date: new Date(event.origin_server_ts).toISOString(),
+			ts: event.event_id,
+			user: userId,
+			userName: user.userName,
+			displayName: user.displayName,
+			text,
+			attachments,
+			isBot: false,
+		});
+
+		// Only DMs and mentions trigger the agent
+		if (!isDM && !isBotMention) return;
+
+		const momEvent: MomEvent = {
+			type: isDM ? "dm" : "mention",
+			channel: channelId,
+			ts: event.event_id,
+			user: userId,
+			text,
+			attachments,
+		};
+
+		if (this.handler.isCommand(text)) {
+			this.handler.handleCommand(momEvent, this);
+			return;
+		}
+
+		if (text.toLowerCase() === "stop") {
+			if (this.handler.isRunning(channelId)) {
+				this.handler.handleStop(channelId, userId, this);
+			} else {
+				this.postMessage(channelId, "_Nothing running_");
+			}
+			return;
+		}
+
+		if (this.handler.isRunning(channelId)) {
+			this.handler
+				.handleBusy(momEvent, this)
+				.then(async (taken) => {
+					if (!taken) await this.postMessage(channelId, "_Already working. Say `stop` to cancel._");
+				})
+				.catch((err) =>
+					log.logWarning("Failed to handle message during run", err instanceof Error ? err.message : String(err)),
+				);
+		} else {
+			this.handler.accept(momEvent, this);
+			this.getQueue(channelId).enqueue(() => this.handler.handleEvent(momEvent, this));
+		}
+	}
+
+	private async downloadMedia(channelId: string, mxcUrl: string, fileName: string, ts: number): Promise<string> {
+		// "mxc://server/mediaId"
+		const match = mxcUrl.match(/^mxc:\/\/([^/]+)\/(.+)$/);
+		if (!match) throw new Error(`Invalid media URL: ${mxcUrl}`);
+		const [, server, mediaId] = match;
+		const mediaPath = `${encodeURIComponent(server)}/${encodeURIComponent(mediaId)}`;
+
+		// Authenticated media (spec v1.11), falling back to the legacy unauthenticated endpoint
+		let response = await fetch(`${this.homeserverUrl}/_matrix/client/v1/media/download/${mediaPath}`, {
+			headers: { Authorization: `Bearer ${this.accessToken}` },
+		});
+		if (response.status === 404 || response.status === 400) {
+			response = await fetch(`${this.homeserverUrl}/_matrix/media/v3/download/${mediaPath}`, {
+				headers: { Authorization: `Bearer ${this.accessToken}` },
+			});
+		}
+		if (!response.ok) {
+			throw new Error(`Matrix media download failed: HTTP ${response.status}`);
+		}
+		const buffer = Buffer.from(await response.arrayBuffer());
+
+		const sanitized = fileName.replace(/[^a-zA-Z0-9._-]/g, "_");
+		const relativePath = `${channelId}/attachments/${ts || Date.now()}_${sanitized}`;
+
+		const dir = join(this.workingDir, channelId, "attachments");
+		if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+		writeFileSync(join(this.workingDir, relativePath), buffer);
+
+		return relativePath;
+	}
+
+	// ==========================================================================
+	// PlatformAdapter implementation
+	// ==========================================================================
+
+	async postMessage(channel: string, text: string): Promise<string> {
+		return this.sendEvent(this.resolveRoomId(channel), this.textContent(text));
+	}
+
+	async updateMessage(channel: string, ts: string, text: string): Promise<void> {
+		// m.replace edit: fallback body for old clients + m.new_content for the rest
+		const newContent = this.textContent(text);
+		await this.sendEvent(this.resolveRoomId(channel), {
+			...newContent,
+			body: `* ${newContent.body}`,
+			formatted_body: `* ${newContent.formatted_body}`,
+			"m.new_content": newContent,
+			"m.relates_to": { rel_type: "m.replace", event_id: ts },
+		});
+	}
+
+	async deleteMessage(channel: string, ts: string): Promise<void> {
+		try {
+			const roomId = encodeURIComponent(this.resolveRoomId(channel));
+			await this.api("PUT", `/_matrix/client/v3/rooms/${roomId}/redact/${encodeURIComponent(ts)}/${this.nextTxnId()}`, {});
+		} catch {
+			// Ignore errors (message may already be redacted)
+		}
+	}
+
+	async postInThread(channel: string, threadTs: string, text: string): Promise<string> {
+		return this.sendEvent(this.resolveRoomId(channel), {
+			...this.textContent(text),
+			"m.relates_to": { rel_type: "m.thread", event_id: threadTs, is_falling_back: true, "m.in_reply_to": { event_id: threadTs } },
+		});
+	}
+
+	async uploadFile(channel: string, filePath: string, title?: string): Promise<void> {
+		const fileName = title || basename(filePath);
+		const data = readFileSync(filePath);
+		const mimetype = guessMimeType(filePath);
+
+		const { content_uri } = await this.api<{ content_uri: string }>(
+			"POST",
+			`/_matrix/media/v3/upload?filename=${encodeURIComponent(fileName)}`,
+			new Uint8Array(data),
+			{ contentType: mimetype },
+		);
+
+		await this.sendEvent(this.resolveRoomId(channel), {
+			msgtype: mimetype.startsWith("image/") ? "m.image" : "m.file",
+			body: fileName,
+			filename: fileName,
+			url: content_uri,
+			info: { mimetype, size: statSync(filePath).size },
+		});
+	}
+
+	logToFile(channel: string, entry: object): void {
+		const dir = join(this.workingDir, channel);
+		if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+		appendFileSync(join(dir, "log.jsonl"), `${JSON.stringify(entry)}\n`);
+	}
+
+	logBotResponse(channel: string, text: string, ts: string): void {
+		this.logToFile(channel, {
+			date: new Date().toISOString(),
+			ts,
+			user: "bot",
+			text,
+			attachments: [],
+			isBot: true,
+		});
+	}
+
+	getUser(userId: string): UserInfo | undefined {
+		return this.users.get(userId);
+	}
+
+	getChannel(channelId: string): ChannelInfo | undefined {
+		return this.channels.get(channelId);
+	}
+
+	getAllUsers(): UserInfo[] {
+		return Array.from(this.users.values());
+	}
+
+	getAllChannels(): ChannelInfo[] {
+		return Array.from(this.channels.values());
+	}
+
+	enqueueEvent(event: MomEvent, isEvent = true): boolean {
+		// Can only deliver to rooms we've joined
+		if (!this.roomIds.has(event.channel)) return false;
+
+		if (!this.handler.accept(event, this, isEvent)) {
+			log.logWarning(`Event queue full for ${event.channel}, discarding: ${event.text.substring(0, 50)}`);
+			return false;
+		}
+		log.logInfo(`Enqueueing event for ${event.channel}: ${event.text.substring(0, 50)}`);
+		this.getQueue(event.channel).enqueue(() => this.handler.handleEvent(event, this, isEvent));
+		return true;
+	}
+
+	queueSize(channel: string): number {
+		return this.queues.get(channel)?.size() ?? 0;
+	}
+
+	// ==========================================================================
+	// Context creation
+	// ==========================================================================
+
+	createContext(event: MomEvent, _store: ChannelStore, isEvent?: boolean): MomContext {
+		// Two-message pattern (like Telegram):
+		//   Message 1 (working): Accumulates tool summaries AND interim text in chronological order.
+		//                        Sent on first content, then edited in place via m.replace.
+		//   Message 2 (final):   Final response text, sent as a NEW event (triggers notification).
+		let workingMessageId: string | null = null;
+		let finalMessageId: string | null = null;
+		let isWorking = true;
+		let updatePromise = Promise.resolve();
+
+		// Chronological entries for the working message (tool arrows + interim text blocks)
+		const workingEntries: string[] = [];
+
+		// Pending text buffer: latest shouldLog=true text, held until we know
+		// whether it's interim (flush to working) or final (replaceMessage).
+		let pendingText: string | null = null;
+
+		// Throttle: every edit is a new timeline event, so keep them sparse
+		let lastEditTime = 0;
+		let editTimer: ReturnType<typeof setTimeout> | null = null;
+		let editDirty = false;
+
+		const roomId = this.resolveRoomId(event.channel);
+		const user = this.users.get(event.user);
+		const eventFilename = isEvent ? event.text.match(/^\[EVENT:([^:]+):/)?.[1] : undefined;
+		const headerLine = eventFilename ? `_Starting event: ${eventFilename}_` : "_Thinking_";
+
+		const buildWorkingDisplay = (): string => {
+			let display = [headerLine, ...workingEntries].join("\n");
+			while (display.length > this.maxMessageLength - 100 && workingEntries.length > 1) {
+				workingEntries.shift();
+				display = `_... trimmed_\n${[headerLine, ...workingEntries].join("\n")}`;
+			}
+			return isWorking ? display + " ..." : display;
+		};
+
+		const flushWorkingMessage = async () => {
+			const display = buildWorkingDisplay();
+			if (workingMessageId) {
+				await this.updateMessage(event.channel, workingMessageId, display);
+			} else {
+				workingMessageId = await this.postMessage(event.channel, display);
+			}
+			lastEditTime = Date.now();
+			editDirty = false;
+		};
+
+		const scheduleWorkingUpdate = async () => {
+			const elapsed = Date.now() - lastEditTime;
+			if (elapsed >= 500) {
+				if (editTimer) {
+					clearTimeout(editTimer);
+					editTimer = null;
+				}
+				await flushWorkingMessage();
+			} else {
+				editDirty = true;
+				if (!editTimer) {
+					editTimer = setTimeout(() => {
+						editTimer = null;
+						if (editDirty) {
+							updatePromise = updatePromise.then(() => flushWorkingMessage());
+						}
+					}, 500 - elapsed);
+				}
+			}
+		};
+
+		const flushPendingText = async () => {
+			if (pendingText !== null) {
+				workingEntries.push(pendingText);
+				pendingText = null;
+				await scheduleWorkingUpdate();
+			}
+		};
+
+		const setRoomTyping = async (typing: boolean) => {
+			if (!this.botUserId) return;
+			try {
+				await this.api(
+					"PUT",
+					`/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/typing/${encodeURIComponent(this.botUserId)}`,
+					typing ? { typing: true, timeout: 30000 } : { typing: false },
+				);
+			} catch {
+				// Ignore typing errors
+			}
+		};
+
+		return {
+			message: {
+				text: event.text,
+				rawText: event.text,
+				user: event.user,
+				userName: user?.userName,
+				channel: event.channel,
+				ts: event.ts,
+				attachments: (event.attachments || []).map((a) => ({ local: a.local })),
+			},
+			channelName: this.channels.get(event.channel)?.name,
+			channels: this.getAllChannels().map((c) => ({ id: c.id, name: c.name })),
+			users: this.getAllUsers().map((u) => ({ id: u.id, userName: u.userName, displayName: u.displayName })),
+
+			respond: async (text: string, shouldLog = true) => {
+				updatePromise = updatePromise.then(async () => {
+					// Tool labels (shouldLog=false, starts with _→) — append to working message
+					if (!shouldLog && text.startsWith("_→")) {
+						await flushPendingText();
+						workingEntries.push(text);
+						await scheduleWorkingUpdate();
+						return;
+					}
+
+					// Status messages (shouldLog=false) — flush pending, refresh working message
+					if (!shouldLog) {
+						await flushPendingText();
+						await scheduleWorkingUpdate();
+						return;
+					}
+
+					// Real content (shouldLog=true) — buffer until we know if it's final
+					if (text.trim()) {
+						await flushPendingText();
+						pendingText = text;
+					}
+				});
+				await updatePromise;
+			},
+
+			replaceMessage: async (text: string) => {
+				updatePromise = updatePromise.then(async () => {
+					if (!text.trim()) return;
+
+					pendingText = null;
+
+					if (workingMessageId) {
+						if (editTimer) {
+							clearTimeout(editTimer);
+							editTimer = null;
+						}
+						await flushWorkingMessage();
+					}
+
+					finalMessageId = await this.postMessage(event.channel, text);
+					this.logBotResponse(event.channel, text, finalMessageId);
+				});
+				await updatePromise;
+			},
+
+			// Matrix: swallow thread messages (tool details, duplicates, usage)
+			respondInThread: async (_text: string) => {
+				// No-op — tool details logged to log.jsonl, not posted to the room
+			},
+
+			respondThinking: async (_thinking: string) => {
+				// No-op — no thread to tuck reasoning into, so keep the room clean
+			},
+
+			setTyping: async (isTyping: boolean) => {
+				if (isTyping && !workingMessageId) {
+					updatePromise = updatePromise.then(async () => {
+						if (!workingMessageId) {
+							await setRoomTyping(true);
+							await flushWorkingMessage();
+						}
+					});
+					await updatePromise;
+				}
+			},
+
+			uploadFile: async (filePath: string, title?: string) => {
+				await this.uploadFile(event.channel, filePath, title);
+			},
+
+			setWorking: async (working: boolean) => {
+				updatePromise = updatePromise.then(async () => {
+					isWorking = working;
+					if (!working) {
+						await flushPendingText();
+
+						if (editTimer) {
+							clearTimeout(editTimer);
+							editTimer = null;
+						}
+
+						// If nothing accumulated, redact the working message (clean UX)
+						if (workingEntries.length === 0 && workingMessageId) {
+							await this.deleteMessage(event.channel, workingMessageId);
+							workingMessageId = null;
+						} else if (workingMessageId) {
+							// Final edit — removes the "..." spinner
+							await flushWorkingMessage();
+						}
+						await setRoomTyping(false);
+					}
+				});
+				await updatePromise;
+			},
+
+			deleteMessage: async () => {
+				updatePromise = updatePromise.then(async () => {
+					// Redact both messages (used by [SILENT] handler)
+					if (editTimer) {
+						clearTimeout(editTimer);
+						editTimer = null;
+					}
+					if (workingMessageId) {
+						await this.deleteMessage(event.channel, workingMessageId);
+						workingMessageId = null;
+					}
+					if (finalMessageId) {
+						await this.deleteMessage(event.channel, finalMessageId);
+						finalMessageId = null;
+					}
+				});
+				await updatePromise;
+			},
+		};
+	}
+
+	// ==========================================================================
+	// Helpers
+	// ==========================================================================
+
+	protected getQueue(channelId: string): ChannelQueue {
+		let queue = this.queues.get(channelId);
+		if (!queue) {
+			queue = new ChannelQueue();
+			this.queues.set(channelId, queue);
+		}
+		return queue;
+	}
+}
+
+function guessMimeType(filePath: string): string {
+	const types: Record<string, string> = {
+		".png": "image/png",
+		".jpg": "image/jpeg",
+		".jpeg": "image/jpeg",
+		".gif": "image/gif",
+		".webp": "image/webp",
+		".pdf": "application/pdf",
+		".txt": "text/plain",
+		".md": "text/markdown",
+		".json": "application/json",
+		".csv": "text/csv",
+	};
+	return types[extname(filePath).toLowerCase()] || "application/octet-stream";
+}
@@ -0,0 +1,84 @@
+// ============================================================================
+// Markdown → Matrix HTML conversion
+// ============================================================================
+//
+// Matrix messages carry a plain `body` plus an optional `formatted_body` in
+// "org.matrix.custom.html" — a safe HTML subset that clients sanitize.
+// Clients do NOT render markdown in `body`, so we convert at the boundary
+// and send both. Newlines are not significant in HTML, so outside <pre>
+// blocks they become <br>.
+
+/** HTML-escape the 3 special characters */
+function esc(text: string): string {
+	return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Convert markdown text to Matrix `formatted_body` HTML.
+ */
+export function markdownToMatrixHtml(text: string): string {
+	// Accumulate placeholders and restore at the end
+	const placeholders: string[] = [];
+	const ph = (content: string): string => {
+		const idx = placeholders.length;
+		placeholders.push(content);
+		return `\x00PH${idx}\x00`;
+	};
+
+	let out = text;
+
+	// 1. Extract fenced code blocks — contents get HTML-escaped, language kept as a class
+	out = out.replace(/```(\w*)\n?([\s\S]*?)```/g, (_match, lang: string, code: string) => {
+		const cls = lang ? ` class="language-${lang}"` : "";
+		return ph(`<pre><code${cls}>${esc(code.replace(/\n$/, ""))}</code></pre>`);
+	});
+
+	// 2. Extract inline code — same treatment
+	out = out.replace(/`([^`\n]+)`/g, (_match, code: string) => {
+		return ph(`<code>${esc(code)}</code>`);
+	});
+
+	// 3. HTML-escape all remaining plain text
+	out = esc(out);
+
+	// 4. Convert markdown constructs (order matters)
+
+	// Links: [text](url) and Slack-style <url|text> (escaped by now)
+	out = out.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>');
+	out = out.replace(/&lt;(https?:\/\/[^|]+?)\|(.+?)&gt;/g, '<a href="$1">$2</a>');
+
+	// Bold+italic: ***text*** or ___text___
+	out = out.replace(/\*{3}(.+?)\*{3}/g, "<strong><em>$1</em></strong>");
+	out = out.replace(/_{3}(.+?)_{3}/g, "<strong><em>$1</em></strong>");
+
+	// Bold: **text** or __text__
+	out = out.replace(/\*{2}(.+?)\*{2}/g, "<strong>$1</strong>");
+	out = out.replace(/_{2}(.+?)_{2}/g, "<strong>$1</strong>");
+
+	// Italic: *text* or _text_ (avoid matching mid-word underscores like foo_bar_baz)
+	out = out.replace(/(?<!\w)\*(.+?)\*(?!\w)/g, "<em>$1</em>");
+	out = out.replace(/(?<!\w)_(.+?)_(?!\w)/g, "<em>$1</em>");
+
+	// Strikethrough: ~~text~~
+	out = out.replace(/~~(.+?)~~/g, "<del>$1</del>");
+
+	// Headers: # text → <hN> (block elements swallow the following newline)
+	out = out.replace(/^(#{1,6})\s+(.+)$\n?/gm, (_match, hashes: string, title: string) => {
+		return `<h${hashes.length}>${title}</h${hashes.length}>`;
+	});
+
+	// Blockquotes: > text
+	out = out.replace(/^&gt;\s?(.*)$\n?/gm, "<blockquote>$1</blockquote>");
+	out = out.replace(/<\/blockquote><blockquote>/g, "<br>");
+
+	// Unordered list bullets: - item or * item → • item
+	out = out.replace(/^[-*]\s+/gm, "• ");
+
+	// 5. Newlines → <br> (code blocks are still placeholders, so they keep theirs)
+	out = out.replace(/\n/g, "<br>");
+
+	// 6. Restore placeholders
+	out = out.replace(/\x00PH(\d+)\x00/g, (_match, idx: string) => placeholders[Number(idx)]);
+
+	return out;
+}
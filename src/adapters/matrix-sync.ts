@@ -0,0 +1,89 @@
+import * as log from "../log.js";
+import { MatrixBase, type MatrixBaseConfig, type MatrixEvent } from "./matrix-base.js";
+
+// ============================================================================
+// MatrixSyncAdapter — client-server API long-poll (/sync)
+// ============================================================================
+
+interface SyncResponse {
+	next_batch: string;
+	rooms?: {
+		join?: Record<string, { state?: { events?: MatrixEvent[] }; timeline?: { events?: MatrixEvent[] } }>;
+		invite?: Record<string, unknown>;
+	};
+}
+
+export type MatrixSyncAdapterConfig = MatrixBaseConfig;
+
+export class MatrixSyncAdapter extends MatrixBase {
+	private since: string | null = null;
+	private running = false;
+	private abortController: AbortController | null = null;
+
+	async start(): Promise<void> {
+		if (!this.handler) throw new Error("MatrixSyncAdapter: handler not set. Call setHandler() before start().");
+
+		await this.initMetadata();
+
+		// Initial sync only establishes the position — history before startup is not replayed
+		const initial = await this.sync(0, '{"room":{"timeline":{"limit":1}}}');
+		this.processSync(initial, false);
+
+		this.running = true;
+		this.pollLoop();
+		log.logConnected();
+	}
+
+	async stop(): Promise<void> {
+		this.running = false;
+		this.abortController?.abort();
+	}
+
+	// ==========================================================================
+	// Long-poll loop
+	// ==========================================================================
+
+	private async pollLoop(): Promise<void> {
+		while (this.running) {
+			try {
+				const response = await this.sync(30000);
+				this.processSync(response, true);
+			} catch (err) {
+				if (!this.running) break;
+				log.logWarning("Matrix sync failed, retrying in 5s", err instanceof Error ? err.message : String(err));
+				await new Promise((resolve) => setTimeout(resolve, 5000));
+			}
+		}
+	}
+
+	private async sync(timeoutMs: number, filter?: string): Promise<SyncResponse> {
+		const params = new URLSearchParams({ timeout: String(timeoutMs) });
+		if (this.since) params.set("since", this.since);
+		if (filter) params.set("filter", filter);
+
+		this.abortController = new AbortController();
+		const response = await this.api<SyncResponse>("GET", `/_matrix/client/v3/sync?${params}`, undefined, {
+			signal: this.abortController.signal,
+		});
+		this.since = response.next_batch;
+		return response;
+	}
+
+	private processSync(response: SyncResponse, dispatchTimeline: boolean): void {
+		for (const roomId of Object.keys(response.rooms?.invite || {})) {
+			this.joinRoom(roomId);
+		}
+
+		for (const [roomId, room] of Object.entries(response.rooms?.join || {})) {
+			for (const event of room.state?.events || []) {
+				this.handleRoomEvent(roomId, event);
+			}
+			for (const event of room.timeline?.events || []) {
+				// State changes in the timeline always apply; messages only after the initial sync
+				if (dispatchTimeline || event.state_key !== undefined) {
+					this.handleRoomEvent(roomId, event);
+				}
+			}
+		}
+	}
+}
@@ -1,9 +1,19 @@
 import { WebClient } from "@slack/web-api";
 import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
 import { basename, join } from "path";
+import { sessionKey } from "../context.js";
 import * as log from "../log.js";
 import type { Attachment, ChannelStore } from "../store.js";
-import type { ChannelInfo, MomContext, MomEvent, MomHandler, PlatformAdapter, UserInfo } from "./types.js";
+import { platformChannelId, qualifyChannelId } from "./instance.js";
+import type {
+	ApprovalRequest,
+	ChannelInfo,
+	MomContext,
+	MomEvent,
+	MomHandler,
+	PlatformAdapter,
+	UserInfo,
+} from "./types.js";
 import { markdownToSlackMrkdwn } from "./slack-format.js";
 
 // ============================================================================
@@ -21,6 +31,14 @@ export interface SlackChannel {
 	name: string;
 }
 
+/** Interactivity payload for a button click (only the fields we read) */
+export interface SlackBlockActionsPayload {
+	type: string;
+	user?: { id: string };
+	channel?: { id: string };
+	actions?: Array<{ action_id: string; value: string }>;
+}
+
 // ============================================================================
 // Per-channel queue for sequential processing
 // ============================================================================
@@ -62,10 +80,13 @@ export interface SlackBaseConfig {
 	botToken: string;
 	workingDir: string;
 	store: ChannelStore;
+	/** Named instance (e.g. a second workspace) — suffixes channel IDs with "@<instance>" */
+	instance?: string;
 }
 
 export abstract class SlackBase implements PlatformAdapter {
 	readonly name = "slack";
+	readonly instance?: string;
 	readonly maxMessageLength = 40000;
 	readonly formatInstructions = `## Slack Formatting (mrkdwn, NOT Markdown)
 Bold: *text*, Italic: _text_, Code: \`code\`, Block: \`\`\`code\`\`\`, Links: <url|text>
@@ -87,6 +108,7 @@ When mentioning users, use <@username> format (e.g., <@mario>).`;
 	constructor(config: SlackBaseConfig) {
 		this.workingDir = config.workingDir;
 		this.store = config.store;
+		this.instance = config.instance;
 		this.webClient = new WebClient(config.botToken);
 	}
 
@@ -145,32 +167,78 @@ When mentioning users, use <@username> format (e.g., <@mario>).`;
 	}
 
 	async postMessage(channel: string, text: string): Promise<string> {
-		const result = await this.webClient.chat.postMessage({ channel, text: markdownToSlackMrkdwn(text) });
+		const result = await this.webClient.chat.postMessage({
+			channel: this.toSlackId(channel),
+			text: markdownToSlackMrkdwn(text),
+		});
 		return result.ts as string;
 	}
 
 	async updateMessage(channel: string, ts: string, text: string): Promise<void> {
-		await this.webClient.chat.update({ channel, ts, text: markdownToSlackMrkdwn(text) });
+		await this.webClient.chat.update({ channel: this.toSlackId(channel), ts, text: markdownToSlackMrkdwn(text) });
 	}
 
 	async deleteMessage(channel: string, ts: string): Promise<void> {
-		await this.webClient.chat.delete({ channel, ts });
+		await this.webClient.chat.delete({ channel: this.toSlackId(channel), ts });
 	}
 
 	async postInThread(channel: string, threadTs: string, text: string): Promise<string> {
-		const result = await this.webClient.chat.postMessage({ channel, thread_ts: threadTs, text: markdownToSlackMrkdwn(text) });
+		const result = await this.webClient.chat.postMessage({
+			channel: this.toSlackId(channel),
+			thread_ts: threadTs,
+			text: markdownToSlackMrkdwn(text),
+		});
 		return result.ts as string;
 	}
 
-	async uploadFile(channel: string, filePath: string, title?: string): Promise<void> {
+	async postApprovalRequest(request: ApprovalRequest): Promise<string> {
+		const text = markdownToSlackMrkdwn(`*Approval needed* — ${request.tool}: ${request.summary}\n_${request.reason}_`);
+		const result = await this.webClient.chat.postMessage({
+			channel: this.toSlackId(request.channelId),
+			...(request.thread ? { thread_ts: request.thread } : {}),
+			text,
+			blocks: [
+				{ type: "section", text: { type: "mrkdwn", text } },
+				{
+					type: "actions",
+					block_id: `approval-${request.id}`,
+					elements: [
+						{
+							type: "button",
+							action_id: "approve",
+							style: "primary",
+							text: { type: "plain_text", text: "Approve" },
+							value: request.id,
+						},
+						{
+							type: "button",
+							action_id: "deny",
+							style: "danger",
+							text: { type: "plain_text", text: "Deny" },
+							value: request.id,
+						},
+					],
+				},
+			],
+		});
+		return result.ts as string;
+	}
+
+	async resolveApprovalRequest(request: ApprovalRequest, ts: string, text: string): Promise<void> {
+		// Dropping the blocks removes the buttons
+		await this.webClient.chat.update({
+			channel: this.toSlackId(request.channelId),
+			ts,
+			text: markdownToSlackMrkdwn(text),
+			blocks: [],
+		});
+	}
+
+	async uploadFile(channel: string, filePath: string, title?: string, threadTs?: string): Promise<void> {
 		const fileName = title || basename(filePath);
 		const fileContent = readFileSync(filePath);
-		await this.webClient.files.uploadV2({
-			channel_id: channel,
-			file: fileContent,
-			filename: fileName,
-			title: fileName,
-		});
+		const upload = { channel_id: this.toSlackId(channel), file: fileContent, filename: fileName, title: fileName };
+		await this.webClient.files.uploadV2(threadTs ? { ...upload, thread_ts: threadTs } : upload);
 	}
 
 	logToFile(channel: string, entry: object): void {
@@ -179,7 +247,7 @@ When mentioning users, use <@username> format (e.g., <@mario>).`;
 		appendFileSync(join(dir, "log.jsonl"), `${JSON.stringify(entry)}\n`);
 	}
 
-	logBotResponse(channel: string, text: string, ts: string): void {
+	logBotResponse(channel: string, text: string, ts: string, thread?: string): void {
 		this.logToFile(channel, {
 			date: new Date().toISOString(),
 			ts,
@@ -187,23 +255,24 @@ When mentioning users, use <@username> format (e.g., <@mario>).`;
 			text,
 			attachments: [],
 			isBot: true,
+			thread,
 		});
 	}
 
-	enqueueEvent(event: MomEvent): boolean {
-		// Slack channel IDs start with C (channel), D (DM), or G (group)
-		if (!/^[CDG]/.test(event.channel)) return false;
-
-		const queue = this.getQueue(event.channel);
-		if (queue.size() >= 5) {
+	enqueueEvent(event: MomEvent, isEvent = true): boolean {
+		if (!this.handler.accept(event, this, isEvent)) {
 			log.logWarning(`Event queue full for ${event.channel}, discarding: ${event.text.substring(0, 50)}`);
 			return false;
 		}
 		log.logInfo(`Enqueueing event for ${event.channel}: ${event.text.substring(0, 50)}`);
-		queue.enqueue(() => this.handler.handleEvent(event, this, true));
+		this.getQueue(sessionKey(event.channel, event.thread)).enqueue(() => this.handler.handleEvent(event, this, isEvent));
 		return true;
 	}
 
+	queueSize(channel: string, thread?: string): number {
+		return this.queues.get(sessionKey(channel, thread))?.size() ?? 0;
+	}
+
 	// ==========================================================================
 	// Context creation
 	// ==========================================================================
@@ -213,6 +282,9 @@ When mentioning users, use <@username> format (e.g., <@mario>).`;
 		//   While working: "_Thinking_" header + tool arrows, edited in place.
 		//   On final: tool arrows (no header) + blank line + response text.
 		//   Thread replies go under the same message.
+		// In a thread session the message is a reply in that thread. Slack threads
+		// don't nest, so tool details and reasoning stay out of it.
+		const { thread } = event;
 		let messageTs: string | null = null;
 		const threadMessageTs: string[] = [];
 		let isWorking = true;
@@ -243,12 +315,15 @@ When mentioning users, use <@username> format (e.g., <@mario>).`;
 			return isWorking ? display + " ..." : display;
 		};
 
+		const post = (text: string): Promise<string> =>
+			thread ? this.postInThread(event.channel, thread, text) : this.postMessage(event.channel, text);
+
 		const flushMessage = async () => {
 			const display = buildWorkingDisplay();
 			if (messageTs) {
 				await this.updateMessage(event.channel, messageTs, display);
 			} else {
-				messageTs = await this.postMessage(event.channel, display);
+				messageTs = await post(display);
 			}
 			lastEditTime = Date.now();
 			editDirty = false;
@@ -329,11 +404,11 @@ When mentioning users, use <@username> format (e.g., <@mario>).`;
 					if (messageTs) {
 						await this.updateMessage(event.channel, messageTs, finalDisplay);
 					} else {
-						messageTs = await this.postMessage(event.channel, finalDisplay);
+						messageTs = await post(finalDisplay);
 					}
 
 					if (messageTs) {
-						this.logBotResponse(event.channel, text, messageTs);
+						this.logBotResponse(event.channel, text, messageTs, thread);
 					}
 				});
 				await updatePromise;
@@ -341,7 +416,7 @@ When mentioning users, use <@username> format (e.g., <@mario>).`;
 
 			respondInThread: async (text: string) => {
 				updatePromise = updatePromise.then(async () => {
-					if (messageTs) {
+					if (messageTs && !thread) {
 						const ts = await this.postInThread(event.channel, messageTs, text);
 						threadMessageTs.push(ts);
 					}
@@ -349,6 +424,18 @@ When mentioning users, use <@username> format (e.g., <@mario>).`;
 				await updatePromise;
 			},
 
+			// Reasoning goes to the thread as a quote — Slack collapses long thread replies
+			respondThinking: async (thinking: string) => {
+				updatePromise = updatePromise.then(async () => {
+					if (messageTs && !thread && thinking.trim()) {
+						const quoted = thinking.trim().substring(0, 3000).split("\n").map((line) => `> ${line}`).join("\n");
+						const ts = await this.postInThread(event.channel, messageTs, `_Thinking_\n${quoted}`);
+						threadMessageTs.push(ts);
+					}
+				});
+				await updatePromise;
+			},
+
 			setTyping: async (isTyping: boolean) => {
 				if (isTyping && !messageTs) {
 					updatePromise = updatePromise.then(async () => {
@@ -361,7 +448,7 @@ When mentioning users, use <@username> format (e.g., <@mario>).`;
 			},
 
 			uploadFile: async (filePath: string, title?: string) => {
-				await this.uploadFile(event.channel, filePath, title);
+				await this.uploadFile(event.channel, filePath, title, thread);
 			},
 
 			setWorking: async (working: boolean) => {
@@ -409,11 +496,83 @@ When mentioning users, use <@username> format (e.g., <@mario>).`;
 	// Shared event handling helpers
 	// ==========================================================================
 
-	protected getQueue(channelId: string): ChannelQueue {
-		let queue = this.queues.get(channelId);
+	/** Slack channel ID → mom channel ID (suffixed for named instances) */
+	protected toChannelId(slackId: string): string {
+		return qualifyChannelId(slackId, this.instance);
+	}
+
+	/** Mom channel ID → Slack channel ID for API calls */
+	protected toSlackId(channelId: string): string {
+		return platformChannelId(channelId, this.instance);
+	}
+
+	/** Root timestamp of the thread a Slack message is a reply in, if it is one */
+	protected threadOf(message: { ts: string; thread_ts?: string }): string | undefined {
+		return message.thread_ts && message.thread_ts !== message.ts ? message.thread_ts : undefined;
+	}
+
+	/**
+	 * Act on a message addressed to the bot: run a slash command, stop the
+	 * session's run, steer it while busy, or queue a new run. Each thread
+	 * session has its own queue, so threads run alongside their channel.
+	 */
+	protected trigger(event: MomEvent, stopHint: string): void {
+		const { channel, thread } = event;
+		const reply = (text: string) => (thread ? this.postInThread(channel, thread, text) : this.postMessage(channel, text));
+
+		if (this.handler.isCommand(event.text)) {
+			this.handler.handleCommand(event, this);
+			return;
+		}
+
+		if (event.text.toLowerCase().trim() === "stop") {
+			if (this.handler.isRunning(channel, thread)) {
+				this.handler.handleStop(channel, event.user, this, thread);
+			} else {
+				reply("_Nothing running_");
+			}
+			return;
+		}
+
+		if (this.handler.isRunning(channel, thread)) {
+			this.handler
+				.handleBusy(event, this)
+				.then(async (taken) => {
+					if (!taken) await reply(`_Already working. Say \`${stopHint}\` to cancel._`);
+				})
+				.catch((err) =>
+					log.logWarning("Failed to handle message during run", err instanceof Error ? err.message : String(err)),
+				);
+		} else {
+			this.handler.accept(event, this);
+			this.getQueue(sessionKey(channel, thread)).enqueue(() => this.handler.handleEvent(event, this));
+		}
+	}
+
+	/** Approve/Deny button clicks — block_actions payloads from either connection mode */
+	protected handleBlockActions(payload: SlackBlockActionsPayload): void {
+		if (payload.type !== "block_actions" || !payload.channel || !payload.user) return;
+		const channel = this.toChannelId(payload.channel.id);
+		const userId = payload.user.id;
+		for (const action of payload.actions ?? []) {
+			if (action.action_id !== "approve" && action.action_id !== "deny") continue;
+			this.handler
+				.handleApproval(channel, action.value, action.action_id === "approve", userId, this)
+				.then((status) =>
+					this.webClient.chat.postEphemeral({ channel: payload.channel!.id, user: userId, text: status }),
+				)
+				.catch((err) =>
+					log.logWarning("Failed to handle approval click", err instanceof Error ? err.message : String(err)),
+				);
+		}
+	}
+
+	/** Queue for a sessionKey() — a channel, or a thread in one */
+	protected getQueue(key: string): ChannelQueue {
+		let queue = this.queues.get(key);
 		if (!queue) {
 			queue = new ChannelQueue();
-			this.queues.set(channelId, queue);
+			this.queues.set(key, queue);
 		}
 		return queue;
 	}
@@ -430,6 +589,7 @@ When mentioning users, use <@username> format (e.g., <@mario>).`;
 			text: event.text,
 			attachments,
 			isBot: false,
+			thread: event.thread,
 		});
 		return attachments;
 	}
@@ -478,7 +638,7 @@ When mentioning users, use <@username> format (e.g., <@mario>).`;
 
 		do {
 			const result = await this.webClient.conversations.history({
-				channel: channelId,
+				channel: this.toSlackId(channelId),
 				oldest: latestTs,
 				inclusive: false,
 				limit: 1000,
@@ -587,7 +747,8 @@ When mentioning users, use <@username> format (e.g., <@mario>).`;
 			if (channels) {
 				for (const c of channels) {
 					if (c.id && c.name && c.is_member) {
-						this.channels.set(c.id, { id: c.id, name: c.name });
+						const id = this.toChannelId(c.id);
+						this.channels.set(id, { id, name: c.name });
 					}
 				}
 			}
@@ -605,9 +766,10 @@ When mentioning users, use <@username> format (e.g., <@mario>).`;
 			if (ims) {
 				for (const im of ims) {
 					if (im.id) {
+						const id = this.toChannelId(im.id);
 						const user = im.user ? this.users.get(im.user) : undefined;
 						const name = user ? `DM:${user.userName}` : `DM:${im.id}`;
-						this.channels.set(im.id, { id: im.id, name });
+						this.channels.set(id, { id, name });
 					}
 				}
 			}
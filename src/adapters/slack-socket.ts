@@ -1,7 +1,7 @@
 import { SocketModeClient } from "@slack/socket-mode";
 import * as log from "../log.js";
 import type { ChannelStore } from "../store.js";
-import { SlackBase, type SlackBaseConfig } from "./slack-base.js";
+import { SlackBase, type SlackBaseConfig, type SlackBlockActionsPayload } from "./slack-base.js";
 import type { MomEvent } from "./types.js";
 
 // ============================================================================
@@ -45,8 +45,10 @@ export class SlackSocketAdapter extends SlackBase {
 				channel: string;
 				user: string;
 				ts: string;
+				thread_ts?: string;
 				files?: Array<{ name: string; url_private_download?: string; url_private?: string }>;
 			};
+			const channel = this.toChannelId(e.channel);
 
 			if (e.channel.startsWith("D")) {
 				ack();
@@ -55,39 +57,25 @@ export class SlackSocketAdapter extends SlackBase {
 
 			const momEvent: MomEvent = {
 				type: "mention",
-				channel: e.channel,
+				channel,
 				ts: e.ts,
 				user: e.user,
 				text: e.text.replace(/<@[A-Z0-9]+>/gi, "").trim(),
 				files: e.files,
+				thread: this.threadOf(e),
 			};
 
 			momEvent.attachments = this.logUserMessage(momEvent);
 
 			if (this.startupTs && e.ts < this.startupTs) {
 				log.logInfo(
-					`[${e.channel}] Logged old message (pre-startup), not triggering: ${momEvent.text.substring(0, 30)}`,
+					`[${channel}] Logged old message (pre-startup), not triggering: ${momEvent.text.substring(0, 30)}`,
 				);
 				ack();
 				return;
 			}
 
-			if (momEvent.text.toLowerCase().trim() === "stop") {
-				if (this.handler.isRunning(e.channel)) {
-					this.handler.handleStop(e.channel, this);
-				} else {
-					this.postMessage(e.channel, "_Nothing running_");
-				}
-				ack();
-				return;
-			}
-
-			if (this.handler.isRunning(e.channel)) {
-				this.postMessage(e.channel, "_Already working. Say `@mom stop` to cancel._");
-			} else {
-				this.getQueue(e.channel).enqueue(() => this.handler.handleEvent(momEvent, this));
-			}
-
+			this.trigger(momEvent, "@mom stop");
 			ack();
 		});
 
@@ -98,11 +86,13 @@ export class SlackSocketAdapter extends SlackBase {
 				channel: string;
 				user?: string;
 				ts: string;
+				thread_ts?: string;
 				channel_type?: string;
 				subtype?: string;
 				bot_id?: string;
 				files?: Array<{ name: string; url_private_download?: string; url_private?: string }>;
 			};
+			const channel = this.toChannelId(e.channel);
 
 			if (e.bot_id || !e.user || e.user === this.botUserId) {
 				ack();
@@ -127,40 +117,33 @@ export class SlackSocketAdapter extends SlackBase {
 
 			const momEvent: MomEvent = {
 				type: isDM ? "dm" : "mention",
-				channel: e.channel,
+				channel,
 				ts: e.ts,
 				user: e.user,
 				text: (e.text || "").replace(/<@[A-Z0-9]+>/gi, "").trim(),
 				files: e.files,
+				thread: this.threadOf(e),
 			};
 
 			momEvent.attachments = this.logUserMessage(momEvent);
 
 			if (this.startupTs && e.ts < this.startupTs) {
-				log.logInfo(`[${e.channel}] Skipping old message (pre-startup): ${momEvent.text.substring(0, 30)}`);
+				log.logInfo(`[${channel}] Skipping old message (pre-startup): ${momEvent.text.substring(0, 30)}`);
 				ack();
 				return;
 			}
 
 			if (isDM) {
-				if (momEvent.text.toLowerCase().trim() === "stop") {
-					if (this.handler.isRunning(e.channel)) {
-						this.handler.handleStop(e.channel, this);
-					} else {
-						this.postMessage(e.channel, "_Nothing running_");
-					}
-					ack();
-					return;
-				}
-
-				if (this.handler.isRunning(e.channel)) {
-					this.postMessage(e.channel, "_Already working. Say `stop` to cancel._");
-				} else {
-					this.getQueue(e.channel).enqueue(() => this.handler.handleEvent(momEvent, this));
-				}
+				this.trigger(momEvent, "stop");
 			}
 
 			ack();
 		});
+
+		// Approval buttons
+		this.socketClient.on("interactive", ({ body, ack }) => {
+			ack();
+			this.handleBlockActions(body as SlackBlockActionsPayload);
+		});
 	}
 }
@@ -2,7 +2,7 @@ import { createHmac, timingSafeEqual } from "crypto";
 import type { IncomingMessage, ServerResponse } from "http";
 import * as log from "../log.js";
 import type { ChannelStore } from "../store.js";
-import { SlackBase, type SlackBaseConfig } from "./slack-base.js";
+import { SlackBase, type SlackBaseConfig, type SlackBlockActionsPayload } from "./slack-base.js";
 import type { MomEvent } from "./types.js";
 
 // ============================================================================
@@ -38,6 +38,41 @@ export class SlackWebhookAdapter extends SlackBase {
 	// ==========================================================================
 
 	dispatch(req: IncomingMessage, res: ServerResponse): void {
+		this.readVerified(req, res, (body) => {
+			let payload: SlackEventPayload;
+			try {
+				payload = JSON.parse(body);
+			} catch {
+				res.writeHead(400);
+				res.end("Invalid JSON");
+				return;
+			}
+
+			this.dispatchEvent(payload, res);
+		});
+	}
+
+	/** Interactivity requests (approval buttons) — form-encoded `payload=<json>` */
+	dispatchInteraction(req: IncomingMessage, res: ServerResponse): void {
+		this.readVerified(req, res, (body) => {
+			let payload: SlackBlockActionsPayload;
+			try {
+				payload = JSON.parse(new URLSearchParams(body).get("payload") ?? "");
+			} catch {
+				res.writeHead(400);
+				res.end("Invalid payload");
+				return;
+			}
+
+			// Acknowledge immediately, same as events
+			res.writeHead(200);
+			res.end();
+			this.handleBlockActions(payload);
+		});
+	}
+
+	/** Buffer the body and check Slack's signature before handing it on */
+	private readVerified(req: IncomingMessage, res: ServerResponse, onBody: (body: string) => void): void {
 		const chunks: Buffer[] = [];
 		req.on("data", (chunk: Buffer) => chunks.push(chunk));
 		req.on("end", () => {
@@ -69,16 +104,7 @@ export class SlackWebhookAdapter extends SlackBase {
 				return;
 			}
 
-			let payload: SlackEventPayload;
-			try {
-				payload = JSON.parse(body);
-			} catch {
-				res.writeHead(400);
-				res.end("Invalid JSON");
-				return;
-			}
-
-			this.dispatchEvent(payload, res);
+			onBody(body);
 		});
 	}
 
@@ -136,36 +162,25 @@ export class SlackWebhookAdapter extends SlackBase {
 
 	private handleAppMention(event: SlackEventInner): void {
 		if (event.channel.startsWith("D")) return;
+		const channel = this.toChannelId(event.channel);
 
 		const momEvent: MomEvent = {
 			type: "mention",
-			channel: event.channel,
+			channel,
 			ts: event.ts,
 			user: event.user!,
 			text: (event.text || "").replace(/<@[A-Z0-9]+>/gi, "").trim(),
 			files: event.files,
+			thread: this.threadOf(event),
 		};
 
 		momEvent.attachments = this.logUserMessage(momEvent);
-
-		if (momEvent.text.toLowerCase().trim() === "stop") {
-			if (this.handler.isRunning(event.channel)) {
-				this.handler.handleStop(event.channel, this);
-			} else {
-				this.postMessage(event.channel, "_Nothing running_");
-			}
-			return;
-		}
-
-		if (this.handler.isRunning(event.channel)) {
-			this.postMessage(event.channel, "_Already working. Say `@mom stop` to cancel._");
-		} else {
-			this.getQueue(event.channel).enqueue(() => this.handler.handleEvent(momEvent, this));
-		}
+		this.trigger(momEvent, "@mom stop");
 	}
 
 	private handleMessage(event: SlackEventInner): void {
 		if (!event.text && (!event.files || event.files.length === 0)) return;
+		const channel = this.toChannelId(event.channel);
 
 		const isDM = event.channel_type === "im";
 		const isBotMention = event.text?.includes(`<@${this.botUserId}>`);
@@ -175,30 +190,18 @@ export class SlackWebhookAdapter extends SlackBase {
 
 		const momEvent: MomEvent = {
 			type: isDM ? "dm" : "mention",
-			channel: event.channel,
+			channel,
 			ts: event.ts,
 			user: event.user!,
 			text: (event.text || "").replace(/<@[A-Z0-9]+>/gi, "").trim(),
 			files: event.files,
+			thread: this.threadOf(event),
 		};
 
 		momEvent.attachments = this.logUserMessage(momEvent);
 
 		if (isDM) {
-			if (momEvent.text.toLowerCase().trim() === "stop") {
-				if (this.handler.isRunning(event.channel)) {
-					this.handler.handleStop(event.channel, this);
-				} else {
-					this.postMessage(event.channel, "_Nothing running_");
-				}
-				return;
-			}
-
-			if (this.handler.isRunning(event.channel)) {
-				this.postMessage(event.channel, "_Already working. Say `stop` to cancel._");
-			} else {
-				this.getQueue(event.channel).enqueue(() => this.handler.handleEvent(momEvent, this));
-			}
+			this.trigger(momEvent, "stop");
 		}
 	}
 }
@@ -222,6 +225,7 @@ interface SlackEventInner {
 	bot_id?: string;
 	text?: string;
 	ts: string;
+	thread_ts?: string;
 	subtype?: string;
 	files?: Array<{ name: string; url_private_download?: string; url_private?: string }>;
 }
@@ -3,8 +3,17 @@ import TelegramBot from "node-telegram-bot-api";
 import { basename, join } from "path";
 import * as log from "../log.js";
 import type { Attachment, ChannelStore } from "../store.js";
+import { platformChannelId, qualifyChannelId } from "./instance.js";
 import { markdownToTelegramHtml } from "./telegram-format.js";
-import type { ChannelInfo, MomContext, MomEvent, MomHandler, PlatformAdapter, UserInfo } from "./types.js";
+import type {
+	ApprovalRequest,
+	ChannelInfo,
+	MomContext,
+	MomEvent,
+	MomHandler,
+	PlatformAdapter,
+	UserInfo,
+} from "./types.js";
 
 // ============================================================================
 // TelegramBase — abstract base class for Telegram adapters
@@ -18,12 +27,18 @@ export function escapeHtml(text: string): string {
 export interface TelegramBaseConfig {
 	botToken: string;
 	workingDir: string;
+	/** Named instance (e.g. a second bot) — suffixes channel IDs with "@<instance>" */
+	instance?: string;
 }
 
 type QueuedWork = () => Promise<void>;
 
+/** Platform ID of a forum topic channel: "<chat_id>_<message_thread_id>" */
+const TOPIC_CHANNEL = /^(-?\d+)_(\d+)$/;
+
 export abstract class TelegramBase implements PlatformAdapter {
 	readonly name = "telegram";
+	readonly instance?: string;
 	readonly maxMessageLength = 4096;
 	readonly formatInstructions = `## Text Formatting
 Use markdown: **bold**, *italic*, \`code\`, \`\`\`blocks\`\`\`, [links](url), ~~strikethrough~~.
@@ -43,6 +58,7 @@ When mentioning users, use @username format.`;
 	constructor(config: TelegramBaseConfig) {
 		this.workingDir = config.workingDir;
 		this.botToken = config.botToken;
+		this.instance = config.instance;
 		// Always construct with polling: false — subclasses control lifecycle
 		this.bot = new TelegramBot(config.botToken, { polling: false });
 	}
@@ -66,7 +82,7 @@ When mentioning users, use @username format.`;
 		const hasMedia = !!(msg.voice || msg.audio || msg.document || msg.photo || msg.video || msg.video_note);
 		if ((!msg.text && !msg.caption && !hasMedia) || msg.from?.is_bot) return;
 
-		const chatId = String(msg.chat.id);
+		const chatId = this.toChannelId(msg);
 		const userId = String(msg.from!.id);
 		const userName = msg.from!.username || msg.from!.first_name || userId;
 		const displayName = [msg.from!.first_name, msg.from!.last_name].filter(Boolean).join(" ") || userName;
@@ -74,8 +90,15 @@ When mentioning users, use @username format.`;
 		// Track user
 		this.users.set(userId, { id: userId, userName, displayName });
 
-		// Track channel/chat
-		const chatName = msg.chat.title || (msg.chat.type === "private" ? `DM:${userName}` : chatId);
+		// Track channel/chat — a forum topic is named "<group> / <topic>"; messages that
+		// don't reply to anything else reply to the topic's creation, which carries its name
+		let chatName = msg.chat.title || (msg.chat.type === "private" ? `DM:${userName}` : chatId);
+		if (msg.is_topic_message && msg.message_thread_id) {
+			const topicName = msg.reply_to_message?.forum_topic_created?.name;
+			chatName = topicName
+				? `${chatName} / ${topicName}`
+				: (this.channels.get(chatId)?.name ?? `${chatName} / topic ${msg.message_thread_id}`);
+		}
 		this.channels.set(chatId, { id: chatId, name: chatName });
 
 		// Extract text: prefer text, fall back to caption, then synthesize from media type
@@ -87,6 +110,23 @@ When mentioning users, use @username format.`;
 		});
 	}
 
+	/**
+	 * Approve/Deny button taps. The prompt itself is edited by the approval gate
+	 * through updateMessage(), which also drops the keyboard.
+	 */
+	protected handleCallbackQuery(query: TelegramBot.CallbackQuery): void {
+		const [action, id] = (query.data ?? "").split(":");
+		if ((action !== "approve" && action !== "deny") || !id || !query.message) return;
+
+		const chatId = this.toChannelId(query.message);
+		this.handler
+			.handleApproval(chatId, id, action === "approve", String(query.from.id), this)
+			.then((status) => this.bot.answerCallbackQuery(query.id, { text: status }))
+			.catch((err) =>
+				log.logWarning("Failed to handle approval tap", err instanceof Error ? err.message : String(err)),
+			);
+	}
+
 	private describeMedia(msg: TelegramBot.Message): string {
 		if (msg.voice) return "[Voice message]";
 		if (msg.audio) return `[Audio: ${msg.audio.title || "audio"}]`;
@@ -141,10 +181,16 @@ When mentioning users, use @username format.`;
 			isBot: false,
 		});
 
+		// Slash commands run right away, even while the agent is busy
+		if (this.handler.isCommand(text)) {
+			this.handler.handleCommand(momEvent, this);
+			return;
+		}
+
 		// Check for stop
 		if (text.toLowerCase().trim() === "stop") {
 			if (this.handler.isRunning(chatId)) {
-				this.handler.handleStop(chatId, this);
+				this.handler.handleStop(chatId, userId, this);
 			} else {
 				this.postMessage(chatId, "_Nothing running_");
 			}
@@ -153,8 +199,16 @@ When mentioning users, use @username format.`;
 
 		// Check if busy
 		if (this.handler.isRunning(chatId)) {
-			this.postMessage(chatId, "_Already working. Say `stop` to cancel._");
+			this.handler
+				.handleBusy(momEvent, this)
+				.then(async (taken) => {
+					if (!taken) await this.postMessage(chatId, "_Already working. Say `stop` to cancel._");
+				})
+				.catch((err) =>
+					log.logWarning("Failed to handle message during run", err instanceof Error ? err.message : String(err)),
+				);
 		} else {
+			this.handler.accept(momEvent, this);
 			this.enqueueWork(chatId, () => this.handler.handleEvent(momEvent, this));
 		}
 	}
@@ -215,14 +269,34 @@ When mentioning users, use @username format.`;
 	// ==========================================================================
 
 	async postMessage(channel: string, text: string): Promise<string> {
-		const result = await this.bot.sendMessage(Number(channel), markdownToTelegramHtml(text), { parse_mode: "HTML" });
+		const result = await this.bot.sendMessage(this.toChatId(channel), markdownToTelegramHtml(text), {
+			parse_mode: "HTML",
+			...this.topicOptions(channel),
+		});
+		return String(result.message_id);
+	}
+
+	async postApprovalRequest(request: ApprovalRequest): Promise<string> {
+		const text = `*Approval needed* — ${request.tool}: ${request.summary}\n_${request.reason}_`;
+		const result = await this.bot.sendMessage(this.toChatId(request.channelId), markdownToTelegramHtml(text), {
+			parse_mode: "HTML",
+			...this.topicOptions(request.channelId),
+			reply_markup: {
+				inline_keyboard: [
+					[
+						{ text: "Approve", callback_data: `approve:${request.id}` },
+						{ text: "Deny", callback_data: `deny:${request.id}` },
+					],
+				],
+			},
+		});
 		return String(result.message_id);
 	}
 
 	async updateMessage(channel: string, ts: string, text: string): Promise<void> {
 		try {
 			await this.bot.editMessageText(markdownToTelegramHtml(text), {
-				chat_id: Number(channel),
+				chat_id: this.toChatId(channel),
 				message_id: Number(ts),
 				parse_mode: "HTML",
 			});
@@ -237,7 +311,7 @@ When mentioning users, use @username format.`;
 
 	async deleteMessage(channel: string, ts: string): Promise<void> {
 		try {
-			await this.bot.deleteMessage(Number(channel), Number(ts));
+			await this.bot.deleteMessage(this.toChatId(channel), Number(ts));
 		} catch {
 			// Ignore errors (message may be too old to delete)
 		}
@@ -245,9 +319,10 @@ When mentioning users, use @username format.`;
 
 	async postInThread(channel: string, _threadTs: string, text: string): Promise<string> {
 		// Telegram doesn't have threads in the same way — just post as reply
-		const result = await this.bot.sendMessage(Number(channel), markdownToTelegramHtml(text), {
+		const result = await this.bot.sendMessage(this.toChatId(channel), markdownToTelegramHtml(text), {
 			reply_to_message_id: Number(_threadTs),
 			parse_mode: "HTML",
+			...this.topicOptions(channel),
 		});
 		return String(result.message_id);
 	}
@@ -255,7 +330,7 @@ When mentioning users, use @username format.`;
 	async uploadFile(channel: string, filePath: string, title?: string): Promise<void> {
 		const fileName = title || basename(filePath);
 		const fileContent = readFileSync(filePath);
-		await this.bot.sendDocument(Number(channel), fileContent, {}, { filename: fileName });
+		await this.bot.sendDocument(this.toChatId(channel), fileContent, this.topicOptions(channel), { filename: fileName });
 	}
 
 	logToFile(channel: string, entry: object): void {
@@ -280,7 +355,13 @@ When mentioning users, use @username format.`;
 	}
 
 	getChannel(channelId: string): ChannelInfo | undefined {
-		return this.channels.get(channelId);
+		const known = this.channels.get(channelId);
+		if (known) return known;
+
+		// A topic nobody has written in since startup, in a group we know — events and send_message can still reach it
+		const topic = TOPIC_CHANNEL.exec(platformChannelId(channelId, this.instance));
+		const group = topic ? this.channels.get(qualifyChannelId(topic[1], this.instance)) : undefined;
+		return group && topic ? { id: channelId, name: `${group.name} / topic ${topic[2]}` } : undefined;
 	}
 
 	getAllUsers(): UserInfo[] {
@@ -291,20 +372,20 @@ When mentioning users, use @username format.`;
 		return Array.from(this.channels.values());
 	}
 
-	enqueueEvent(event: MomEvent): boolean {
-		// Telegram chat IDs are numeric (positive for users, negative for groups)
-		if (!/^-?\d+$/.test(event.channel)) return false;
-
-		const queue = this.queues.get(event.channel) || [];
-		if (queue.length >= 5) {
+	enqueueEvent(event: MomEvent, isEvent = true): boolean {
+		if (!this.handler.accept(event, this, isEvent)) {
 			log.logWarning(`Event queue full for ${event.channel}, discarding: ${event.text.substring(0, 50)}`);
 			return false;
 		}
 		log.logInfo(`Enqueueing event for ${event.channel}: ${event.text.substring(0, 50)}`);
-		this.enqueueWork(event.channel, () => this.handler.handleEvent(event, this, true));
+		this.enqueueWork(event.channel, () => this.handler.handleEvent(event, this, isEvent));
 		return true;
 	}
 
+	queueSize(channel: string): number {
+		return this.queues.get(channel)?.length ?? 0;
+	}
+
 	// ==========================================================================
 	// Context creation
 	// ==========================================================================
@@ -467,12 +548,23 @@ When mentioning users, use @username format.`;
 				// No-op — tool details logged to log.jsonl, not posted to chat
 			},
 
+			// Reasoning joins the working message as a collapsed (expandable) quote
+			respondThinking: async (thinking: string) => {
+				if (!thinking.trim()) return;
+				updatePromise = updatePromise.then(async () => {
+					await flushPendingText();
+					workingEntries.push(`<blockquote expandable>${escapeHtml(thinking.trim().substring(0, 1000))}</blockquote>`);
+					await scheduleWorkingUpdate();
+				});
+				await updatePromise;
+			},
+
 			setTyping: async (isTyping: boolean) => {
 				if (isTyping && !workingMessageId) {
 					updatePromise = updatePromise.then(async () => {
 						if (!workingMessageId) {
 							try {
-								await this.bot.sendChatAction(Number(event.channel), "typing");
+								await this.bot.sendChatAction(this.toChatId(event.channel), "typing", this.topicOptions(event.channel));
 							} catch {
 								// Ignore typing errors
 							}
@@ -534,6 +626,32 @@ When mentioning users, use @username format.`;
 		};
 	}
 
+	// ==========================================================================
+	// Private - Channel IDs
+	// ==========================================================================
+
+	/**
+	 * Mom channel ID of the chat a message is in. Each forum topic is a channel
+	 * of its own, "<chat_id>_<message_thread_id>" — with its own directory and
+	 * session. The General topic stays the chat itself.
+	 */
+	protected toChannelId(msg: TelegramBot.Message): string {
+		const topic = msg.is_topic_message ? msg.message_thread_id : undefined;
+		return qualifyChannelId(topic ? `${msg.chat.id}_${topic}` : String(msg.chat.id), this.instance);
+	}
+
+	/** Mom channel ID ("-100123", "-100123_42" or "-100123@acme") → numeric Telegram chat ID */
+	private toChatId(channel: string): number {
+		const id = platformChannelId(channel, this.instance);
+		return Number(TOPIC_CHANNEL.exec(id)?.[1] ?? id);
+	}
+
+	/** Send options that put a message into the channel's forum topic, if it is one */
+	private topicOptions(channel: string): { message_thread_id?: number } {
+		const topic = TOPIC_CHANNEL.exec(platformChannelId(channel, this.instance));
+		return topic ? { message_thread_id: Number(topic[2]) } : {};
+	}
+
 	// ==========================================================================
 	// Private - Queue
 	// ==========================================================================
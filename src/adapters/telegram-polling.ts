@@ -21,6 +21,7 @@ export class TelegramPollingAdapter extends TelegramBase {
 
 		// Wire up message handler
 		this.bot.on("message", (msg) => this.handleIncomingMessage(msg));
+		this.bot.on("callback_query", (query) => this.handleCallbackQuery(query));
 
 		log.logConnected();
 	}
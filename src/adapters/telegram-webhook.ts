@@ -33,6 +33,7 @@ export class TelegramWebhookAdapter extends TelegramBase {
 
 		// Wire up message handler — processUpdate() fires bot.on("message") events
 		this.bot.on("message", (msg) => this.handleIncomingMessage(msg));
+		this.bot.on("callback_query", (query) => this.handleCallbackQuery(query));
 
 		// Register webhook with Telegram API (unless managed externally)
 		if (!this.skipRegistration) {
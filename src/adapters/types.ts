@@ -18,6 +18,14 @@ export interface MomEvent {
 	files?: Array<{ name?: string; url_private_download?: string; url_private?: string }>;
 	/** Processed attachments with local paths (populated after logging) */
 	attachments?: Attachment[];
+	/** Queue journal entry, stamped by MomHandler.accept() */
+	journalId?: string;
+	/** W3C traceparent of the request that delivered it, stamped by MomHandler.accept() */
+	traceParent?: string;
+	/** Model for this run, from the scheduled event's `model` field */
+	model?: string;
+	/** Root timestamp of the thread the message was posted in (Slack) — runs in a session of their own */
+	thread?: string;
 }
 
 export interface ChannelInfo {
@@ -31,6 +39,23 @@ export interface UserInfo {
 	displayName: string;
 }
 
+/**
+ * A tool call waiting for a human to approve or deny it (see approval.ts).
+ */
+export interface ApprovalRequest {
+	/** Short ID, used in button payloads and /approve <id> */
+	id: string;
+	channelId: string;
+	/** Thread the run is answering in, so the prompt is posted there */
+	thread?: string;
+	tool: string;
+	/** What the call would do, e.g. the bash command */
+	summary: string;
+	/** Which rule matched */
+	reason: string;
+	timeoutMs: number;
+}
+
 /**
  * The context object passed to the agent for each run.
  * Platform-agnostic — adapters create this from their platform primitives.
@@ -51,6 +76,8 @@ export interface MomContext {
 	respond: (text: string, shouldLog?: boolean) => Promise<void>;
 	replaceMessage: (text: string) => Promise<void>;
 	respondInThread: (text: string) => Promise<void>;
+	/** Model reasoning for the current step — the adapter decides how (or whether) to show it */
+	respondThinking: (thinking: string) => Promise<void>;
 	setTyping: (isTyping: boolean) => Promise<void>;
 	uploadFile: (filePath: string, title?: string) => Promise<void>;
 	setWorking: (working: boolean) => Promise<void>;
@@ -63,8 +90,16 @@ export interface MomContext {
 export interface MomHandler {
 	/**
 	 * Check if channel is currently running (SYNC)
+	 * With `thread`, checks that thread's session instead.
+	 */
+	isRunning(channelId: string, thread?: string): boolean;
+
+	/**
+	 * Record work the adapter is about to queue in the durable journal (SYNC)
+	 * Returns false when a scheduled event would overflow the channel's queue
+	 * depth — the adapter discards it. User messages are always accepted.
 	 */
-	isRunning(channelId: string): boolean;
+	accept(event: MomEvent, adapter: PlatformAdapter, isEvent?: boolean): boolean;
 
 	/**
 	 * Handle an event that triggers mom (ASYNC)
@@ -73,11 +108,39 @@ export interface MomHandler {
 	 */
 	handleEvent(event: MomEvent, adapter: PlatformAdapter, isEvent?: boolean): Promise<void>;
 
+	/**
+	 * Handle a user message that arrived while the channel is running (ASYNC)
+	 * Steers the run or queues a follow-up, per the channel's busyMode setting.
+	 * Resolves false when the message was not taken — the adapter then says
+	 * it is already working, as before.
+	 */
+	handleBusy(event: MomEvent, adapter: PlatformAdapter): Promise<boolean>;
+
 	/**
 	 * Handle stop command (ASYNC)
-	 * Called when user says "stop" while mom is running
+	 * Called when user says "stop" while mom is running; `thread` stops a thread session.
+	 * `userId` is checked against the access policy like any other request.
+	 */
+	handleStop(channelId: string, userId: string, adapter: PlatformAdapter, thread?: string): Promise<void>;
+
+	/**
+	 * Check if text is a registered slash command (SYNC)
 	 */
-	handleStop(channelId: string, adapter: PlatformAdapter): Promise<void>;
+	isCommand(text: string): boolean;
+
+	/**
+	 * Run a slash command (ASYNC)
+	 * Called instead of handleEvent() when isCommand() returned true — commands
+	 * bypass the channel queue and run even while the agent is busy.
+	 */
+	handleCommand(event: MomEvent, adapter: PlatformAdapter): Promise<void>;
+
+	/**
+	 * Answer a pending approval request (ASYNC)
+	 * Called from button clicks (Slack block actions, Telegram callback queries,
+	 * web approval posts). Returns a short status to show the clicker.
+	 */
+	handleApproval(channelId: string, requestId: string, approved: boolean, userId: string, adapter: PlatformAdapter): Promise<string>;
 }
 
 /**
@@ -88,6 +151,9 @@ export interface PlatformAdapter {
 	/** Adapter name (e.g., "slack", "telegram") */
 	readonly name: string;
 
+	/** Instance name when several adapters of one type run side by side (e.g., "acme") */
+	readonly instance?: string;
+
 	/** Maximum message length for this platform */
 	readonly maxMessageLength: number;
 
@@ -129,5 +195,23 @@ export interface PlatformAdapter {
 
 	// -- Event queue --
 
-	enqueueEvent(event: MomEvent): boolean;
+	/**
+	 * Queue work for a channel. `isEvent` defaults to true (scheduled events);
+	 * boot replay passes false to re-run an interrupted user message.
+	 */
+	enqueueEvent(event: MomEvent, isEvent?: boolean): boolean;
+
+	/** Events waiting behind the current run (for /status) */
+	queueSize?(channel: string, thread?: string): number;
+
+	// -- Approvals --
+
+	/** Post an approve/deny prompt with native buttons. Returns the prompt's message ID. Without it, a text prompt is posted. */
+	postApprovalRequest?(request: ApprovalRequest): Promise<string>;
+
+	/** Replace the prompt (and its buttons) with the outcome. Without it, updateMessage() is used. */
+	resolveApprovalRequest?(request: ApprovalRequest, messageId: string, text: string): Promise<void>;
+
+	/** Handle an inbound button click (interaction-based adapters only — called by Gateway) */
+	dispatchInteraction?(req: IncomingMessage, res: ServerResponse): void;
 }
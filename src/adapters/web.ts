@@ -3,7 +3,15 @@ import type { IncomingMessage, ServerResponse } from "http";
 import { join } from "path";
 import * as log from "../log.js";
 import type { ChannelStore } from "../store.js";
-import type { ChannelInfo, MomContext, MomEvent, MomHandler, PlatformAdapter, UserInfo } from "./types.js";
+import type {
+	ApprovalRequest,
+	ChannelInfo,
+	MomContext,
+	MomEvent,
+	MomHandler,
+	PlatformAdapter,
+	UserInfo,
+} from "./types.js";
 
 // ============================================================================
 // WebAdapter — HTTP POST with SSE response (for web chat)
@@ -18,6 +26,13 @@ interface WebChatPayload {
 	channelId?: string;
 }
 
+/** Answer to an approval_request event, POSTed to /web/approval */
+interface WebApprovalPayload {
+	id: string;
+	approved: boolean;
+	channelId?: string;
+}
+
 export interface WebAdapterConfig {
 	workingDir: string;
 }
@@ -66,6 +81,8 @@ Keep responses concise and helpful.`;
 	private handler!: MomHandler;
 	/** Per-channel SSE writer — set in dispatch, read in createContext */
 	private pendingWriters = new Map<string, SSEWriter>();
+	/** SSE writer for a slash command or mid-run message in flight — postMessage replies go here */
+	private commandWriters = new Map<string, SSEWriter>();
 
 	constructor(config: WebAdapterConfig) {
 		this.workingDir = config.workingDir;
@@ -127,6 +144,41 @@ Keep responses concise and helpful.`;
 		});
 	}
 
+	dispatchInteraction(req: IncomingMessage, res: ServerResponse): void {
+		const chunks: Buffer[] = [];
+		req.on("data", (chunk: Buffer) => chunks.push(chunk));
+		req.on("end", () => {
+			const body = Buffer.concat(chunks).toString("utf-8");
+
+			let payload: WebApprovalPayload;
+			try {
+				payload = JSON.parse(body);
+			} catch {
+				res.writeHead(400);
+				res.end("Invalid JSON");
+				return;
+			}
+
+			if (typeof payload.id !== "string" || typeof payload.approved !== "boolean") {
+				res.writeHead(400);
+				res.end("Missing required fields: id, approved");
+				return;
+			}
+
+			this.handler
+				.handleApproval(payload.channelId || "web", payload.id, payload.approved, "web-user", this)
+				.then((status) => {
+					res.writeHead(200, { "Content-Type": "application/json" });
+					res.end(JSON.stringify({ status }));
+				})
+				.catch((err) => {
+					log.logWarning("Web approval error", err instanceof Error ? err.message : String(err));
+					res.writeHead(500);
+					res.end("Approval failed");
+				});
+		});
+	}
+
 	// ==========================================================================
 	// Message processing
 	// ==========================================================================
@@ -155,10 +207,30 @@ Keep responses concise and helpful.`;
 			isBot: false,
 		});
 
+		// Slash commands answer on this request's stream, even while a run is active
+		if (this.handler.isCommand(event.text)) {
+			this.commandWriters.set(channelId, writer);
+			try {
+				await this.handler.handleCommand(event, this);
+			} finally {
+				this.commandWriters.delete(channelId);
+				writer.done();
+			}
+			return;
+		}
+
 		if (this.handler.isRunning(channelId)) {
-			log.logInfo(`[web] Already running for ${channelId}`);
-			writer.send({ type: "error", message: "Already processing a message, say stop to cancel" });
-			writer.done();
+			// Steered into the live run (its answer arrives on the first stream); the ack comes back here
+			this.commandWriters.set(channelId, writer);
+			try {
+				if (!(await this.handler.handleBusy(event, this))) {
+					log.logInfo(`[web] Already running for ${channelId}`);
+					writer.send({ type: "error", message: "Already processing a message, say stop to cancel" });
+				}
+			} finally {
+				this.commandWriters.delete(channelId);
+				writer.done();
+			}
 			return;
 		}
 
@@ -183,12 +255,31 @@ Keep responses concise and helpful.`;
 	// PlatformAdapter — message operations (mostly no-ops for web)
 	// ==========================================================================
 
-	async postMessage(_channel: string, _text: string): Promise<string> {
+	async postMessage(channel: string, text: string): Promise<string> {
+		// Only slash command replies have somewhere to go
+		this.commandWriters.get(channel)?.send({ type: "message", text });
 		return String(Date.now());
 	}
 
 	async updateMessage(_channel: string, _ts: string, _text: string): Promise<void> {}
 
+	async postApprovalRequest(request: ApprovalRequest): Promise<string> {
+		// The prompt rides on the run's own stream; the page answers via POST /web/approval
+		this.pendingWriters.get(request.channelId)?.send({
+			type: "approval_request",
+			id: request.id,
+			tool: request.tool,
+			summary: request.summary,
+			reason: request.reason,
+			timeoutMs: request.timeoutMs,
+		});
+		return request.id;
+	}
+
+	async resolveApprovalRequest(request: ApprovalRequest, _messageId: string, text: string): Promise<void> {
+		this.pendingWriters.get(request.channelId)?.send({ type: "approval_resolved", id: request.id, text });
+	}
+
 	async deleteMessage(_channel: string, _ts: string): Promise<void> {}
 
 	async postInThread(_channel: string, _threadTs: string, _text: string): Promise<string> {
@@ -251,6 +342,7 @@ Keep responses concise and helpful.`;
 	// - respond("_Error: ..._", false) → tool error
 	// - respond(text, true) → token SSE event (response text)
 	// - respondInThread(*✓ toolName*...) → tool_end SSE event
+	// - respondThinking(text) → thinking SSE event
 	// - setWorking(false) → run_complete SSE event
 	// ==========================================================================
 
@@ -335,7 +427,13 @@ Keep responses concise and helpful.`;
 					});
 					lastToolId = undefined;
 				}
-				// Other thread messages (thinking, usage summary) — skip
+				// Other thread messages (usage summary) — skip
+			},
+
+			// Reasoning gets its own SSE event so the client can render it separately
+			respondThinking: async (thinking: string) => {
+				if (!writer || !thinking.trim()) return;
+				writer.send({ type: "thinking", text: thinking });
 			},
 
 			setTyping: async () => {},
@@ -1,8 +1,9 @@
-import { Agent, type AgentEvent, type AgentTool } from "@mariozechner/pi-agent-core";
+import { Agent, type AgentEvent, type AgentTool, type ThinkingLevel } from "@mariozechner/pi-agent-core";
 import { type ImageContent } from "@mariozechner/pi-ai";
 import {
 	AgentSession,
 	AuthStorage,
+	CURRENT_SESSION_VERSION,
 	convertToLlm,
 	createExtensionRuntime,
 	formatSkillsForPrompt,
@@ -12,17 +13,24 @@ import {
 	SessionManager,
 	type Skill,
 } from "@mariozechner/pi-coding-agent";
+import { randomUUID } from "crypto";
 import { existsSync, readFileSync } from "fs";
-import { mkdir, writeFile } from "fs/promises";
-import { join } from "path";
+import { mkdir, rename, writeFile } from "fs/promises";
+import { dirname, join } from "path";
 import type { ChannelInfo, MomContext, UserInfo } from "./adapters/types.js";
-import { MomSettingsManager, syncLogToSessionManager } from "./context.js";
+import { MomSettingsManager, sessionFilePath, sessionKey, syncLogToSessionManager } from "./context.js";
 import * as log from "./log.js";
-import { resolveModel, resolveApiKey } from "./model-config.js";
+import { formatMemoryEntry, getMemoryStore } from "./memory.js";
+import * as metrics from "./metrics.js";
+import { isFallbackError, resolveFallbackModels, resolveModel, resolveApiKey } from "./model-config.js";
+import { routeModel, type RunTrigger } from "./routing.js";
 import { createExecutor, type SandboxConfig } from "./sandbox.js";
 import type { ChannelStore } from "./store.js";
-import { sanitizeMessages } from "./sanitize.js";
-import { createMomTools, setUploadFunction } from "./tools/index.js";
+import { danglingToolCalls, interruptedResult, sanitizeMessages } from "./sanitize.js";
+import { createMemoryTools, createMomTools, createSearchHistoryTool, setUploadFunction } from "./tools/index.js";
+import * as tracing from "./tracing.js";
+import type { Spend } from "./usage.js";
+import { showsWorkspaceMemory, visibilityOf } from "./visibility.js";
 
 export interface PendingMessage {
 	userName: string;
@@ -31,13 +39,82 @@ export interface PendingMessage {
 	timestamp: number;
 }
 
+export interface RunOptions {
+	/** Tool names to leave out of this run (access policy for the sender's role) */
+	withheldTools?: string[];
+	/** Run ID from runs.jsonl, tagged onto this run's log records */
+	runId?: string;
+	/** Adapter instance the run is for, tagged onto this run's log records */
+	adapter?: string;
+	/**
+	 * Called after each LLM turn that calls tools, with what the run has spent
+	 * so far. Returning a reason stops the run before its next turn.
+	 */
+	budgetCheck?: (spent: Spend) => string | undefined;
+	/** What started the run, for model routing (default "message") */
+	trigger?: RunTrigger;
+	/** `model` from the event JSON, if the run is a scheduled event */
+	eventModel?: string;
+}
+
+export interface RunUsage {
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	cost: { input: number; output: number; cacheRead: number; cacheWrite: number; total: number };
+}
+
+export interface RunResult {
+	stopReason: string;
+	errorMessage?: string;
+	/** Every LLM call in the run, summed */
+	usage: RunUsage;
+	model?: string;
+	provider?: string;
+	toolCalls: number;
+}
+
 export interface AgentRunner {
 	run(
 		ctx: MomContext,
 		store: ChannelStore,
 		pendingMessages?: PendingMessage[],
-	): Promise<{ stopReason: string; errorMessage?: string }>;
+		options?: RunOptions,
+	): Promise<RunResult>;
 	abort(): void;
+	/** Force compaction of context.jsonl. Throws while a run is active. */
+	compact(): Promise<{ tokensBefore: number }>;
+	/** Archive context.jsonl and start a fresh session. Returns the archive path. */
+	reset(): Promise<string>;
+	/**
+	 * Close out tool calls a crash left without results by appending
+	 * "interrupted" results to context.jsonl. Returns how many were added.
+	 */
+	repair(): number;
+	/** Snapshot of the channel's session for /status and /cost */
+	getStats(): RunnerStats;
+	/**
+	 * Hand a message to the run in progress: "steer" delivers it after the
+	 * current tool call, "followUp" once the agent would otherwise stop.
+	 * Returns false when no run is taking messages (none active, or it is
+	 * already wrapping up).
+	 */
+	inject(message: Pick<MomContext["message"], "text" | "userName" | "attachments">, mode: "steer" | "followUp"): Promise<boolean>;
+}
+
+/** Called before every tool call; throws to fail the call (approval gate) */
+export type ToolGate = (toolName: string, args: Record<string, unknown>, signal?: AbortSignal) => Promise<void>;
+
+export interface RunnerStats {
+	model: string;
+	thinkingLevel: string;
+	messages: number;
+	/** Estimated context tokens, null right after compaction */
+	contextTokens: number | null;
+	contextWindow: number;
+	tokens: { input: number; output: number; cacheRead: number; cacheWrite: number; total: number };
+	cost: number;
 }
 
 
@@ -53,12 +130,12 @@ function getImageMimeType(filename: string): string | undefined {
 	return IMAGE_MIME_TYPES[filename.toLowerCase().split(".").pop() || ""];
 }
 
-function getMemory(channelDir: string): string {
+function getMemory(channelDir: string, channelId: string): string {
 	const parts: string[] = [];
 
-	// Read workspace-level memory (shared across all channels)
+	// Read workspace-level memory (shared across channels its visibility reaches)
 	const workspaceMemoryPath = join(channelDir, "..", "MEMORY.md");
-	if (existsSync(workspaceMemoryPath)) {
+	if (showsWorkspaceMemory(channelId) && existsSync(workspaceMemoryPath)) {
 		try {
 			const content = readFileSync(workspaceMemoryPath, "utf-8").trim();
 			if (content) {
@@ -137,6 +214,7 @@ function buildSystemPrompt(
 	workspacePath: string,
 	channelId: string,
 	memory: string,
+	recalled: string,
 	sandboxConfig: SandboxConfig,
 	channels: ChannelInfo[],
 	users: UserInfo[],
@@ -145,6 +223,11 @@ function buildSystemPrompt(
 ): string {
 	const channelPath = `${workspacePath}/${channelId}`;
 	const isDocker = sandboxConfig.type === "docker";
+	const visibility = visibilityOf(channelId);
+	const visibilityNote =
+		visibility === "public"
+			? ""
+			: `\n\nThis channel is ${visibility}: ${visibility === "private" ? "keep what is said here out of the global MEMORY.md and global entries — other channels won't see them anyway" : "don't copy what is said here into public channels"}.`;
 
 	// Format channel mappings
 	const channelMappings =
@@ -168,7 +251,7 @@ function buildSystemPrompt(
 ## Context
 - For current date/time, use: date
 - You have access to previous conversation context including tool results from prior turns.
-- For older history beyond your context, search log.jsonl (contains user messages and your final responses, but not tool results).
+- For older history beyond your context, use search_history (user messages and your final responses, not tool results).
 
 ${formatInstructions}
 
@@ -184,25 +267,27 @@ ${envDescription}
 ## Workspace Layout
 ${workspacePath}/
 ├── MEMORY.md                    # Global memory (all channels)
+├── memory.jsonl                 # Memory entries (use remember/recall/forget, don't edit)
 ├── settings.json                # Model & preferences (see below)
 ├── skills/                      # Global CLI tools you create
 └── ${channelId}/                # This channel
     ├── MEMORY.md                # Channel-specific memory
+    ├── settings.json            # Channel overrides of workspace settings (optional)
     ├── log.jsonl                # Message history (no tool results)
     ├── attachments/             # User-shared files
     ├── scratch/                 # Your working directory
     └── skills/                  # Channel-specific tools
 
 ## Model Selection
-You can switch which AI model you use. To change, write to \`${workspacePath}/settings.json\`:
+You can switch which AI model you use. \`${channelPath}/settings.json\` applies to this channel only and overrides \`${workspacePath}/settings.json\` (the default for all channels):
 \`\`\`bash
-cat ${workspacePath}/settings.json  # see current
-# To switch model:
-cat > ${workspacePath}/settings.json << 'SETTINGS'
+cat ${channelPath}/settings.json  # see current override
+# To switch model for this channel:
+cat > ${channelPath}/settings.json << 'SETTINGS'
 {"defaultProvider":"anthropic","defaultModel":"claude-sonnet-4-6"}
 SETTINGS
 \`\`\`
-The change takes effect on the next message. Users can also type \`/model <name>\` directly.
+The change takes effect on the next message. Users can also type \`/model <name>\` (this channel) or \`/model --global <name>\` (all channels).
 
 ## Platform APIs
 If \`FAT_TOOLS_TOKEN\` is set, you have access to platform APIs for secrets persistence, contacts/whitelist management, and more. Check your loaded skills for platform-specific API documentation.
@@ -251,6 +336,8 @@ You can schedule events that wake you up at specific times or when external thin
 {"type": "periodic", "channelId": "${channelId}", "text": "Check inbox and summarize", "schedule": "0 9 * * 1-5", "timezone": "${Intl.DateTimeFormat().resolvedOptions().timeZone}"}
 \`\`\`
 
+Add \`"model": "deepseek"\` (anything /model accepts) to run a routine event on a cheaper model.
+
 ### Cron Format
 \`minute hour day-of-month month day-of-week\`
 - \`0 9 * * *\` = daily at 9:00
@@ -289,17 +376,23 @@ For periodic events where there's nothing to report, respond with just \`[SILENT
 When writing programs that create immediate events (email watchers, webhook handlers, etc.), always debounce. If 50 emails arrive in a minute, don't create 50 immediate events. Instead collect events over a window and create ONE immediate event summarizing what happened, or just signal "new activity, check inbox" rather than per-item events. Or simpler: use a periodic event to check for new items every N minutes instead of immediate events.
 
 ### Limits
-Maximum 5 events can be queued. Don't create excessive immediate or periodic events.
+Only a few events can wait per channel (5 by default); extras are dropped. Don't create excessive immediate or periodic events.
 
 ## Memory
-Write to MEMORY.md files to persist context across conversations.
+Two kinds of memory persist across conversations.
+
+**Memory entries** — use \`remember\` when you learn something worth keeping or are asked to remember something: one self-contained fact, preference or decision per entry, with tags. Entries belong to this channel unless you make them global. Only the entries most relevant to the current message are shown below; use \`recall\` to search for others, and \`forget\` to delete wrong or outdated ones.
+
+**Pinned memory** — MEMORY.md files, always shown in full. People edit these too. Keep them short: standing instructions and key facts only.
 - Global (${workspacePath}/MEMORY.md): skills, preferences, project info
-- Channel (${channelPath}/MEMORY.md): channel-specific decisions, ongoing work
-Update when you learn something important or when asked to remember something.
+- Channel (${channelPath}/MEMORY.md): channel-specific decisions, ongoing work${visibilityNote}
 
-### Current Memory
+### Pinned Memory
 ${memory}
 
+### Relevant Memory Entries
+${recalled}
+
 ## System Configuration Log
 Maintain ${workspacePath}/SYSTEM.md to log all environment modifications:
 - Installed packages (apk add, npm install, pip install)
@@ -309,21 +402,13 @@ Maintain ${workspacePath}/SYSTEM.md to log all environment modifications:
 
 Update this file whenever you modify the environment. On fresh container, read it first to restore your setup.
 
-## Log Queries (for older history)
-Format: \`{"date":"...","ts":"...","user":"...","userName":"...","text":"...","isBot":false}\`
-The log contains user messages and your final responses (not tool calls/results).
-${isDocker ? "Install jq: apk add jq" : ""}
-
-\`\`\`bash
-# Recent messages
-tail -30 log.jsonl | jq -c '{date: .date[0:19], user: (.userName // .user), text}'
-
-# Search for specific topic
-grep -i "topic" log.jsonl | jq -c '{date: .date[0:19], user: (.userName // .user), text}'
-
-# Messages from specific user
-grep '"userName":"mario"' log.jsonl | tail -20 | jq -c '{date: .date[0:19], text}'
-\`\`\`
+## History Search (for older history)
+\`search_history\` ranks messages from log.jsonl by relevance and returns dated snippets. Combine any of:
+- \`query\`: words to look for (leave out to get the newest messages matching the other filters)
+- \`user\`: user ID, handle or display name; "bot" for your own replies
+- \`from\` / \`to\`: inclusive dates like 2026-01 or 2026-01-05
+- \`allChannels\`: search every channel instead of this one
+Raw lines are \`{"date":"...","ts":"...","user":"...","userName":"...","text":"...","isBot":false}\` in ${channelPath}/log.jsonl if you need them.
 
 ## Tools
 - bash: Run shell commands (primary tool). Install packages as needed.
@@ -332,6 +417,8 @@ grep '"userName":"mario"' log.jsonl | tail -20 | jq -c '{date: .date[0:19], text
 - edit: Surgical file edits
 - attach: Share files in chat
 - send_message: Send a message to a different channel (cross-channel messaging)
+- remember / recall / forget: Memory entries (see Memory)
+- search_history: Search older messages (see History Search)
 
 Each tool requires a "label" parameter (shown to user).
 
@@ -342,8 +429,10 @@ You can send messages to OTHER channels using the \`send_message\` tool. This le
 - Reach out to people on whatever channel they prefer
 
 The \`channel\` parameter determines where the message goes:
-- **Telegram**: Use numeric chat IDs (e.g., \`-1001234567890\` for groups, \`123456789\` for DMs)
+- **Telegram**: Use numeric chat IDs (e.g., \`-1001234567890\` for groups, \`123456789\` for DMs), and \`<chat>_<topic>\` for a forum topic (e.g., \`-1001234567890_42\`)
 - **Slack**: Use channel IDs starting with C, D, or G (e.g., \`C09V58YMJGP\`)
+- **Discord**: Use \`discord-{id}\` format (e.g., \`discord-1234567890123456789\`)
+- **Matrix**: Use \`matrix-{room}\` IDs from the Channels section (e.g., \`matrix-abcDEF_example.org\`)
 - **Email**: Use \`email-{address}\` format (e.g., \`email-someone@example.com\`)
 
 Look at the Channels section above for available channel IDs. Your normal text responses go to the current channel — use \`send_message\` only when you need to reach a *different* channel.
@@ -410,12 +499,13 @@ function formatToolArgs(_toolName: string, args: Record<string, unknown>): strin
 	return lines.join("\n");
 }
 
-// Cache runners per channel
+// Cache runners per session (channel, or thread within one)
 const channelRunners = new Map<string, AgentRunner>();
 
 /**
  * Get or create an AgentRunner for a channel.
  * Runners are cached - one per channel, persistent across messages.
+ * A thread gets a runner of its own, over its own session file.
  */
 export function getOrCreateRunner(
 	sandboxConfig: SandboxConfig,
@@ -424,12 +514,15 @@ export function getOrCreateRunner(
 	formatInstructions: string,
 	extraSkillsDirs: string[] = [],
 	extraTools: AgentTool<any>[] = [],
+	gate?: ToolGate,
+	thread?: string,
 ): AgentRunner {
-	const existing = channelRunners.get(channelId);
+	const key = sessionKey(channelId, thread);
+	const existing = channelRunners.get(key);
 	if (existing) return existing;
 
-	const runner = createRunner(sandboxConfig, channelId, channelDir, formatInstructions, extraSkillsDirs, extraTools);
-	channelRunners.set(channelId, runner);
+	const runner = createRunner(sandboxConfig, channelId, channelDir, formatInstructions, extraSkillsDirs, extraTools, gate, thread);
+	channelRunners.set(key, runner);
 	return runner;
 }
 
@@ -444,22 +537,35 @@ function createRunner(
 	formatInstructions: string,
 	extraSkillsDirs: string[] = [],
 	extraTools: AgentTool<any>[] = [],
+	gate?: ToolGate,
+	thread?: string,
 ): AgentRunner {
 	const t0 = performance.now();
 	const executor = createExecutor(sandboxConfig);
 	const workspacePath = executor.getWorkspacePath(channelDir.replace(`/${channelId}`, ""));
 
-	// Create tools (core + any extras like heartbeat's send_message)
-	const tools = [...createMomTools(executor), ...extraTools];
+	// Create tools (core + any extras like heartbeat's send_message), behind the approval gate if any.
+	// Tool spans nest under the LLM turn that called them.
+	const workspaceDir = join(channelDir, "..");
+	const memoryStore = getMemoryStore(workspaceDir);
+	const tools = [
+		...createMomTools(executor),
+		...createMemoryTools(memoryStore, channelId),
+		createSearchHistoryTool(workspaceDir, channelId),
+		...extraTools,
+	].map((tool) =>
+		traceTool(gate ? gateTool(tool, gate) : tool, () => runState.turnSpan),
+	);
 
 	// Minimal system prompt for agent creation — will be replaced with full prompt in run()
 	const systemPrompt = "Initializing...";
 
 	// Create session manager and settings manager
-	// Use a fixed context.jsonl file per channel (not timestamped like coding-agent)
-	const contextFile = join(channelDir, "context.jsonl");
-	const workspaceDir = join(channelDir, "..");
-	const settingsManager = new MomSettingsManager(workspaceDir);
+	// Use a fixed context.jsonl file per channel (not timestamped like coding-agent),
+	// or threads/<thread_ts>.jsonl for a thread session
+	const contextFile = sessionFilePath(channelDir, thread);
+	// Channel settings.json overrides the workspace one (compaction, retry, thinking level)
+	const settingsManager = new MomSettingsManager(workspaceDir, channelDir);
 
 	// Create AuthStorage and ModelRegistry
 	// Important: point ModelRegistry at workspace models.json (/data/models.json)
@@ -467,15 +573,15 @@ function createRunner(
 	const authStorage = new AuthStorage();
 	const modelRegistry = new ModelRegistry(authStorage, join(workspaceDir, "models.json"));
 
-	// Resolve model: env vars > settings.json > defaults
-	const model = resolveModel(workspaceDir, modelRegistry);
+	// Resolve model: env vars > config channel override > settings.json > config default > built-in
+	const model = resolveModel(workspaceDir, modelRegistry, channelId);
 
 	// Create agent — getApiKey is provider-generic (resolves via AuthStorage for any provider)
 	const agent = new Agent({
 		initialState: {
 			systemPrompt,
 			model,
-			thinkingLevel: "off",
+			thinkingLevel: settingsManager.getDefaultThinkingLevel() as ThinkingLevel,
 			tools,
 		},
 		convertToLlm,
@@ -489,13 +595,13 @@ function createRunner(
 	const getSessionManager = () => {
 		if (!sessionManager) {
 			const t = performance.now();
-			sessionManager = SessionManager.open(contextFile, channelDir);
-			log.logInfo(`[perf] SessionManager.open: ${(performance.now() - t).toFixed(0)}ms`);
+			sessionManager = SessionManager.open(contextFile, dirname(contextFile));
+			log.logDebug(`[perf] SessionManager.open: ${(performance.now() - t).toFixed(0)}ms`);
 		}
 		return sessionManager;
 	};
 
-	log.logInfo(`[perf] createRunner (no R2 reads): ${(performance.now() - t0).toFixed(0)}ms`);
+	log.logDebug(`[perf] createRunner (no R2 reads): ${(performance.now() - t0).toFixed(0)}ms`);
 
 	const resourceLoader: ResourceLoader = {
 		getExtensions: () => ({ extensions: [], errors: [], runtime: createExtensionRuntime() }),
@@ -534,12 +640,15 @@ function createRunner(
 	// Mutable per-run state - event handler references this
 	const runState = {
 		ctx: null as MomContext | null,
-		logCtx: null as { channelId: string; userName?: string; channelName?: string } | null,
+		logCtx: null as log.LogContext | null,
+		/** Span of the LLM turn in progress; tool calls nest under it */
+		turnSpan: null as tracing.Span | null,
 		queue: null as {
 			enqueue(fn: () => Promise<void>, errorContext: string): void;
 			enqueueMessage(text: string, target: "main" | "thread", errorContext: string, doLog?: boolean): void;
 		} | null,
 		pendingTools: new Map<string, { toolName: string; args: unknown; startTime: number }>(),
+		toolCalls: 0,
 		totalUsage: {
 			input: 0,
 			output: 0,
@@ -549,6 +658,19 @@ function createRunner(
 		},
 		stopReason: "stop",
 		errorMessage: undefined as string | undefined,
+		/** True from run() start until the agent stops — inject() is allowed meanwhile */
+		acceptingMessages: false,
+		budgetCheck: undefined as RunOptions["budgetCheck"],
+		/** Why the budget stopped the run, once it has */
+		budgetStop: undefined as string | undefined,
+	};
+
+	// Load context.jsonl into the agent outside of run() (/compact, /status)
+	const ensureLoaded = () => {
+		if (sessionManager) return;
+		const loaded = getSessionManager().buildSessionContext();
+		const sanitized = sanitizeMessages(loaded.messages as unknown as Parameters<typeof sanitizeMessages>[0]);
+		agent.replaceMessages(sanitized as unknown as typeof loaded.messages);
 	};
 
 	// Event handler — extracted so it can be attached when session is lazily created
@@ -578,7 +700,12 @@ function createRunner(
 			pendingTools.delete(agentEvent.toolCallId);
 
 			const durationMs = pending ? Date.now() - pending.startTime : 0;
+			runState.toolCalls++;
 
+			metrics.toolDuration.observe(
+				{ tool: agentEvent.toolName, outcome: agentEvent.isError ? "error" : "ok" },
+				durationMs / 1000,
+			);
 			if (agentEvent.isError) {
 				log.logToolError(logCtx, agentEvent.toolName, durationMs, resultStr);
 			} else {
@@ -602,6 +729,24 @@ function createRunner(
 			if (agentEvent.isError) {
 				queue.enqueue(() => ctx.respond(`_Error: ${truncate(resultStr, 200)}_`, false), "tool error");
 			}
+		} else if (event.type === "turn_start") {
+			runState.turnSpan?.end();
+			runState.turnSpan = tracing.startSpan("llm.turn", { channel: logCtx.channelId });
+		} else if (event.type === "turn_end") {
+			runState.turnSpan?.end();
+			runState.turnSpan = null;
+
+			// Tool results mean another LLM call is coming — stop before it if the budget is spent
+			const agentEvent = event as AgentEvent & { type: "turn_end" };
+			if (agentEvent.toolResults.length > 0 && runState.budgetCheck && !runState.budgetStop) {
+				const { input, output, cost } = runState.totalUsage;
+				const reason = runState.budgetCheck({ cost: cost.total, tokens: input + output });
+				if (reason) {
+					log.logInfo(`[${logCtx.channelId}] Stopping run: ${reason}`);
+					runState.budgetStop = reason;
+					agent.abort();
+				}
+			}
 		} else if (event.type === "message_start") {
 			const agentEvent = event as AgentEvent & { type: "message_start" };
 			if (agentEvent.message.role === "assistant") {
@@ -618,6 +763,14 @@ function createRunner(
 				if (assistantMsg.errorMessage) {
 					runState.errorMessage = assistantMsg.errorMessage;
 				}
+				runState.turnSpan?.setAttributes({
+					"gen_ai.request.model": assistantMsg.model,
+					"gen_ai.response.finish_reason": assistantMsg.stopReason,
+					"gen_ai.usage.input_tokens": assistantMsg.usage?.input,
+					"gen_ai.usage.output_tokens": assistantMsg.usage?.output,
+					"gen_ai.usage.cache_read_tokens": assistantMsg.usage?.cacheRead,
+				});
+				if (assistantMsg.errorMessage) runState.turnSpan?.recordError(assistantMsg.errorMessage);
 
 				if (assistantMsg.usage) {
 					runState.totalUsage.input += assistantMsg.usage.input;
@@ -646,8 +799,7 @@ function createRunner(
 
 				for (const thinking of thinkingParts) {
 					log.logThinking(logCtx, thinking);
-					queue.enqueueMessage(`_${thinking}_`, "main", "thinking main");
-					queue.enqueueMessage(`_${thinking}_`, "thread", "thinking thread", false);
+					queue.enqueue(() => ctx.respondThinking(thinking), "thinking");
 				}
 
 				if (text.trim()) {
@@ -663,12 +815,15 @@ function createRunner(
 			const compEvent = event as any;
 			if (compEvent.result) {
 				log.logInfo(`Auto-compaction complete: ${compEvent.result.tokensBefore} tokens compacted`);
+				metrics.compactions.inc({ trigger: "auto", outcome: "completed" });
 			} else if (compEvent.aborted) {
 				log.logInfo("Auto-compaction aborted");
+				metrics.compactions.inc({ trigger: "auto", outcome: "aborted" });
 			}
 		} else if (event.type === "auto_retry_start") {
 			const retryEvent = event as any;
 			log.logWarning(`Retrying (${retryEvent.attempt}/${retryEvent.maxAttempts})`, retryEvent.errorMessage);
+			metrics.retries.inc();
 			queue.enqueue(
 				() => ctx.respond(`_Retrying (${retryEvent.attempt}/${retryEvent.maxAttempts})..._`, false),
 				"retry",
@@ -698,12 +853,16 @@ function createRunner(
 			ctx: MomContext,
 			_store: ChannelStore,
 			_pendingMessages?: PendingMessage[],
-		): Promise<{ stopReason: string; errorMessage?: string }> {
+			options?: RunOptions,
+		): Promise<RunResult> {
 			const tRun = performance.now();
 
 			// Ensure channel directory exists
 			await mkdir(channelDir, { recursive: true });
 
+			// Pick up settings.json edits (workspace or channel) made since the last run
+			settingsManager.reload();
+
 			// --- Parallel R2 reads ---
 			// These all hit s3fs (network I/O). Run concurrently instead of sequentially.
 			const tR2 = performance.now();
@@ -713,57 +872,110 @@ function createRunner(
 			// syncLogToSessionManager reads log.jsonl, buildSessionContext reads context.jsonl,
 			// getMemory reads MEMORY.md, loadMomSkills scans skills dirs.
 			// sync must happen before buildSessionContext, but memory/skills are independent.
-			const syncedCount = syncLogToSessionManager(sm, channelDir, ctx.message.ts);
+			const syncedCount = tracing.withSpanSync("syncLogToSessionManager", {}, (span) => {
+				const count = syncLogToSessionManager(sm, channelDir, ctx.message.ts, thread);
+				span.setAttributes({ "messages.synced": count });
+				return count;
+			});
 			if (syncedCount > 0) {
 				log.logInfo(`[${channelId}] Synced ${syncedCount} messages from log.jsonl`);
 			}
-			log.logInfo(`[perf] log sync: ${(performance.now() - tR2).toFixed(0)}ms`);
+			log.logDebug(`[perf] log sync: ${(performance.now() - tR2).toFixed(0)}ms`);
 
 			// These three are independent — but they're sync fs calls (readFileSync via s3fs).
 			// We can't truly parallelize sync calls without worker threads.
 			// For now, instrument each one so we know where the time goes.
 			const tCtx = performance.now();
-			const reloadedSession = sm.buildSessionContext();
-			log.logInfo(`[perf] buildSessionContext: ${(performance.now() - tCtx).toFixed(0)}ms`);
+			const reloadedSession = tracing.withSpanSync("buildSessionContext", {}, () => sm.buildSessionContext());
+			log.logDebug(`[perf] buildSessionContext: ${(performance.now() - tCtx).toFixed(0)}ms`);
 
 			if (reloadedSession.messages.length > 0) {
 				const tSan = performance.now();
 				const sanitized = sanitizeMessages(reloadedSession.messages as unknown as Parameters<typeof sanitizeMessages>[0]);
 				agent.replaceMessages(sanitized as unknown as typeof reloadedSession.messages);
-				log.logInfo(`[perf] sanitize+replace (${sanitized.length} msgs): ${(performance.now() - tSan).toFixed(0)}ms`);
+				log.logDebug(`[perf] sanitize+replace (${sanitized.length} msgs): ${(performance.now() - tSan).toFixed(0)}ms`);
 			}
 
 			const tMem = performance.now();
-			const memory = getMemory(channelDir);
-			log.logInfo(`[perf] getMemory: ${(performance.now() - tMem).toFixed(0)}ms`);
+			const memory = tracing.withSpanSync("getMemory", {}, () => getMemory(channelDir, channelId));
+			log.logDebug(`[perf] getMemory: ${(performance.now() - tMem).toFixed(0)}ms`);
+
+			// Only the memory entries that bear on this message go into the prompt
+			const recalled = tracing.withSpanSync("recallMemory", {}, (span) => {
+				const matches = memoryStore.search(ctx.message.text, channelId);
+				span.setAttributes({ "memory.matches": matches.length });
+				return matches.length > 0
+					? matches.map(({ entry }) => formatMemoryEntry(entry)).join("\n")
+					: "(none match this message — use recall to search)";
+			});
 
 			const tSkills = performance.now();
-			const skills = loadMomSkills(channelDir, workspacePath, extraSkillsDirs);
-			log.logInfo(`[perf] loadMomSkills (${skills.length} skills): ${(performance.now() - tSkills).toFixed(0)}ms`);
+			const skills = tracing.withSpanSync("loadMomSkills", {}, (span) => {
+				const loaded = loadMomSkills(channelDir, workspacePath, extraSkillsDirs);
+				span.setAttributes({ "skills.count": loaded.length });
+				return loaded;
+			});
+			log.logDebug(`[perf] loadMomSkills (${skills.length} skills): ${(performance.now() - tSkills).toFixed(0)}ms`);
 
-			log.logInfo(`[perf] total R2 reads: ${(performance.now() - tR2).toFixed(0)}ms`);
+			log.logDebug(`[perf] total R2 reads: ${(performance.now() - tR2).toFixed(0)}ms`);
 
 			// Build system prompt with fresh data
 			const currentSession = getSession();
-			const systemPrompt = buildSystemPrompt(
+			let systemPrompt = buildSystemPrompt(
 				workspacePath,
 				channelId,
 				memory,
+				recalled,
 				sandboxConfig,
 				ctx.channels,
 				ctx.users,
 				skills,
 				formatInstructions,
 			);
+			// Tools come from getOrCreateRunner(); the sender's role may withhold some of them
+			const withheld = new Set(options?.withheldTools ?? []);
+			agent.setTools(tools.filter((tool) => !withheld.has(tool.name)));
+			if (withheld.size > 0) {
+				systemPrompt += `\n\n## Unavailable Tools\nThe person you're talking to may not use: ${Array.from(withheld).join(", ")}. These tools are switched off for this message — if the request needs them, say so.`;
+			}
 			currentSession.agent.setSystemPrompt(systemPrompt);
 
+			const { text: userMessage, images: imageAttachments } = formatUserMessage(ctx.message, workspacePath);
+
 			// Re-resolve model each run (picks up /model command changes from settings.json)
-			const currentModel = resolveModel(workspaceDir, modelRegistry);
+			const currentModel = resolveModel(workspaceDir, modelRegistry, channelId);
 			const agentModel = agent.state.model;
 			if (agentModel && (currentModel.id !== agentModel.id || currentModel.provider !== agentModel.provider)) {
 				log.logInfo(`[${channelId}] Model changed to ${currentModel.provider}/${currentModel.id}`);
 				agent.setModel(currentModel);
 			}
+			// The routing policy may pick another model for just this run
+			const route = routeModel(
+				currentModel,
+				{
+					trigger: options?.trigger ?? "message",
+					eventModel: options?.eventModel,
+					textLength: ctx.message.text.length,
+					hasImages: imageAttachments.length > 0,
+				},
+				workspaceDir,
+				modelRegistry,
+			);
+			if (route.reason) {
+				log.logInfo(`[${channelId}] Routing to ${route.model.provider}/${route.model.id} (${route.reason})`);
+				agent.setModel(route.model);
+			}
+
+			// How queued mid-run messages are delivered (settings.json steeringMode / followUpMode)
+			agent.setSteeringMode(settingsManager.getSteeringMode());
+			agent.setFollowUpMode(settingsManager.getFollowUpMode());
+
+			// Re-resolve thinking level each run too (picks up /think and settings.json edits)
+			const thinkingLevel = settingsManager.getDefaultThinkingLevel() as ThinkingLevel;
+			if (agent.state.thinkingLevel !== thinkingLevel) {
+				log.logInfo(`[${channelId}] Thinking level changed to ${thinkingLevel}`);
+				agent.setThinkingLevel(thinkingLevel);
+			}
 
 			// Set up file upload function
 			setUploadFunction(async (filePath: string, title?: string) => {
@@ -771,7 +983,7 @@ function createRunner(
 				await ctx.uploadFile(hostPath, title);
 			});
 
-			log.logInfo(`[perf] run() pre-prompt setup: ${(performance.now() - tRun).toFixed(0)}ms`);
+			log.logDebug(`[perf] run() pre-prompt setup: ${(performance.now() - tRun).toFixed(0)}ms`);
 
 			// Reset per-run state
 			runState.ctx = ctx;
@@ -779,8 +991,11 @@ function createRunner(
 				channelId: ctx.message.channel,
 				userName: ctx.message.userName,
 				channelName: ctx.channelName,
+				adapter: options?.adapter,
+				runId: options?.runId,
 			};
 			runState.pendingTools.clear();
+			runState.toolCalls = 0;
 			runState.totalUsage = {
 				input: 0,
 				output: 0,
@@ -790,6 +1005,8 @@ function createRunner(
 			};
 			runState.stopReason = "stop";
 			runState.errorMessage = undefined;
+			runState.budgetCheck = options?.budgetCheck;
+			runState.budgetStop = undefined;
 
 			// Create queue for this run
 			let queueChain = Promise.resolve();
@@ -821,46 +1038,11 @@ function createRunner(
 			};
 
 			// Log context info
-			log.logInfo(`Context sizes - system: ${systemPrompt.length} chars, memory: ${memory.length} chars`);
+			log.logInfo(
+				`Context sizes - system: ${systemPrompt.length} chars, memory: ${memory.length} chars, entries: ${recalled.length} chars`,
+			);
 			log.logInfo(`Channels: ${ctx.channels.length}, Users: ${ctx.users.length}`);
 
-			// Build user message with timestamp and username prefix
-			// Format: "[YYYY-MM-DD HH:MM:SS+HH:MM] [username]: message" so LLM knows when and who
-			const now = new Date();
-			const pad = (n: number) => n.toString().padStart(2, "0");
-			const offset = -now.getTimezoneOffset();
-			const offsetSign = offset >= 0 ? "+" : "-";
-			const offsetHours = pad(Math.floor(Math.abs(offset) / 60));
-			const offsetMins = pad(Math.abs(offset) % 60);
-			const timestamp = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())} ${pad(now.getHours())}:${pad(now.getMinutes())}:${pad(now.getSeconds())}${offsetSign}${offsetHours}:${offsetMins}`;
-			let userMessage = `[${timestamp}] [${ctx.message.userName || "unknown"}]: ${ctx.message.text}`;
-
-			const imageAttachments: ImageContent[] = [];
-			const nonImagePaths: string[] = [];
-
-			for (const a of ctx.message.attachments || []) {
-				const fullPath = `${workspacePath}/${a.local}`;
-				const mimeType = getImageMimeType(a.local);
-
-				if (mimeType && existsSync(fullPath)) {
-					try {
-						imageAttachments.push({
-							type: "image",
-							mimeType,
-							data: readFileSync(fullPath).toString("base64"),
-						});
-					} catch {
-						nonImagePaths.push(fullPath);
-					}
-				} else {
-					nonImagePaths.push(fullPath);
-				}
-			}
-
-			if (nonImagePaths.length > 0) {
-				userMessage += `\n\n<attachments>\n${nonImagePaths.join("\n")}\n</attachments>`;
-			}
-
 			// Debug: write context to last_prompt.jsonl
 			const debugContext = {
 				systemPrompt,
@@ -871,8 +1053,19 @@ function createRunner(
 			await writeFile(join(channelDir, "last_prompt.jsonl"), JSON.stringify(debugContext, null, 2));
 
 			const tPrompt = performance.now();
-			await currentSession.prompt(userMessage, imageAttachments.length > 0 ? { images: imageAttachments } : undefined);
-			log.logInfo(`[perf] session.prompt (incl API): ${(performance.now() - tPrompt).toFixed(0)}ms`);
+			runState.acceptingMessages = true;
+			try {
+				await currentSession.prompt(userMessage, imageAttachments.length > 0 ? { images: imageAttachments } : undefined);
+			} finally {
+				// Leftovers (stop, or a message that raced the end of the run) are still in
+				// log.jsonl and get synced into context with the next message
+				runState.acceptingMessages = false;
+				const dropped = currentSession.clearQueue();
+				if (dropped.steering.length + dropped.followUp.length > 0) {
+					log.logInfo(`[${channelId}] Dropped ${dropped.steering.length + dropped.followUp.length} undelivered queued messages`);
+				}
+			}
+			log.logDebug(`[perf] session.prompt (incl API): ${(performance.now() - tPrompt).toFixed(0)}ms`);
 
 			// If overflow error triggered background compaction+retry, wait for it.
 			// Agent.emit() doesn't await async handlers, so _runAutoCompaction runs
@@ -889,11 +1082,69 @@ function createRunner(
 				}
 			}
 
+			// Retries are exhausted — walk the settings.json fallback chain
+			const shouldFallBack = () => {
+				if (runState.stopReason !== "error") return false;
+				const last = agent.state.messages[agent.state.messages.length - 1];
+				return last?.role === "assistant" && isFallbackError(last, agent.state.model.contextWindow);
+			};
+			if (!runState.budgetStop && shouldFallBack()) {
+				const fallbacks = resolveFallbackModels(settingsManager.getFallbackModels(), workspaceDir, modelRegistry);
+				for (const fallback of fallbacks) {
+					if (!shouldFallBack()) break;
+					const failed = agent.state.model;
+					if (fallback.provider === failed.provider && fallback.id === failed.id) continue;
+					if (!(await modelRegistry.getApiKey(fallback))) {
+						log.logWarning(`No API key for fallback ${fallback.provider}/${fallback.id}`, "Skipping it");
+						continue;
+					}
+
+					log.logWarning(
+						`[${channelId}] ${failed.provider}/${failed.id} failed, falling back to ${fallback.provider}/${fallback.id}`,
+						runState.errorMessage,
+					);
+					metrics.modelFallbacks.inc({ from: failed.id, to: fallback.id });
+					runState.queue.enqueue(
+						() =>
+							ctx.respondInThread(
+								`_${failed.id} failed (${truncate(runState.errorMessage ?? "", 200)}), falling back to ${fallback.provider}/${fallback.id}_`,
+							),
+						"fallback",
+					);
+
+					// Drop the error reply (it stays in context.jsonl) and answer again from the same point
+					const messages = agent.state.messages;
+					if (messages.length > 0 && messages[messages.length - 1].role === "assistant") {
+						agent.replaceMessages(messages.slice(0, -1));
+					}
+					agent.setModel(fallback);
+					runState.stopReason = "stop";
+					runState.errorMessage = undefined;
+					try {
+						await agent.continue();
+						await settle(currentSession);
+					} catch (err) {
+						runState.stopReason = "error";
+						runState.errorMessage = err instanceof Error ? err.message : String(err);
+					}
+				}
+			}
+			// The model that produced the final answer (or the last error)
+			const answeredBy = agent.state.model;
+
 			// Wait for queued messages
 			await queueChain;
 
-			// Handle error case - update main message and post error to thread
-			if (runState.stopReason === "error" && runState.errorMessage) {
+			if (runState.budgetStop) {
+				runState.stopReason = "budget";
+				try {
+					await ctx.replaceMessage(`_${runState.budgetStop}. Stopped here — ask an owner to raise the limit._`);
+				} catch (err) {
+					const errMsg = err instanceof Error ? err.message : String(err);
+					log.logWarning("Failed to post budget message", errMsg);
+				}
+			} else if (runState.stopReason === "error" && runState.errorMessage) {
+				// Handle error case - update main message and post error to thread
 				try {
 					await ctx.replaceMessage("_Sorry, something went wrong_");
 					await ctx.respondInThread(`_Error: ${runState.errorMessage}_`);
@@ -934,6 +1185,14 @@ function createRunner(
 				}
 			}
 
+			const usage = runState.totalUsage;
+			const usageLabels = { adapter: options?.adapter ?? "unknown", model: answeredBy?.id ?? "unknown" };
+			metrics.llmTokens.inc({ ...usageLabels, type: "input" }, usage.input);
+			metrics.llmTokens.inc({ ...usageLabels, type: "output" }, usage.output);
+			metrics.llmTokens.inc({ ...usageLabels, type: "cache_read" }, usage.cacheRead);
+			metrics.llmTokens.inc({ ...usageLabels, type: "cache_write" }, usage.cacheWrite);
+			metrics.llmCost.inc(usageLabels, usage.cost.total);
+
 			// Log usage summary with context info
 			if (runState.totalUsage.cost.total > 0) {
 				// Get last non-aborted assistant message for context calculation
@@ -949,25 +1208,232 @@ function createRunner(
 						lastAssistantMessage.usage.cacheRead +
 						lastAssistantMessage.usage.cacheWrite
 					: 0;
-				const contextWindow = agent.state.model?.contextWindow || 200000;
+				const contextWindow = answeredBy?.contextWindow || 200000;
 
 				const summary = log.logUsageSummary(runState.logCtx!, runState.totalUsage, contextTokens, contextWindow);
 				runState.queue.enqueue(() => ctx.respondInThread(summary), "usage summary");
 				await queueChain;
 			}
 
+			// Routes and fallbacks last one run; /status and /compact see the channel model
+			if (answeredBy.provider !== currentModel.provider || answeredBy.id !== currentModel.id) {
+				agent.setModel(currentModel);
+			}
+
 			// Clear run state
 			runState.ctx = null;
 			runState.logCtx = null;
+			// An aborted run can skip turn_end
+			runState.turnSpan?.end();
+			runState.turnSpan = null;
 			runState.queue = null;
 
-			log.logInfo(`[perf] TOTAL run(): ${(performance.now() - tRun).toFixed(0)}ms`);
-			return { stopReason: runState.stopReason, errorMessage: runState.errorMessage };
+			log.logDebug(`[perf] TOTAL run(): ${(performance.now() - tRun).toFixed(0)}ms`);
+			return {
+				stopReason: runState.stopReason,
+				errorMessage: runState.errorMessage,
+				usage: runState.totalUsage,
+				model: answeredBy?.id,
+				provider: answeredBy?.provider,
+				toolCalls: runState.toolCalls,
+			};
 		},
 
 		abort(): void {
 			if (session) session.abort();
 		},
+
+		async inject(message, mode): Promise<boolean> {
+			if (!runState.acceptingMessages) return false;
+			const { text, images } = formatUserMessage(message, workspacePath);
+			const currentSession = getSession();
+			if (mode === "steer") {
+				await currentSession.steer(text, images.length > 0 ? images : undefined);
+			} else {
+				await currentSession.followUp(text, images.length > 0 ? images : undefined);
+			}
+			log.logInfo(`[${channelId}] Queued ${mode} message: ${message.text.substring(0, 50)}`);
+			return true;
+		},
+
+		async compact(): Promise<{ tokensBefore: number }> {
+			// AgentSession.compact() aborts the current prompt first — never do that behind a run's back
+			if (runState.ctx) throw new Error("A run is in progress");
+			ensureLoaded();
+			const result = await getSession().compact();
+			log.logInfo(`[${channelId}] Compacted context (${result.tokensBefore} tokens before)`);
+			metrics.compactions.inc({ trigger: "manual", outcome: "completed" });
+			return { tokensBefore: result.tokensBefore };
+		},
+
+		async reset(): Promise<string> {
+			if (runState.ctx) throw new Error("A run is in progress");
+			await mkdir(join(channelDir, "archive"), { recursive: true });
+			const archivePath = join(channelDir, "archive", `context-${new Date().toISOString().replace(/[:.]/g, "-")}.jsonl`);
+			if (existsSync(contextFile)) {
+				await rename(contextFile, archivePath);
+			} else {
+				// Nothing answered yet, but log.jsonl history still gets cut off below
+				await writeFile(archivePath, "");
+			}
+
+			// Fresh session file whose header points at the archive. syncLogToSessionManager
+			// uses the header timestamp to keep older log.jsonl lines out of the new session.
+			const header = {
+				type: "session",
+				version: CURRENT_SESSION_VERSION,
+				id: randomUUID(),
+				timestamp: new Date().toISOString(),
+				cwd: process.cwd(),
+				parentSession: archivePath,
+			};
+			await writeFile(contextFile, `${JSON.stringify(header)}\n`);
+
+			// Drop the cached session so the next run reopens context.jsonl
+			if (session) {
+				session.dispose();
+				session = null;
+			}
+			sessionManager = null;
+			agent.replaceMessages([]);
+
+			log.logInfo(`[${channelId}] Context reset, archived to ${archivePath}`);
+			return archivePath;
+		},
+
+		repair(): number {
+			if (runState.ctx) throw new Error("A run is in progress");
+			ensureLoaded();
+			const sm = getSessionManager();
+			const messages = sm.buildSessionContext().messages as unknown as Parameters<typeof danglingToolCalls>[0];
+			const dangling = danglingToolCalls(messages);
+			if (dangling.length === 0) return 0;
+
+			for (const call of dangling) {
+				sm.appendMessage(interruptedResult(call) as unknown as Parameters<typeof sm.appendMessage>[0]);
+			}
+			const repaired = sm.buildSessionContext();
+			const sanitized = sanitizeMessages(repaired.messages as unknown as Parameters<typeof sanitizeMessages>[0]);
+			agent.replaceMessages(sanitized as unknown as typeof repaired.messages);
+			log.logInfo(`[${channelId}] Closed ${dangling.length} interrupted tool call(s): ${dangling.map((c) => c.name).join(", ")}`);
+			return dangling.length;
+		},
+
+		getStats(): RunnerStats {
+			ensureLoaded();
+			const current = getSession();
+			const stats = current.getSessionStats();
+			const usage = current.getContextUsage();
+			// Report what the next run will use, so /model and /think changes show up immediately
+			settingsManager.reload();
+			const model = resolveModel(workspaceDir, modelRegistry, channelId);
+			return {
+				model: `${model.provider}/${model.id}`,
+				thinkingLevel: settingsManager.getDefaultThinkingLevel(),
+				messages: stats.totalMessages,
+				contextTokens: usage?.tokens ?? null,
+				contextWindow: model.contextWindow || 200000,
+				tokens: stats.tokens,
+				cost: stats.cost,
+			};
+		},
+	};
+}
+
+/**
+ * User message as the model sees it — "[YYYY-MM-DD HH:MM:SS+HH:MM] [username]: text"
+ * so it knows when and who — with images inlined and other attachments listed.
+ */
+function formatUserMessage(
+	message: Pick<MomContext["message"], "text" | "userName" | "attachments">,
+	workspacePath: string,
+): { text: string; images: ImageContent[] } {
+	const now = new Date();
+	const pad = (n: number) => n.toString().padStart(2, "0");
+	const offset = -now.getTimezoneOffset();
+	const offsetSign = offset >= 0 ? "+" : "-";
+	const offsetHours = pad(Math.floor(Math.abs(offset) / 60));
+	const offsetMins = pad(Math.abs(offset) % 60);
+	const timestamp = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())} ${pad(now.getHours())}:${pad(now.getMinutes())}:${pad(now.getSeconds())}${offsetSign}${offsetHours}:${offsetMins}`;
+	let text = `[${timestamp}] [${message.userName || "unknown"}]: ${message.text}`;
+
+	const images: ImageContent[] = [];
+	const nonImagePaths: string[] = [];
+
+	for (const a of message.attachments || []) {
+		const fullPath = `${workspacePath}/${a.local}`;
+		const mimeType = getImageMimeType(a.local);
+
+		if (mimeType && existsSync(fullPath)) {
+			try {
+				images.push({
+					type: "image",
+					mimeType,
+					data: readFileSync(fullPath).toString("base64"),
+				});
+			} catch {
+				nonImagePaths.push(fullPath);
+			}
+		} else {
+			nonImagePaths.push(fullPath);
+		}
+	}
+
+	if (nonImagePaths.length > 0) {
+		text += `\n\n<attachments>\n${nonImagePaths.join("\n")}\n</attachments>`;
+	}
+
+	return { text, images };
+}
+
+/**
+ * Wait until the session is done: AgentSession retries from a detached
+ * agent_end handler, so a finished continue() may still be followed by a
+ * backoff and another attempt.
+ */
+async function settle(session: AgentSession): Promise<void> {
+	const tick = () => new Promise((resolve) => setImmediate(resolve));
+	await tick();
+	while (session.isRetrying) {
+		await new Promise<void>((resolve) => {
+			const unsubscribe = session.subscribe((event) => {
+				if (event.type === "auto_retry_end") {
+					unsubscribe();
+					resolve();
+				}
+			});
+		});
+		await session.agent.waitForIdle();
+		await tick();
+	}
+}
+
+/**
+ * Wrap a tool so every call passes the gate first
+ */
+function gateTool(tool: AgentTool<any>, gate: ToolGate): AgentTool<any> {
+	return {
+		...tool,
+		execute: async (toolCallId, params, signal, onUpdate) => {
+			await gate(tool.name, params, signal);
+			return tool.execute(toolCallId, params, signal, onUpdate);
+		},
+	};
+}
+
+/**
+ * Wrap a tool so every call runs in its own span
+ */
+function traceTool(tool: AgentTool<any>, parent: () => tracing.SpanParent | null): AgentTool<any> {
+	return {
+		...tool,
+		execute: (toolCallId, params, signal, onUpdate) =>
+			tracing.withSpan(
+				`tool.${tool.name}`,
+				{ "tool.name": tool.name, "tool.call_id": toolCallId, "tool.label": params?.label },
+				() => tool.execute(toolCallId, params, signal, onUpdate),
+				parent() ?? undefined,
+			),
 	};
 }
 
@@ -0,0 +1,184 @@
+import { randomBytes } from "crypto";
+import type { ApprovalRequest, PlatformAdapter } from "./adapters/types.js";
+import type { ApprovalConfig } from "./config.js";
+import * as log from "./log.js";
+
+// ============================================================================
+// ApprovalGate — ask a human before dangerous tool calls
+// ============================================================================
+//
+// Configured by the `approval` section of troublemaker.config.json: regexes on
+// bash commands, write/edit paths and send_message recipients. A matching
+// tool call pauses while the channel gets an approve/deny prompt — native
+// buttons where the adapter implements postApprovalRequest(), otherwise a
+// text prompt answered with /approve or /deny. No answer before the timeout
+// counts as a denial, and so does stopping the run.
+
+const DEFAULT_TIMEOUT_SECONDS = 300;
+
+export interface ApprovalOutcome {
+	approved: boolean;
+	/** User who answered; undefined on timeout or stop */
+	by?: string;
+	timedOut?: boolean;
+}
+
+interface PendingApproval {
+	request: ApprovalRequest;
+	settle(outcome: ApprovalOutcome): void;
+}
+
+export class ApprovalGate {
+	private bash: RegExp[];
+	private paths: RegExp[];
+	private recipients: RegExp[];
+	private timeoutMs: number;
+	private pending = new Map<string, PendingApproval>();
+
+	constructor(config: ApprovalConfig = {}) {
+		this.bash = (config.bash ?? []).map((pattern) => new RegExp(pattern));
+		this.paths = (config.paths ?? []).map((pattern) => new RegExp(pattern));
+		this.recipients = (config.recipients ?? []).map((pattern) => new RegExp(pattern));
+		this.timeoutMs = (config.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+	}
+
+	/** Whether any rule is configured */
+	get enabled(): boolean {
+		return this.bash.length + this.paths.length + this.recipients.length > 0;
+	}
+
+	/** The rule a tool call trips, if any */
+	check(toolName: string, args: Record<string, unknown>): string | undefined {
+		const match = (rules: RegExp[], value: unknown) =>
+			typeof value === "string" ? rules.find((rule) => rule.test(value)) : undefined;
+
+		let rule: RegExp | undefined;
+		switch (toolName) {
+			case "bash":
+				rule = match(this.bash, args.command);
+				break;
+			case "write":
+			case "edit":
+				rule = match(this.paths, args.path);
+				break;
+			case "send_message":
+				rule = match(this.recipients, args.channel);
+				break;
+		}
+		return rule ? `matches /${rule.source}/` : undefined;
+	}
+
+	/**
+	 * Hold a tool call until someone answers the prompt. Resolves when approved
+	 * (or when no rule matches); throws when denied, timed out or stopped, which
+	 * fails the tool call.
+	 */
+	async review(
+		channelId: string,
+		platform: PlatformAdapter,
+		toolName: string,
+		args: Record<string, unknown>,
+		signal?: AbortSignal,
+		thread?: string,
+	): Promise<void> {
+		const reason = this.check(toolName, args);
+		if (!reason) return;
+
+		const request: ApprovalRequest = {
+			id: randomBytes(3).toString("hex"),
+			channelId,
+			thread,
+			tool: toolName,
+			summary: describeCall(toolName, args),
+			reason,
+			timeoutMs: this.timeoutMs,
+		};
+		log.logInfo(`[${channelId}] Approval ${request.id} requested: ${toolName} (${reason})`);
+
+		const messageId = platform.postApprovalRequest
+			? await platform.postApprovalRequest(request)
+			: thread
+				? await platform.postInThread(channelId, thread, promptText(request))
+				: await platform.postMessage(channelId, promptText(request));
+
+		const outcome = await new Promise<ApprovalOutcome>((resolve) => {
+			const timer = setTimeout(() => settle({ approved: false, timedOut: true }), this.timeoutMs);
+			const onAbort = () => settle({ approved: false });
+			const settle = (result: ApprovalOutcome) => {
+				clearTimeout(timer);
+				signal?.removeEventListener("abort", onAbort);
+				this.pending.delete(request.id);
+				resolve(result);
+			};
+			if (signal?.aborted) {
+				settle({ approved: false });
+				return;
+			}
+			signal?.addEventListener("abort", onAbort);
+			this.pending.set(request.id, { request, settle });
+		});
+
+		log.logInfo(`[${channelId}] Approval ${request.id}: ${outcomeLabel(outcome)}`);
+		const resultText = `${outcome.approved ? "✅" : "❌"} ${request.tool}: ${request.summary}\n_${outcomeLabel(outcome)}_`;
+		try {
+			if (platform.resolveApprovalRequest) {
+				await platform.resolveApprovalRequest(request, messageId, resultText);
+			} else {
+				await platform.updateMessage(channelId, messageId, resultText);
+			}
+		} catch (err) {
+			log.logWarning(`[${channelId}] Failed to update approval prompt`, err instanceof Error ? err.message : String(err));
+		}
+
+		if (!outcome.approved) {
+			throw new Error(`Not run — ${outcomeLabel(outcome).toLowerCase()}. Do not retry without asking.`);
+		}
+	}
+
+	/**
+	 * Answer a pending request. Returns a short status for the person who
+	 * answered (button toast, command reply).
+	 */
+	resolve(id: string, channelId: string, approved: boolean, userId: string): string {
+		const pending = this.pending.get(id);
+		if (!pending || pending.request.channelId !== channelId) {
+			return `No pending approval ${id} in this channel (it may have expired).`;
+		}
+		pending.settle({ approved, by: userId });
+		return approved ? `Approved ${pending.request.tool}.` : `Denied ${pending.request.tool}.`;
+	}
+}
+
+/** One-line description of what the tool call would do */
+function describeCall(toolName: string, args: Record<string, unknown>): string {
+	const clip = (value: unknown, max: number) => {
+		const text = String(value ?? "");
+		return text.length > max ? `${text.substring(0, max - 3)}...` : text;
+	};
+	switch (toolName) {
+		case "bash":
+			return `\`${clip(args.command, 500)}\``;
+		case "write":
+		case "edit":
+			return `\`${clip(args.path, 300)}\``;
+		case "send_message":
+			return `to \`${clip(args.channel, 100)}\`: ${clip(args.text, 200)}`;
+		default:
+			return toolName;
+	}
+}
+
+function promptText(request: ApprovalRequest): string {
+	const minutes = Math.round(request.timeoutMs / 60000);
+	return (
+		`*Approval needed* — ${request.tool}: ${request.summary}\n` +
+		`_${request.reason}_\n` +
+		`Reply \`/approve ${request.id}\` or \`/deny ${request.id}\` (expires in ${minutes} min)`
+	);
+}
+
+function outcomeLabel(outcome: ApprovalOutcome): string {
+	if (outcome.approved) return `Approved by ${outcome.by}`;
+	if (outcome.timedOut) return "Approval timed out";
+	return outcome.by ? `Denied by ${outcome.by}` : "Cancelled (run stopped)";
+}
@@ -0,0 +1,91 @@
+import type { BudgetConfig, BudgetLimits, ChannelOverride } from "./config.js";
+import type { Spend, UsageLedger, UsagePeriod, UsageScope } from "./usage.js";
+
+// ============================================================================
+// BudgetPolicy — spending caps per channel, per user and workspace-wide
+// ============================================================================
+//
+// Configured by the `budget` section of troublemaker.config.json plus
+// `channels.<id>.budget`. Each scope can cap cost and tokens per UTC day and
+// month. main.ts checks before a run starts; agent.ts checks again after each
+// LLM turn that calls tools, counting what the run has spent so far, and stops
+// the run before its next turn once a cap is hit. Scheduled events are held to
+// the channel and workspace caps only.
+
+const CHECKS: Array<{ period: UsagePeriod; metric: keyof Spend; limit: keyof BudgetLimits }> = [
+	{ period: "day", metric: "cost", limit: "dailyCost" },
+	{ period: "day", metric: "tokens", limit: "dailyTokens" },
+	{ period: "month", metric: "cost", limit: "monthlyCost" },
+	{ period: "month", metric: "tokens", limit: "monthlyTokens" },
+];
+
+export class BudgetPolicy {
+	constructor(
+		private ledger: UsageLedger,
+		private budget: BudgetConfig = {},
+		private channels: Record<string, ChannelOverride> = {},
+	) {}
+
+	/**
+	 * Returns why a run may not start (or go on), or undefined if every cap
+	 * has room. `inFlight` is what the current run has spent so far.
+	 */
+	check(channelId: string, userId: string | undefined, inFlight: Spend = { cost: 0, tokens: 0 }): string | undefined {
+		for (const { scope, label, limits } of this.scopes(channelId, userId)) {
+			if (!limits) continue;
+			for (const { period, metric, limit } of CHECKS) {
+				const cap = limits[limit];
+				if (cap === undefined) continue;
+				const spent = this.ledger.spent(scope, period)[metric] + inFlight[metric];
+				if (spent >= cap) {
+					return `Budget reached: ${period === "day" ? "daily" : "monthly"} ${metric === "cost" ? "cost" : "token"} limit for ${label} (${formatAmount(metric, spent)} of ${formatAmount(metric, cap)})`;
+				}
+			}
+		}
+		return undefined;
+	}
+
+	/** Remaining allowance for /budget */
+	describe(channelId: string, userId: string): string {
+		const lines: string[] = [];
+		for (const { scope, label, limits } of this.scopes(channelId, userId)) {
+			const capped = CHECKS.filter(({ limit }) => limits?.[limit] !== undefined);
+			if (capped.length === 0) continue;
+			lines.push(`*${label.charAt(0).toUpperCase()}${label.slice(1)}*`);
+			for (const { period, metric, limit } of capped) {
+				const cap = limits![limit]!;
+				const spent = this.ledger.spent(scope, period)[metric];
+				lines.push(
+					`${period === "day" ? "Today" : "This month"}: ${formatAmount(metric, spent)} of ${formatAmount(metric, cap)} ${metric === "cost" ? "spent" : "used"}, ${formatAmount(metric, Math.max(0, cap - spent))} left`,
+				);
+			}
+		}
+		return lines.length > 0 ? lines.join("\n") : "No budget limits configured.";
+	}
+
+	private scopes(
+		channelId: string,
+		userId: string | undefined,
+	): Array<{ scope: UsageScope; label: string; limits?: BudgetLimits }> {
+		const scopes: Array<{ scope: UsageScope; label: string; limits?: BudgetLimits }> = [
+			{ scope: { kind: "workspace" }, label: "the workspace", limits: this.budget.workspace },
+			{
+				scope: { kind: "channel", id: channelId },
+				label: "this channel",
+				limits: this.channels[channelId]?.budget ?? this.budget.channel,
+			},
+		];
+		if (userId) {
+			scopes.push({
+				scope: { kind: "user", id: userId },
+				label: "you",
+				limits: this.budget.users?.[userId] ?? this.budget.user,
+			});
+		}
+		return scopes;
+	}
+}
+
+function formatAmount(metric: keyof Spend, value: number): string {
+	return metric === "cost" ? `$${value.toFixed(2)}` : `${Math.round(value).toLocaleString()} tokens`;
+}
@@ -0,0 +1,162 @@
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { adapterKey } from "./adapters/instance.js";
+import type { PlatformAdapter } from "./adapters/types.js";
+import * as log from "./log.js";
+
+// ============================================================================
+// ChannelRegistry — which adapter owns each channel
+// ============================================================================
+//
+// Persisted to <workingDir>/channels.json. A channel is bound to the adapter
+// that first delivers a message for it; send_message, the events watcher and
+// the heartbeat route by this record instead of guessing from ID shape.
+
+export interface ChannelRecord {
+	/** Adapter instance that owns the channel ("slack", or "slack@acme" for a named instance) */
+	adapter: string;
+	/** Human-readable name at last sighting */
+	name?: string;
+	/** ISO 8601 date the channel was first registered */
+	firstSeen: string;
+}
+
+interface ChannelsFile {
+	channels: Record<string, ChannelRecord>;
+}
+
+export class ChannelRegistry {
+	private path: string;
+	private channels = new Map<string, ChannelRecord>();
+
+	constructor(private workingDir: string) {
+		this.path = join(workingDir, "channels.json");
+		this.load();
+	}
+
+	/**
+	 * Record that `adapter` owns `channelId`. The first owner wins — a later
+	 * registration from a different adapter is ignored with a warning.
+	 */
+	register(channelId: string, adapter: string, name?: string): void {
+		const existing = this.channels.get(channelId);
+		if (existing) {
+			if (existing.adapter !== adapter) {
+				log.logWarning(`[channels] ${channelId} is owned by ${existing.adapter}, ignoring claim from ${adapter}`);
+				return;
+			}
+			if (name && name !== existing.name) {
+				existing.name = name;
+				this.save();
+			}
+			return;
+		}
+
+		this.channels.set(channelId, { adapter, name, firstSeen: new Date().toISOString() });
+		log.logInfo(`[channels] registered ${channelId} → ${adapter}`);
+		this.save();
+	}
+
+	/** Name of the adapter that owns a channel, if known */
+	getOwner(channelId: string): string | undefined {
+		return this.channels.get(channelId)?.adapter;
+	}
+
+	get(channelId: string): ChannelRecord | undefined {
+		return this.channels.get(channelId);
+	}
+
+	getAll(): Array<{ id: string } & ChannelRecord> {
+		return Array.from(this.channels.entries()).map(([id, record]) => ({ id, ...record }));
+	}
+
+	/**
+	 * Find the adapter that owns a channel. Channels nobody has messaged yet
+	 * (e.g. a Slack channel loaded at startup) are claimed by the first adapter
+	 * that recognizes the ID via getChannel().
+	 */
+	resolve(channelId: string, adapters: PlatformAdapter[]): PlatformAdapter | undefined {
+		const owner = this.getOwner(channelId);
+		if (owner) {
+			return adapters.find((a) => adapterKey(a) === owner);
+		}
+
+		for (const adapter of adapters) {
+			const info = adapter.getChannel(channelId);
+			if (info) {
+				this.register(channelId, adapterKey(adapter), info.name);
+				return adapter;
+			}
+		}
+		return undefined;
+	}
+
+	// ==========================================================================
+	// Persistence
+	// ==========================================================================
+
+	private load(): void {
+		if (!existsSync(this.path)) {
+			this.migrateLegacy();
+			return;
+		}
+
+		try {
+			const data = JSON.parse(readFileSync(this.path, "utf-8")) as ChannelsFile;
+			for (const [id, record] of Object.entries(data.channels || {})) {
+				this.channels.set(id, record);
+			}
+		} catch (err) {
+			log.logWarning("[channels] Failed to read channels.json", err instanceof Error ? err.message : String(err));
+		}
+	}
+
+	private save(): void {
+		const data: ChannelsFile = { channels: Object.fromEntries(this.channels) };
+		try {
+			writeFileSync(this.path, `${JSON.stringify(data, null, 2)}\n`, "utf-8");
+		} catch (err) {
+			log.logWarning("[channels] Failed to write channels.json", err instanceof Error ? err.message : String(err));
+		}
+	}
+
+	/**
+	 * First run on an existing workspace: claim channel directories that already
+	 * have a log, using the ID shapes adapters produced before the registry existed.
+	 */
+	private migrateLegacy(): void {
+		let dirs: string[];
+		try {
+			dirs = readdirSync(this.workingDir, { withFileTypes: true })
+				.filter((d) => d.isDirectory() && existsSync(join(this.workingDir, d.name, "log.jsonl")))
+				.map((d) => d.name);
+		} catch {
+			return;
+		}
+
+		const firstSeen = new Date().toISOString();
+		for (const channelId of dirs) {
+			const adapter = legacyOwner(channelId);
+			if (adapter) {
+				this.channels.set(channelId, { adapter, firstSeen });
+			}
+		}
+
+		if (this.channels.size > 0) {
+			log.logInfo(`[channels] migrated ${this.channels.size} existing channels into channels.json`);
+		}
+		this.save();
+	}
+}
+
+/** Pre-registry routing by channel ID shape — only used to migrate existing workspaces */
+function legacyOwner(channelId: string): string | undefined {
+	if (channelId === "_heartbeat") return "heartbeat";
+	if (/^-?\d+$/.test(channelId)) return "telegram";
+	if (/^[CDG][A-Z0-9]+$/.test(channelId)) return "slack";
+	if (channelId.startsWith("discord-")) return "discord";
+	if (channelId.startsWith("matrix-")) return "matrix";
+	if (channelId.startsWith("email-")) return "email";
+	if (channelId === "web" || channelId.startsWith("web-")) return "web";
+	return undefined;
+}
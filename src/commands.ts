@@ -1,124 +1,607 @@
 /**
- * Slash command handler for troublemaker.
+ * Slash commands for troublemaker.
  *
- * Intercepts /model (and future commands) at the handler level
- * before the message reaches the agent loop.
+ * Each command declares its name, arguments, flags, help text and the role
+ * needed to run it. Adapters hand command messages to the handler before the
+ * busy check, so commands answer immediately — even mid-run — and never reach
+ * the agent loop.
  */
 
-import { existsSync, readFileSync, writeFileSync } from "fs";
+import { existsSync, readFileSync } from "fs";
+import { readdir, readFile } from "fs/promises";
 import { join } from "path";
+import { type AccessPolicy, hasRole, type Role } from "./access.js";
+import { adapterKey } from "./adapters/instance.js";
 import type { PlatformAdapter } from "./adapters/types.js";
-import { findModel, listModels, resolveModel } from "./model-config.js";
+import type { AgentRunner } from "./agent.js";
+import type { ApprovalGate } from "./approval.js";
+import type { BudgetPolicy } from "./budget.js";
+import { BUSY_MODES, type BusyMode, MomSettingsManager } from "./context.js";
+import { parseEventContent } from "./events.js";
 import * as log from "./log.js";
+import { formatMemoryEntry, getMemoryStore } from "./memory.js";
+import { findModel, listModels, resolveModel } from "./model-config.js";
+import { showsWorkspaceMemory, visibilityOf } from "./visibility.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CommandArg {
+	name: string;
+	required?: boolean;
+	/** Allowed values (matched case-insensitively) */
+	choices?: readonly string[];
+	/** Swallow the rest of the line (last arg only) */
+	rest?: boolean;
+}
+
+export interface SlashCommand {
+	/** Name without the leading slash */
+	name: string;
+	description: string;
+	args?: CommandArg[];
+	/** Accepted flags, e.g. "--global" */
+	flags?: string[];
+	/** Lowest role allowed to run the command */
+	role: Role;
+	run(ctx: CommandContext): Promise<void>;
+}
+
+/** What commands need from the host process (implemented by main.ts) */
+export interface CommandRuntime {
+	workingDir: string;
+	isRunning(channelId: string, thread?: string): boolean;
+	stop(channelId: string, userId: string, platform: PlatformAdapter, thread?: string): Promise<void>;
+	getRunner(channelId: string, platform: PlatformAdapter, thread?: string): AgentRunner;
+	access: AccessPolicy;
+	approvals: ApprovalGate;
+	budget: BudgetPolicy;
+	/** Queue a run that picks up the one a restart interrupted; returns its text, or undefined if there is none */
+	resume(channelId: string, userId: string, platform: PlatformAdapter, thread?: string): string | undefined;
+}
+
+export interface CommandContext {
+	args: Record<string, string | undefined>;
+	flags: Set<string>;
+	channelId: string;
+	/** Thread the command was sent in; commands act on that thread's session */
+	thread?: string;
+	userId: string;
+	platform: PlatformAdapter;
+	runtime: CommandRuntime;
+	reply(text: string): Promise<void>;
+}
+
+// ============================================================================
+// CommandRegistry
+// ============================================================================
+
+export class CommandRegistry {
+	private commands = new Map<string, SlashCommand>();
+
+	constructor(private runtime: CommandRuntime) {}
+
+	register(command: SlashCommand): void {
+		this.commands.set(command.name, command);
+	}
+
+	list(): SlashCommand[] {
+		return Array.from(this.commands.values());
+	}
+
+	get(name: string): SlashCommand | undefined {
+		return this.commands.get(name.replace(/^\//, "").toLowerCase());
+	}
+
+	/** True if text starts with a registered command. Unknown "/foo" goes to the agent. */
+	isCommand(text: string): boolean {
+		return this.parse(text) !== undefined;
+	}
+
+	/**
+	 * Parse, check permissions and run a command. Usage errors and failures are
+	 * reported back to the channel (or thread) rather than thrown.
+	 */
+	async execute(
+		text: string,
+		channelId: string,
+		userId: string,
+		platform: PlatformAdapter,
+		thread?: string,
+	): Promise<void> {
+		const parsed = this.parse(text);
+		if (!parsed) return;
+		const { command, tokens } = parsed;
+		const reply = async (message: string) => {
+			if (thread) {
+				await platform.postInThread(channelId, thread, message);
+			} else {
+				await platform.postMessage(channelId, message);
+			}
+		};
+
+		const role = this.runtime.access.roleOf(userId, channelId);
+		if (!hasRole(role, command.role)) {
+			this.runtime.access.audit({
+				action: "command_denied",
+				adapter: adapterKey(platform),
+				channel: channelId,
+				user: userId,
+				reason: `/${command.name} needs ${command.role}, user is ${role}`,
+			});
+			await reply(`_\`/${command.name}\` needs the ${command.role} role._`);
+			return;
+		}
+
+		const bound = bindArgs(command, tokens);
+		if (typeof bound === "string") {
+			await reply(`${bound}\n\nUsage: \`${usage(command)}\``);
+			return;
+		}
+
+		log.logInfo(`[${channelId}] /${command.name} from ${userId}`);
+		try {
+			await command.run({ ...bound, channelId, thread, userId, platform, runtime: this.runtime, reply });
+		} catch (err) {
+			const errMsg = err instanceof Error ? err.message : String(err);
+			log.logWarning(`[${channelId}] /${command.name} failed`, errMsg);
+			await reply(`_Error: ${errMsg}_`);
+		}
+	}
+
+	private parse(text: string): { command: SlashCommand; tokens: string[] } | undefined {
+		const trimmed = text.trim();
+		if (!trimmed.startsWith("/")) return undefined;
+		const [head, ...tokens] = trimmed.split(/\s+/);
+		// Telegram groups address commands as /status@botname
+		const command = this.get(head.replace(/@.*$/, ""));
+		return command ? { command, tokens } : undefined;
+	}
+}
+
+/** One-line usage, e.g. "/model [--global] [model...]" */
+export function usage(command: SlashCommand): string {
+	const parts = [`/${command.name}`];
+	for (const flag of command.flags ?? []) {
+		parts.push(`[${flag}]`);
+	}
+	for (const arg of command.args ?? []) {
+		const name = arg.choices ? arg.choices.join("|") : `${arg.name}${arg.rest ? "..." : ""}`;
+		parts.push(arg.required ? `<${name}>` : `[${name}]`);
+	}
+	return parts.join(" ");
+}
+
+/** Match tokens against the command's args and flags. Returns an error message on mismatch. */
+function bindArgs(
+	command: SlashCommand,
+	tokens: string[],
+): { args: Record<string, string | undefined>; flags: Set<string> } | string {
+	const flags = new Set<string>();
+	const positional: string[] = [];
+	for (const token of tokens) {
+		if (token.startsWith("--")) {
+			if (!command.flags?.includes(token)) return `Unknown flag: ${token}`;
+			flags.add(token);
+		} else {
+			positional.push(token);
+		}
+	}
+
+	const args: Record<string, string | undefined> = {};
+	const specs = command.args ?? [];
+	for (let i = 0; i < specs.length; i++) {
+		const spec = specs[i];
+		const value = spec.rest ? positional.slice(i).join(" ") || undefined : positional[i];
+		if (value === undefined) {
+			if (spec.required) return `Missing ${spec.name}`;
+			continue;
+		}
+		if (spec.choices) {
+			const choice = spec.choices.find((c) => c.toLowerCase() === value.toLowerCase());
+			if (!choice) return `Unknown ${spec.name}: "${value}" (one of: ${spec.choices.join(", ")})`;
+			args[spec.name] = choice;
+		} else {
+			args[spec.name] = value;
+		}
+	}
+
+	const takesRest = specs.some((spec) => spec.rest);
+	if (!takesRest && positional.length > specs.length) {
+		return `Too many arguments`;
+	}
+
+	return { args, flags };
+}
+
+// ============================================================================
+// Built-in commands
+// ============================================================================
 
 /**
- * Handle a slash command. Returns true if the command was handled.
+ * Create a registry with the built-in commands.
  */
-export async function handleSlashCommand(
-	text: string,
-	channelId: string,
-	workingDir: string,
-	platform: PlatformAdapter,
-): Promise<boolean> {
-	const parts = text.trim().split(/\s+/);
-	const cmd = parts[0].toLowerCase();
-
-	switch (cmd) {
-		case "/model":
-			await handleModelCommand(parts.slice(1), channelId, workingDir, platform);
-			return true;
-		default:
-			return false;
+export function createCommandRegistry(runtime: CommandRuntime): CommandRegistry {
+	const registry = new CommandRegistry(runtime);
+	for (const command of [
+		helpCommand(registry),
+		statusCommand,
+		stopCommand,
+		resumeCommand,
+		resetCommand,
+		compactCommand,
+		memoryCommand,
+		eventsCommand,
+		costCommand,
+		budgetCommand,
+		approveCommand(true),
+		approveCommand(false),
+		modelCommand,
+		thinkCommand,
+		busyCommand,
+	]) {
+		registry.register(command);
 	}
+	return registry;
 }
 
-async function handleModelCommand(
-	args: string[],
-	channelId: string,
-	workingDir: string,
-	platform: PlatformAdapter,
-): Promise<void> {
-	// /model (no args) — show current model
-	if (args.length === 0) {
-		const model = resolveModel(workingDir);
-		const models = listModels(workingDir);
-
-		// Group by provider
-		const byProvider = new Map<string, typeof models>();
-		for (const m of models) {
-			const list = byProvider.get(m.provider) || [];
-			list.push(m);
-			byProvider.set(m.provider, list);
-		}
-
-		let response = `*Current model:* ${model.provider}/${model.id}\n\n`;
-		response += `Use \`/model <name>\` to switch. Examples:\n`;
-		response += `\`/model claude-sonnet-4-6\`\n`;
-		response += `\`/model gpt-5.1\`\n`;
-		response += `\`/model anthropic/claude-opus-4-6\`\n`;
-
-		await platform.postMessage(channelId, response);
-		return;
-	}
+function helpCommand(registry: CommandRegistry): SlashCommand {
+	return {
+		name: "help",
+		description: "List commands, or show help for one",
+		args: [{ name: "command" }],
+		role: "guest",
+		async run(ctx) {
+			if (ctx.args.command) {
+				const command = registry.get(ctx.args.command);
+				if (!command) {
+					await ctx.reply(`Unknown command: ${ctx.args.command}`);
+					return;
+				}
+				await ctx.reply(`\`${usage(command)}\`\n${command.description} _(${command.role})_`);
+				return;
+			}
 
-	// /model list — show all available models
-	if (args[0] === "list") {
-		const models = listModels(workingDir);
-		const currentModel = resolveModel(workingDir);
+			let response = `*Commands:*\n`;
+			for (const command of registry.list()) {
+				const role = command.role === "owner" ? " _(owner)_" : "";
+				response += `\`${usage(command)}\` — ${command.description}${role}\n`;
+			}
+			await ctx.reply(response);
+		},
+	};
+}
 
-		const byProvider = new Map<string, typeof models>();
-		for (const m of models) {
-			const list = byProvider.get(m.provider) || [];
-			list.push(m);
-			byProvider.set(m.provider, list);
+const statusCommand: SlashCommand = {
+	name: "status",
+	description: "Running state, queued events, model and context size",
+	role: "member",
+	async run(ctx) {
+		const running = ctx.runtime.isRunning(ctx.channelId, ctx.thread);
+		const queued = ctx.platform.queueSize?.(ctx.channelId, ctx.thread) ?? 0;
+		const stats = ctx.runtime.getRunner(ctx.channelId, ctx.platform, ctx.thread).getStats();
+
+		let response = `*Status:* ${running ? "working" : "idle"}\n`;
+		response += `Queued events: ${queued}\n`;
+		response += `Model: ${stats.model} (thinking: ${stats.thinkingLevel})\n`;
+		if (stats.contextTokens !== null) {
+			const percent = ((stats.contextTokens / stats.contextWindow) * 100).toFixed(1);
+			response += `Context: ${formatTokens(stats.contextTokens)} / ${formatTokens(stats.contextWindow)} (${percent}%), ${stats.messages} messages`;
+		} else {
+			response += `Context: ${stats.messages} messages`;
 		}
+		await ctx.reply(response);
+	},
+};
+
+const stopCommand: SlashCommand = {
+	name: "stop",
+	description: "Abort the current run",
+	role: "member",
+	async run(ctx) {
+		await ctx.runtime.stop(ctx.channelId, ctx.userId, ctx.platform, ctx.thread);
+	},
+};
 
-		let response = `*Available models:*\n`;
-		for (const [provider, providerModels] of byProvider) {
-			response += `\n*${provider}:*\n`;
-			for (const m of providerModels.slice(0, 10)) {
-				const current = m.provider === currentModel.provider && m.id === currentModel.id ? " ← current" : "";
-				response += `  ${m.id}${current}\n`;
+const resetCommand: SlashCommand = {
+	name: "reset",
+	description: "Archive the conversation and start fresh",
+	role: "owner",
+	async run(ctx) {
+		if (ctx.runtime.isRunning(ctx.channelId, ctx.thread)) {
+			await ctx.reply("_Still working — say `stop` first._");
+			return;
+		}
+		const archivePath = await ctx.runtime.getRunner(ctx.channelId, ctx.platform, ctx.thread).reset();
+		const relative = archivePath.slice(join(ctx.runtime.workingDir, ctx.channelId).length + 1);
+		await ctx.reply(`Started a fresh conversation. The old context is in \`${relative}\`.`);
+	},
+};
+
+const compactCommand: SlashCommand = {
+	name: "compact",
+	description: "Summarize older context now",
+	role: "member",
+	async run(ctx) {
+		if (ctx.runtime.isRunning(ctx.channelId, ctx.thread)) {
+			await ctx.reply("_Still working — try again when the run finishes._");
+			return;
+		}
+		await ctx.reply("_Compacting..._");
+		const { tokensBefore } = await ctx.runtime.getRunner(ctx.channelId, ctx.platform, ctx.thread).compact();
+		await ctx.reply(`Compacted ${formatTokens(tokensBefore)} tokens of context into a summary.`);
+	},
+};
+
+const memoryCommand: SlashCommand = {
+	name: "memory",
+	description: "Show workspace and channel MEMORY.md, or search memory entries",
+	args: [{ name: "query", rest: true }],
+	role: "member",
+	async run(ctx) {
+		const store = getMemoryStore(ctx.runtime.workingDir);
+		const sections: string[] = [];
+		if (ctx.args.query) {
+			const matches = store.search(ctx.args.query, ctx.channelId, 20);
+			sections.push(
+				matches.length > 0
+					? matches.map(({ entry }) => formatMemoryEntry(entry)).join("\n")
+					: `No memory entries match "${ctx.args.query}".`,
+			);
+		} else {
+			const files: [string, string][] = [["Channel memory", join(ctx.runtime.workingDir, ctx.channelId, "MEMORY.md")]];
+			// Same rule as the system prompt: the workspace file only shows where its label reaches
+			if (showsWorkspaceMemory(ctx.channelId)) {
+				files.unshift(["Workspace memory", join(ctx.runtime.workingDir, "MEMORY.md")]);
+			} else {
+				sections.push(`*Workspace memory:*\n_Not shown in ${visibilityOf(ctx.channelId)} channels._`);
 			}
-			if (providerModels.length > 10) {
-				response += `  _(${providerModels.length - 10} more)_\n`;
+			for (const [title, path] of files) {
+				const content = existsSync(path) ? readFileSync(path, "utf-8").trim() : "";
+				sections.push(`*${title}:*\n${content || "_(empty)_"}`);
 			}
+			sections.push(`_${store.list(ctx.channelId).length} memory entries — \`/memory <words>\` searches them._`);
 		}
 
-		await platform.postMessage(channelId, response);
-		return;
-	}
+		let response = sections.join("\n\n");
+		const limit = ctx.platform.maxMessageLength;
+		if (response.length > limit) {
+			response = `${response.substring(0, limit - 20)}\n_(truncated)_`;
+		}
+		await ctx.reply(response);
+	},
+};
 
-	// /model <query> — switch model
-	const query = args.join(" ");
-	const match = findModel(query, workingDir);
+const eventsCommand: SlashCommand = {
+	name: "events",
+	description: "List scheduled events for this channel",
+	role: "member",
+	async run(ctx) {
+		const eventsDir = join(ctx.runtime.workingDir, "events");
+		const files = existsSync(eventsDir) ? (await readdir(eventsDir)).filter((f) => f.endsWith(".json")).sort() : [];
 
-	if (!match) {
-		await platform.postMessage(
-			channelId,
-			`Model not found: "${query}"\n\nUse \`/model list\` to see available models.`,
-		);
-		return;
-	}
+		const lines: string[] = [];
+		for (const file of files) {
+			const event = parseEventContent(await readFile(join(eventsDir, file), "utf-8"));
+			if (!event || event.channelId !== ctx.channelId) continue;
+			const when =
+				event.type === "periodic"
+					? `\`${event.schedule}\` (${event.timezone})`
+					: event.type === "one-shot"
+						? event.at
+						: "now";
+			lines.push(`\`${file}\` — ${event.type}, ${when}: ${truncate(event.text, 80)}`);
+		}
 
-	// Write to settings.json
-	const settingsPath = join(workingDir, "settings.json");
-	let settings: Record<string, unknown> = {};
-	if (existsSync(settingsPath)) {
-		try {
-			settings = JSON.parse(readFileSync(settingsPath, "utf-8"));
-		} catch {
-			// Start fresh
+		await ctx.reply(lines.length > 0 ? `*Scheduled events:*\n${lines.join("\n")}` : "_No scheduled events for this channel._");
+	},
+};
+
+const costCommand: SlashCommand = {
+	name: "cost",
+	description: "Token usage and cost of the current session",
+	role: "member",
+	async run(ctx) {
+		const { tokens, cost } = ctx.runtime.getRunner(ctx.channelId, ctx.platform, ctx.thread).getStats();
+		let response = `*Session usage*\n`;
+		response += `Tokens: ${tokens.input.toLocaleString()} in, ${tokens.output.toLocaleString()} out\n`;
+		if (tokens.cacheRead > 0 || tokens.cacheWrite > 0) {
+			response += `Cache: ${tokens.cacheRead.toLocaleString()} read, ${tokens.cacheWrite.toLocaleString()} write\n`;
 		}
-	}
+		response += `*Total: $${cost.toFixed(4)}*`;
+		await ctx.reply(response);
+	},
+};
+
+const budgetCommand: SlashCommand = {
+	name: "budget",
+	description: "Spending limits and what's left of them",
+	role: "member",
+	async run(ctx) {
+		await ctx.reply(`*Budget*\n${ctx.runtime.budget.describe(ctx.channelId, ctx.userId)}`);
+	},
+};
+
+/** /approve and /deny — text fallback for platforms without approval buttons */
+function approveCommand(approved: boolean): SlashCommand {
+	return {
+		name: approved ? "approve" : "deny",
+		description: approved ? "Let a held tool call run" : "Refuse a held tool call",
+		args: [{ name: "id", required: true }],
+		role: "member",
+		async run(ctx) {
+			await ctx.reply(ctx.runtime.approvals.resolve(ctx.args.id!, ctx.channelId, approved, ctx.userId));
+		},
+	};
+}
+
+const modelCommand: SlashCommand = {
+	name: "model",
+	description: "Show, list or switch the model",
+	args: [{ name: "model", rest: true }],
+	flags: ["--global"],
+	role: "member",
+	async run(ctx) {
+		const { workingDir } = ctx.runtime;
+		// --global targets the workspace default instead of this channel
+		const global = ctx.flags.has("--global");
+		const scopeChannel = global ? undefined : ctx.channelId;
+		const query = ctx.args.model;
+
+		// /model (no args) — show current model
+		if (!query) {
+			const model = resolveModel(workingDir, undefined, scopeChannel);
+			let response = global
+				? `*Workspace default model:* ${model.provider}/${model.id}\n\n`
+				: `*Current model:* ${model.provider}/${model.id}\n\n`;
+			response += `Use \`/model <name>\` to switch this channel, \`/model --global <name>\` for all channels. Examples:\n`;
+			response += `\`/model claude-sonnet-4-6\`\n`;
+			response += `\`/model gpt-5.1\`\n`;
+			response += `\`/model anthropic/claude-opus-4-6\`\n`;
+			await ctx.reply(response);
+			return;
+		}
+
+		// /model list — show all available models
+		if (query === "list") {
+			const models = listModels(workingDir);
+			const currentModel = resolveModel(workingDir, undefined, scopeChannel);
+
+			const byProvider = new Map<string, typeof models>();
+			for (const m of models) {
+				const list = byProvider.get(m.provider) || [];
+				list.push(m);
+				byProvider.set(m.provider, list);
+			}
+
+			let response = `*Available models:*\n`;
+			for (const [provider, providerModels] of byProvider) {
+				response += `\n*${provider}:*\n`;
+				for (const m of providerModels.slice(0, 10)) {
+					const current = m.provider === currentModel.provider && m.id === currentModel.id ? " ← current" : "";
+					response += `  ${m.id}${current}\n`;
+				}
+				if (providerModels.length > 10) {
+					response += `  _(${providerModels.length - 10} more)_\n`;
+				}
+			}
+
+			await ctx.reply(response);
+			return;
+		}
+
+		// /model <query> — switch model
+		const match = findModel(query, workingDir);
+		if (!match) {
+			await ctx.reply(`Model not found: "${query}"\n\nUse \`/model list\` to see available models.`);
+			return;
+		}
+
+		// Write to <channel>/settings.json, or the workspace settings.json with --global
+		const settings = new MomSettingsManager(workingDir, scopeChannel && join(workingDir, scopeChannel));
+		settings.setDefaultModelAndProvider(match.provider, match.id);
+
+		log.logInfo(`Model switched to ${match.provider}/${match.id} for ${scopeChannel ?? "workspace"} via /model command`);
+
+		let response = global
+			? `Switched the workspace default to *${match.provider}/${match.id}*\n_(takes effect on next message)_`
+			: `Switched this channel to *${match.provider}/${match.id}*\n_(takes effect on next message)_`;
+		if (global) {
+			// A channel override (settings.json or config file) still wins here
+			const channelModel = resolveModel(workingDir, undefined, ctx.channelId);
+			if (channelModel.provider !== match.provider || channelModel.id !== match.id) {
+				response += `\n_This channel keeps its own model: ${channelModel.provider}/${channelModel.id}_`;
+			}
+		}
+		await ctx.reply(response);
+	},
+};
+
+const THINKING_LEVELS = ["off", "minimal", "low", "medium", "high"] as const;
 
-	settings.defaultProvider = match.provider;
-	settings.defaultModel = match.id;
-	writeFileSync(settingsPath, JSON.stringify(settings, null, 2), "utf-8");
+const thinkCommand: SlashCommand = {
+	name: "think",
+	description: "Show or set the thinking level",
+	args: [{ name: "level", choices: THINKING_LEVELS }],
+	flags: ["--global"],
+	role: "member",
+	async run(ctx) {
+		const { workingDir } = ctx.runtime;
+		// --global targets the workspace default instead of this channel
+		const global = ctx.flags.has("--global");
+		const settings = new MomSettingsManager(workingDir, global ? undefined : join(workingDir, ctx.channelId));
+		const level = ctx.args.level;
+
+		// /think (no args) — show current level
+		if (!level) {
+			const scope = global ? "Workspace default thinking level" : "Thinking level";
+			await ctx.reply(
+				`*${scope}:* ${settings.getDefaultThinkingLevel()}\n\nUse \`/think ${THINKING_LEVELS.join("|")}\` to change it.`,
+			);
+			return;
+		}
+
+		settings.setDefaultThinkingLevel(level);
+		log.logInfo(`Thinking level set to ${level} for ${global ? "workspace" : ctx.channelId} via /think command`);
+		await ctx.reply(`Thinking level set to *${level}*${global ? " for all channels" : ""}\n_(takes effect on next message)_`);
+	},
+};
+
+const resumeCommand: SlashCommand = {
+	name: "resume",
+	description: "Pick up the request a restart interrupted",
+	role: "member",
+	async run(ctx) {
+		const text = ctx.runtime.resume(ctx.channelId, ctx.userId, ctx.platform, ctx.thread);
+		if (!text) {
+			await ctx.reply("_Nothing to resume here._");
+			return;
+		}
+		await ctx.reply(`_Resuming: ${truncate(text, 100)}_`);
+	},
+};
+
+const busyCommand: SlashCommand = {
+	name: "busy",
+	description: "Show or set what happens to messages sent mid-run",
+	args: [{ name: "mode", choices: BUSY_MODES }],
+	flags: ["--global"],
+	role: "member",
+	async run(ctx) {
+		const { workingDir } = ctx.runtime;
+		const global = ctx.flags.has("--global");
+		const settings = new MomSettingsManager(workingDir, global ? undefined : join(workingDir, ctx.channelId));
+		const mode = ctx.args.mode;
+
+		if (!mode) {
+			const scope = global ? "Workspace default busy mode" : "Busy mode";
+			await ctx.reply(
+				`*${scope}:* ${settings.getBusyMode()}\n` +
+					"• `steer` — hand the message to the agent after its current tool call\n" +
+					"• `followUp` — answer it once the current task is done\n" +
+					"• `reject` — say it's already working",
+			);
+			return;
+		}
+
+		settings.setBusyMode(mode as BusyMode);
+		log.logInfo(`Busy mode set to ${mode} for ${global ? "workspace" : ctx.channelId} via /busy command`);
+		await ctx.reply(`Busy mode set to *${mode}*${global ? " for all channels" : ""}`);
+	},
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function formatTokens(count: number): string {
+	if (count < 1000) return count.toString();
+	if (count < 10000) return `${(count / 1000).toFixed(1)}k`;
+	if (count < 1000000) return `${Math.round(count / 1000)}k`;
+	return `${(count / 1000000).toFixed(1)}M`;
+}
 
-	log.logInfo(`Model switched to ${match.provider}/${match.id} via /model command`);
-	await platform.postMessage(
-		channelId,
-		`Switched to *${match.provider}/${match.id}*\n_(takes effect on next message)_`,
-	);
+function truncate(text: string, maxLen: number): string {
+	return text.length > maxLen ? `${text.substring(0, maxLen - 3)}...` : text;
 }
@@ -0,0 +1,565 @@
+import { type Static, Type } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import { existsSync, readFileSync } from "fs";
+import { dirname, resolve } from "path";
+
+// ============================================================================
+// troublemaker.config.json — declarative startup config
+// ============================================================================
+//
+// Describes adapters, gateway port, sandbox, extra skills dirs, model defaults,
+// access and approval policies, and per-channel overrides in one file. String values may reference env vars
+// as ${VAR} so secrets stay out of the file. The file lives outside the
+// working directory on purpose — the agent can read everything in there.
+//
+// Precedence: CLI flags > config file > MOM_* env vars > built-in defaults.
+
+export const CONFIG_FILENAME = "troublemaker.config.json";
+
+/** Thrown for anything wrong with startup configuration — main.ts prints it and exits */
+export class ConfigError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ConfigError";
+	}
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const ADAPTER_TYPES = [
+	"slack:socket",
+	"slack:webhook",
+	"telegram:polling",
+	"telegram:webhook",
+	"discord:gateway",
+	"discord:interactions",
+	"matrix:sync",
+	"matrix:appservice",
+	"email:webhook",
+	"web",
+] as const;
+
+export type AdapterType = (typeof ADAPTER_TYPES)[number];
+
+/** Short names accepted on the CLI and in the config file */
+const ADAPTER_ALIASES: Record<string, AdapterType> = {
+	slack: "slack:socket",
+	telegram: "telegram:polling",
+	discord: "discord:gateway",
+	matrix: "matrix:sync",
+};
+
+const ModelRefSchema = Type.Object(
+	{
+		provider: Type.Optional(Type.String({ minLength: 1 })),
+		id: Type.String({ minLength: 1 }),
+	},
+	{ additionalProperties: false },
+);
+
+const AdapterSchema = Type.Object(
+	{
+		/** Checked against ADAPTER_TYPES after validation, for a clearer error than a union mismatch */
+		type: Type.String(),
+		instance: Type.Optional(Type.String({ pattern: "^[a-zA-Z0-9][a-zA-Z0-9_-]*$" })),
+		appToken: Type.Optional(Type.String()),
+		botToken: Type.Optional(Type.String()),
+		signingSecret: Type.Optional(Type.String()),
+		webhookUrl: Type.Optional(Type.String()),
+		webhookSecret: Type.Optional(Type.String()),
+		skipWebhookRegistration: Type.Optional(Type.Boolean()),
+		publicKey: Type.Optional(Type.String()),
+		homeserverUrl: Type.Optional(Type.String()),
+		accessToken: Type.Optional(Type.String()),
+		asToken: Type.Optional(Type.String()),
+		hsToken: Type.Optional(Type.String()),
+		toolsToken: Type.Optional(Type.String()),
+		sendUrl: Type.Optional(Type.String()),
+	},
+	{ additionalProperties: false },
+);
+
+const RoleSchema = Type.String({ pattern: "^(owner|member|guest)$" });
+
+const VisibilityLabelSchema = Type.String({ pattern: "^(private|team|public)$" });
+
+/** Tools the access policy can withhold */
+const ToolNameSchema = Type.String({ pattern: "^(read|bash|edit|write|attach|send_message|remember|recall|forget|search_history)$" });
+
+/** Spending caps for one scope; periods are UTC days and months */
+const BudgetLimitsSchema = Type.Object(
+	{
+		/** US dollars */
+		dailyCost: Type.Optional(Type.Number({ minimum: 0 })),
+		monthlyCost: Type.Optional(Type.Number({ minimum: 0 })),
+		/** Input + output tokens */
+		dailyTokens: Type.Optional(Type.Integer({ minimum: 0 })),
+		monthlyTokens: Type.Optional(Type.Integer({ minimum: 0 })),
+	},
+	{ additionalProperties: false },
+);
+
+const ChannelOverrideSchema = Type.Object(
+	{
+		model: Type.Optional(ModelRefSchema),
+		/** User ID → role in this channel */
+		roles: Type.Optional(Type.Record(Type.String(), RoleSchema)),
+		defaultRole: Type.Optional(RoleSchema),
+		/** Replaces `budget.channel` for this channel */
+		budget: Type.Optional(BudgetLimitsSchema),
+		/** Replaces `visibility.default` for this channel */
+		visibility: Type.Optional(VisibilityLabelSchema),
+	},
+	{ additionalProperties: false },
+);
+
+const UserListSchema = Type.Object(
+	{
+		allow: Type.Optional(Type.Array(Type.String())),
+		deny: Type.Optional(Type.Array(Type.String())),
+	},
+	{ additionalProperties: false },
+);
+
+const AccessSchema = Type.Object(
+	{
+		/** Keyed by adapter instance ("slack", "telegram@beta") */
+		adapters: Type.Optional(Type.Record(Type.String(), UserListSchema)),
+		/** User ID → role in every channel */
+		roles: Type.Optional(Type.Record(Type.String(), RoleSchema)),
+		defaultRole: Type.Optional(RoleSchema),
+		/** Tools withheld from each role */
+		tools: Type.Optional(
+			Type.Object(
+				{
+					owner: Type.Optional(Type.Array(ToolNameSchema)),
+					member: Type.Optional(Type.Array(ToolNameSchema)),
+					guest: Type.Optional(Type.Array(ToolNameSchema)),
+				},
+				{ additionalProperties: false },
+			),
+		),
+	},
+	{ additionalProperties: false },
+);
+
+const ApprovalSchema = Type.Object(
+	{
+		/** Regexes matched against bash commands */
+		bash: Type.Optional(Type.Array(Type.String())),
+		/** Regexes matched against write/edit paths */
+		paths: Type.Optional(Type.Array(Type.String())),
+		/** Regexes matched against send_message channel IDs */
+		recipients: Type.Optional(Type.Array(Type.String())),
+		timeoutSeconds: Type.Optional(Type.Integer({ minimum: 1 })),
+	},
+	{ additionalProperties: false },
+);
+
+const QueueSchema = Type.Object(
+	{
+		/** Scheduled events that may wait behind a channel's current run */
+		depth: Type.Optional(Type.Integer({ minimum: 1 })),
+	},
+	{ additionalProperties: false },
+);
+
+const BudgetSchema = Type.Object(
+	{
+		workspace: Type.Optional(BudgetLimitsSchema),
+		/** Applies to each channel on its own */
+		channel: Type.Optional(BudgetLimitsSchema),
+		/** Applies to each user on their own */
+		user: Type.Optional(BudgetLimitsSchema),
+		/** User ID → limits replacing `user` */
+		users: Type.Optional(Type.Record(Type.String(), BudgetLimitsSchema)),
+	},
+	{ additionalProperties: false },
+);
+
+/** Applies to user messages whose text is within (maxLength) or beyond (minLength) a size */
+const LengthRouteSchema = Type.Object(
+	{
+		minLength: Type.Optional(Type.Integer({ minimum: 0 })),
+		maxLength: Type.Optional(Type.Integer({ minimum: 0 })),
+		model: ModelRefSchema,
+	},
+	{ additionalProperties: false },
+);
+
+const RoutingSchema = Type.Object(
+	{
+		/** Scheduled event runs ([EVENT:...]) */
+		events: Type.Optional(ModelRefSchema),
+		/** Heartbeat runs */
+		heartbeat: Type.Optional(ModelRefSchema),
+		/** User messages by length; the first matching entry wins */
+		messages: Type.Optional(Type.Array(LengthRouteSchema)),
+		/** Used when a message has images and the picked model can't read them */
+		vision: Type.Optional(ModelRefSchema),
+	},
+	{ additionalProperties: false },
+);
+
+const VisibilitySchema = Type.Object(
+	{
+		/** Label for channels without their own (default team) */
+		default: Type.Optional(VisibilityLabelSchema),
+		/** Label of the workspace MEMORY.md (default team) */
+		workspaceMemory: Type.Optional(VisibilityLabelSchema),
+	},
+	{ additionalProperties: false },
+);
+
+const LogSchema = Type.Object(
+	{
+		format: Type.Optional(Type.String({ pattern: "^(pretty|json)$" })),
+		level: Type.Optional(Type.String({ pattern: "^(debug|info|warn|error)$" })),
+	},
+	{ additionalProperties: false },
+);
+
+const TracingSchema = Type.Object(
+	{
+		/** OTLP/HTTP base URL — spans go to <endpoint>/v1/traces */
+		endpoint: Type.Optional(Type.String()),
+		serviceName: Type.Optional(Type.String()),
+		/** Extra request headers, e.g. collector auth */
+		headers: Type.Optional(Type.Record(Type.String(), Type.String())),
+	},
+	{ additionalProperties: false },
+);
+
+const ConfigSchema = Type.Object(
+	{
+		workingDir: Type.Optional(Type.String()),
+		port: Type.Optional(Type.Integer({ minimum: 1, maximum: 65535 })),
+		sandbox: Type.Optional(Type.String({ pattern: "^(host|docker:.+)$" })),
+		skills: Type.Optional(Type.Array(Type.String())),
+		adapters: Type.Optional(Type.Array(AdapterSchema)),
+		model: Type.Optional(ModelRefSchema),
+		channels: Type.Optional(Type.Record(Type.String(), ChannelOverrideSchema)),
+		access: Type.Optional(AccessSchema),
+		approval: Type.Optional(ApprovalSchema),
+		queue: Type.Optional(QueueSchema),
+		budget: Type.Optional(BudgetSchema),
+		routing: Type.Optional(RoutingSchema),
+		visibility: Type.Optional(VisibilitySchema),
+		log: Type.Optional(LogSchema),
+		tracing: Type.Optional(TracingSchema),
+	},
+	{ additionalProperties: false },
+);
+
+export type AdapterEntry = Static<typeof AdapterSchema> & { type: AdapterType };
+export type ModelRef = Static<typeof ModelRefSchema>;
+export type ChannelOverride = Static<typeof ChannelOverrideSchema>;
+export type AccessConfig = Static<typeof AccessSchema>;
+export type ApprovalConfig = Static<typeof ApprovalSchema>;
+export type BudgetLimits = Static<typeof BudgetLimitsSchema>;
+export type BudgetConfig = Static<typeof BudgetSchema>;
+export type RoutingConfig = Static<typeof RoutingSchema>;
+export type VisibilityConfig = Static<typeof VisibilitySchema>;
+export type TroublemakerConfig = Static<typeof ConfigSchema> & { adapters?: AdapterEntry[] };
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Config file to use: --config wins, otherwise troublemaker.config.json in the
+ * current directory if present.
+ */
+export function findConfigFile(explicit?: string): string | undefined {
+	if (explicit) return resolve(explicit);
+	const local = resolve(CONFIG_FILENAME);
+	return existsSync(local) ? local : undefined;
+}
+
+/**
+ * Read, interpolate and validate a config file. Relative paths (workingDir,
+ * skills) resolve against the file's directory.
+ */
+export function loadConfig(path: string): TroublemakerConfig {
+	if (!existsSync(path)) {
+		throw new ConfigError(`${path}: file not found`);
+	}
+
+	let raw: unknown;
+	try {
+		raw = JSON.parse(readFileSync(path, "utf-8"));
+	} catch (err) {
+		throw new ConfigError(`${path}: invalid JSON (${err instanceof Error ? err.message : String(err)})`);
+	}
+
+	const missingVars = new Set<string>();
+	const data = interpolate(raw, missingVars);
+	if (missingVars.size > 0) {
+		throw new ConfigError(`${path}: undefined env vars: ${Array.from(missingVars).join(", ")}`);
+	}
+
+	if (!Value.Check(ConfigSchema, data)) {
+		const problems = Array.from(Value.Errors(ConfigSchema, data))
+			.slice(0, 10)
+			.map((e) => `  ${e.path || "/"}: ${e.message}`);
+		throw new ConfigError(`${path}: invalid config\n${problems.join("\n")}`);
+	}
+
+	const baseDir = dirname(path);
+	const config = data as TroublemakerConfig;
+	if (config.workingDir) config.workingDir = resolve(baseDir, config.workingDir);
+	if (config.skills) config.skills = config.skills.map((dir) => resolve(baseDir, dir));
+	if (config.adapters) {
+		config.adapters = config.adapters.map((entry, i) => {
+			const type = adapterType(entry.type);
+			if (!type) throw new ConfigError(`${path}: /adapters/${i}/type: ${unknownAdapter(entry.type)}`);
+			return { ...entry, type };
+		});
+	}
+	for (const key of ["bash", "paths", "recipients"] as const) {
+		config.approval?.[key]?.forEach((pattern, i) => {
+			try {
+				new RegExp(pattern);
+			} catch (err) {
+				throw new ConfigError(`${path}: /approval/${key}/${i}: ${err instanceof Error ? err.message : String(err)}`);
+			}
+		});
+	}
+	return config;
+}
+
+/** Replace ${VAR} in every string value with the env var's value */
+function interpolate(value: unknown, missing: Set<string>): unknown {
+	if (typeof value === "string") {
+		return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name: string) => {
+			const envValue = process.env[name];
+			if (envValue === undefined) {
+				missing.add(name);
+				return "";
+			}
+			return envValue;
+		});
+	}
+	if (Array.isArray(value)) {
+		return value.map((v) => interpolate(v, missing));
+	}
+	if (value && typeof value === "object") {
+		return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, interpolate(v, missing)]));
+	}
+	return value;
+}
+
+// ============================================================================
+// Channel overrides
+// ============================================================================
+
+/** Telegram forum topic channel: "<chat_id>_<message_thread_id>", plus "@<instance>" if named */
+const TOPIC_CHANNEL = /^(-?\d+)_\d+(@.+)?$/;
+
+/**
+ * A channel's entry in `channels`. A Telegram forum topic without an entry of
+ * its own gets its chat's, so a topic keeps the chat's roles, model and labels.
+ */
+export function channelOverride(
+	channels: Record<string, ChannelOverride>,
+	channelId: string,
+): ChannelOverride | undefined {
+	if (channels[channelId]) return channels[channelId];
+	const topic = TOPIC_CHANNEL.exec(channelId);
+	return topic ? channels[`${topic[1]}${topic[2] ?? ""}`] : undefined;
+}
+
+// ============================================================================
+// Adapters
+// ============================================================================
+
+type AdapterField = Exclude<keyof AdapterEntry, "type" | "instance">;
+
+interface AdapterSpec {
+	/** MOM_* env var each setting falls back to when the config leaves it out */
+	env: Partial<Record<AdapterField, string>>;
+	required: AdapterField[];
+	/** Settings that are shared by every instance — their env vars take no suffix */
+	shared?: AdapterField[];
+	/** Whether several named instances can run side by side */
+	instances: boolean;
+}
+
+const ADAPTER_SPECS: Record<AdapterType, AdapterSpec> = {
+	"slack:socket": {
+		env: { appToken: "MOM_SLACK_APP_TOKEN", botToken: "MOM_SLACK_BOT_TOKEN" },
+		required: ["appToken", "botToken"],
+		instances: true,
+	},
+	"slack:webhook": {
+		env: { botToken: "MOM_SLACK_BOT_TOKEN", signingSecret: "MOM_SLACK_SIGNING_SECRET" },
+		required: ["botToken", "signingSecret"],
+		instances: true,
+	},
+	"telegram:polling": {
+		env: { botToken: "MOM_TELEGRAM_BOT_TOKEN" },
+		required: ["botToken"],
+		instances: true,
+	},
+	"telegram:webhook": {
+		env: {
+			botToken: "MOM_TELEGRAM_BOT_TOKEN",
+			webhookUrl: "MOM_TELEGRAM_WEBHOOK_URL",
+			webhookSecret: "MOM_TELEGRAM_WEBHOOK_SECRET",
+			skipWebhookRegistration: "MOM_SKIP_WEBHOOK_REGISTRATION",
+		},
+		required: ["botToken", "webhookSecret"],
+		shared: ["skipWebhookRegistration"],
+		instances: true,
+	},
+	"discord:gateway": {
+		env: { botToken: "MOM_DISCORD_BOT_TOKEN" },
+		required: ["botToken"],
+		instances: true,
+	},
+	"discord:interactions": {
+		env: { botToken: "MOM_DISCORD_BOT_TOKEN", publicKey: "MOM_DISCORD_PUBLIC_KEY" },
+		required: ["botToken", "publicKey"],
+		instances: true,
+	},
+	"matrix:sync": {
+		env: { homeserverUrl: "MOM_MATRIX_HOMESERVER_URL", accessToken: "MOM_MATRIX_ACCESS_TOKEN" },
+		required: ["homeserverUrl", "accessToken"],
+		instances: true,
+	},
+	"matrix:appservice": {
+		env: { homeserverUrl: "MOM_MATRIX_HOMESERVER_URL", asToken: "MOM_MATRIX_AS_TOKEN", hsToken: "MOM_MATRIX_HS_TOKEN" },
+		required: ["homeserverUrl", "asToken", "hsToken"],
+		instances: true,
+	},
+	"email:webhook": {
+		env: { toolsToken: "MOM_EMAIL_TOOLS_TOKEN", sendUrl: "MOM_EMAIL_SEND_URL" },
+		required: ["toolsToken"],
+		instances: false,
+	},
+	web: {
+		env: {},
+		required: [],
+		instances: false,
+	},
+};
+
+/** "slack:socket" or "slack:socket@acme" — also the duplicate-detection key */
+export function adapterLabel(entry: AdapterEntry): string {
+	return entry.instance ? `${entry.type}@${entry.instance}` : entry.type;
+}
+
+function adapterType(name: string): AdapterType | undefined {
+	return ADAPTER_ALIASES[name] ?? ADAPTER_TYPES.find((t) => t === name);
+}
+
+function unknownAdapter(name: string): string {
+	const known = [...Object.keys(ADAPTER_ALIASES), ...ADAPTER_TYPES].map((t) => `'${t}'`).join(", ");
+	return `Unknown adapter: ${name}. Use ${known}.`;
+}
+
+/** Parse a CLI adapter spec ("slack", "telegram:webhook@beta") into a config entry */
+export function parseAdapterSpec(spec: string): AdapterEntry {
+	const [name, instance] = spec.split("@");
+	const type = adapterType(name);
+	if (!type) {
+		throw new ConfigError(unknownAdapter(name));
+	}
+	if (instance !== undefined && !/^[a-z0-9][a-z0-9_-]*$/i.test(instance)) {
+		throw new ConfigError(`Invalid adapter instance name in '${spec}' (use letters, digits, - or _)`);
+	}
+	return { type, instance };
+}
+
+/**
+ * Fill settings the entry leaves out from MOM_* env vars and check that every
+ * required setting is present. Named instances read suffixed env vars:
+ * MOM_SLACK_BOT_TOKEN → MOM_SLACK_BOT_TOKEN_ACME.
+ */
+export function resolveAdapterEntry(entry: AdapterEntry): AdapterEntry {
+	const spec = ADAPTER_SPECS[entry.type];
+	const label = adapterLabel(entry);
+	if (entry.instance && !spec.instances) {
+		throw new ConfigError(`Adapter '${entry.type}' does not support named instances`);
+	}
+
+	const envName = (field: AdapterField): string | undefined => {
+		const key = spec.env[field];
+		if (!key || !entry.instance || spec.shared?.includes(field)) return key;
+		return `${key}_${entry.instance.toUpperCase().replace(/-/g, "_")}`;
+	};
+
+	const resolved: AdapterEntry = { ...entry };
+	const settings = resolved as Record<string, unknown>;
+	for (const field of Object.keys(spec.env) as AdapterField[]) {
+		if (settings[field] !== undefined) continue;
+		const value = process.env[envName(field)!];
+		if (!value) continue;
+		settings[field] = field === "skipWebhookRegistration" ? true : value;
+	}
+
+	const missing = spec.required.filter((field) => !settings[field]);
+	if (resolved.type === "telegram:webhook" && !resolved.skipWebhookRegistration && !resolved.webhookUrl) {
+		missing.push("webhookUrl");
+	}
+	if (missing.length > 0) {
+		const details = missing.map((field) => `${field} (${envName(field)})`).join(", ");
+		throw new ConfigError(`Adapter '${label}' is missing ${details}`);
+	}
+	return resolved;
+}
+
+// ============================================================================
+// `troublemaker config` subcommand
+// ============================================================================
+
+/** `config validate [path]` — load the file and check every adapter. Returns the exit code. */
+export function runConfigCommand(args: string[]): number {
+	const [subcommand, explicitPath] = args;
+	if (subcommand !== "validate") {
+		console.error("Usage: troublemaker config validate [<file>]");
+		return 1;
+	}
+
+	const path = findConfigFile(explicitPath);
+	if (!path) {
+		console.error(`No ${CONFIG_FILENAME} in ${process.cwd()} (pass a path to validate another file)`);
+		return 1;
+	}
+
+	let config: TroublemakerConfig;
+	try {
+		config = loadConfig(path);
+	} catch (err) {
+		console.error(err instanceof Error ? err.message : String(err));
+		return 1;
+	}
+
+	// Report every broken adapter, not just the first
+	const errors: string[] = [];
+	const adapters = config.adapters ?? [];
+	const labels = adapters.map(adapterLabel);
+	labels.forEach((label, i) => {
+		if (labels.indexOf(label) !== i) errors.push(`Adapter '${label}' specified more than once`);
+	});
+	for (const entry of adapters) {
+		try {
+			resolveAdapterEntry(entry);
+		} catch (err) {
+			errors.push(err instanceof Error ? err.message : String(err));
+		}
+	}
+
+	if (errors.length > 0) {
+		console.error(`${path}: invalid config`);
+		for (const error of errors) console.error(`  ${error}`);
+		return 1;
+	}
+
+	const summary = adapters.length > 0 ? labels.join(", ") : "none (auto-detect from env)";
+	console.log(`${path}: OK`);
+	console.log(`  adapters: ${summary}`);
+	return 0;
+}
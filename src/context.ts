@@ -5,8 +5,13 @@
  * - context.jsonl: Structured API messages for LLM context (same format as coding-agent sessions)
  * - log.jsonl: Human-readable channel history for grep (no tool results)
  *
+ * A Slack thread the agent is mentioned in gets a session of its own,
+ * threads/<thread_ts>.jsonl, next to context.jsonl. Its messages share
+ * log.jsonl, tagged with the thread.
+ *
  * This module provides:
  * - syncLogToSessionManager: Syncs messages from log.jsonl to SessionManager
+ * - sessionKey / sessionFilePath: Where a channel's or thread's session lives
  * - MomSettingsManager: Simple settings for mom (compaction, retry, model preferences)
  */
 
@@ -15,6 +20,20 @@ import type { SessionManager, SessionMessageEntry } from "@mariozechner/pi-codin
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import { dirname, join } from "path";
 
+// ============================================================================
+// Sessions — one per channel, plus one per thread
+// ============================================================================
+
+/** Key for runners and run state: the channel ID, or "<channel>:<thread_ts>" for a thread session */
+export function sessionKey(channelId: string, thread?: string): string {
+	return thread ? `${channelId}:${thread}` : channelId;
+}
+
+/** Session file of a channel (context.jsonl) or of one of its threads (threads/<thread_ts>.jsonl) */
+export function sessionFilePath(channelDir: string, thread?: string): string {
+	return thread ? join(channelDir, "threads", `${thread}.jsonl`) : join(channelDir, "context.jsonl");
+}
+
 // ============================================================================
 // Sync log.jsonl to SessionManager
 // ============================================================================
@@ -26,6 +45,7 @@ interface LogMessage {
 	userName?: string;
 	text?: string;
 	isBot?: boolean;
+	thread?: string;
 }
 
 /**
@@ -34,20 +54,29 @@ interface LogMessage {
  * This ensures that messages logged while mom wasn't running (channel chatter,
  * backfilled messages, messages while busy) are added to the LLM context.
  *
+ * A channel session gets the messages outside threads; a thread session gets
+ * the thread's replies and the message that started it.
+ *
  * @param sessionManager - The SessionManager to sync to
  * @param channelDir - Path to channel directory containing log.jsonl
  * @param excludeTs - Timestamp of current message (will be added via prompt(), not sync)
+ * @param thread - Thread root timestamp, when syncing a thread session
  * @returns Number of messages synced
  */
 export function syncLogToSessionManager(
 	sessionManager: SessionManager,
 	channelDir: string,
 	excludeTs?: string,
+	thread?: string,
 ): number {
 	const logFile = join(channelDir, "log.jsonl");
 
 	if (!existsSync(logFile)) return 0;
 
+	// After /reset the session header points at the archived context; older log lines stay out
+	const header = sessionManager.getHeader();
+	const since = header?.parentSession ? new Date(header.timestamp).getTime() : 0;
+
 	// Build set of existing message content from session
 	const existingMessages = new Set<string>();
 	for (const entry of sessionManager.getEntries()) {
@@ -106,9 +135,15 @@ export function syncLogToSessionManager(
 			// Skip the current message being processed (will be added via prompt())
 			if (excludeTs && msgTs === excludeTs) continue;
 
+			// Skip messages from before the last /reset
+			if (new Date(date).getTime() < since) continue;
+
 			// Skip bot messages - added through agent flow
 			if (logMsg.isBot) continue;
 
+			// Only this session's messages
+			if (thread ? logMsg.thread !== thread && msgTs !== thread : logMsg.thread) continue;
+
 			// Build the message text as it would appear in context
 			const messageText = `[${logMsg.userName || logMsg.user || "unknown"}]: ${logMsg.text || ""}`;
 
@@ -157,12 +192,32 @@ export interface MomRetrySettings {
 	baseDelayMs: number;
 }
 
+/**
+ * What happens to a message that arrives mid-run: "steer" hands it to the
+ * agent after the current tool call, "followUp" once the agent would
+ * otherwise stop (the default), "reject" turns it away as before.
+ */
+export type BusyMode = "steer" | "followUp" | "reject";
+
+export const BUSY_MODES: BusyMode[] = ["steer", "followUp", "reject"];
+
 export interface MomSettings {
 	defaultProvider?: string;
 	defaultModel?: string;
 	defaultThinkingLevel?: "off" | "minimal" | "low" | "medium" | "high";
+	busyMode?: BusyMode;
+	/** Deliver queued steering messages together ("all") or one per turn */
+	steeringMode?: "all" | "one-at-a-time";
+	/** Deliver queued follow-ups together ("all") or one per turn */
+	followUpMode?: "all" | "one-at-a-time";
 	compaction?: Partial<MomCompactionSettings>;
 	retry?: Partial<MomRetrySettings>;
+	/**
+	 * Models to try, in order, when the current one still fails with an
+	 * overload, rate-limit or server error after its retries ("gpt-5.1",
+	 * "fireworks/deepseek" — anything /model accepts)
+	 */
+	fallbackModels?: string[];
 }
 
 const DEFAULT_COMPACTION: MomCompactionSettings = {
@@ -179,37 +234,42 @@ const DEFAULT_RETRY: MomRetrySettings = {
 
 /**
  * Settings manager for mom.
- * Stores settings in the workspace root directory.
+ *
+ * Two layers: <workspace>/settings.json holds the defaults, and an optional
+ * <workspace>/<channel>/settings.json overrides them for one channel. Reads see
+ * the merged view; writes go to the channel layer when there is one.
  */
 export class MomSettingsManager {
-	private settingsPath: string;
-	private settings: MomSettings;
-
-	constructor(workspaceDir: string) {
-		this.settingsPath = join(workspaceDir, "settings.json");
-		this.settings = this.load();
+	private workspacePath: string;
+	private channelPath?: string;
+	private workspaceSettings: MomSettings;
+	private channelSettings: MomSettings;
+
+	constructor(workspaceDir: string, channelDir?: string) {
+		this.workspacePath = join(workspaceDir, "settings.json");
+		this.channelPath = channelDir ? join(channelDir, "settings.json") : undefined;
+		this.workspaceSettings = readSettingsFile(this.workspacePath);
+		this.channelSettings = this.channelPath ? readSettingsFile(this.channelPath) : {};
 	}
 
-	private load(): MomSettings {
-		if (!existsSync(this.settingsPath)) {
-			return {};
-		}
+	/** Channel overrides merged over workspace settings */
+	private get settings(): MomSettings {
+		return mergeSettings(this.workspaceSettings, this.channelSettings);
+	}
 
-		try {
-			const content = readFileSync(this.settingsPath, "utf-8");
-			return JSON.parse(content);
-		} catch {
-			return {};
-		}
+	/** The layer writes go to */
+	private get target(): MomSettings {
+		return this.channelPath ? this.channelSettings : this.workspaceSettings;
 	}
 
 	private save(): void {
+		const path = this.channelPath ?? this.workspacePath;
 		try {
-			const dir = dirname(this.settingsPath);
+			const dir = dirname(path);
 			if (!existsSync(dir)) {
 				mkdirSync(dir, { recursive: true });
 			}
-			writeFileSync(this.settingsPath, JSON.stringify(this.settings, null, 2), "utf-8");
+			writeFileSync(path, JSON.stringify(this.target, null, 2), "utf-8");
 		} catch (error) {
 			console.error(`Warning: Could not save settings file: ${error}`);
 		}
@@ -227,7 +287,7 @@ export class MomSettingsManager {
 	}
 
 	setCompactionEnabled(enabled: boolean): void {
-		this.settings.compaction = { ...this.settings.compaction, enabled };
+		this.target.compaction = { ...this.target.compaction, enabled };
 		this.save();
 	}
 
@@ -243,7 +303,7 @@ export class MomSettingsManager {
 	}
 
 	setRetryEnabled(enabled: boolean): void {
-		this.settings.retry = { ...this.settings.retry, enabled };
+		this.target.retry = { ...this.target.retry, enabled };
 		this.save();
 	}
 
@@ -256,8 +316,8 @@ export class MomSettingsManager {
 	}
 
 	setDefaultModelAndProvider(provider: string, modelId: string): void {
-		this.settings.defaultProvider = provider;
-		this.settings.defaultModel = modelId;
+		this.target.defaultProvider = provider;
+		this.target.defaultModel = modelId;
 		this.save();
 	}
 
@@ -266,27 +326,43 @@ export class MomSettingsManager {
 	}
 
 	setDefaultThinkingLevel(level: string): void {
-		this.settings.defaultThinkingLevel = level as MomSettings["defaultThinkingLevel"];
+		this.target.defaultThinkingLevel = level as MomSettings["defaultThinkingLevel"];
+		this.save();
+	}
+
+	getFallbackModels(): string[] {
+		return this.settings.fallbackModels ?? [];
+	}
+
+	getBusyMode(): BusyMode {
+		return this.settings.busyMode ?? "followUp";
+	}
+
+	setBusyMode(mode: BusyMode): void {
+		this.target.busyMode = mode;
 		this.save();
 	}
 
-	// Compatibility methods for AgentSession
 	getSteeringMode(): "all" | "one-at-a-time" {
-		return "one-at-a-time"; // Mom processes one message at a time
+		return this.settings.steeringMode ?? "one-at-a-time";
 	}
 
-	setSteeringMode(_mode: "all" | "one-at-a-time"): void {
-		// No-op for mom
+	setSteeringMode(mode: "all" | "one-at-a-time"): void {
+		this.target.steeringMode = mode;
+		this.save();
 	}
 
 	getFollowUpMode(): "all" | "one-at-a-time" {
-		return "one-at-a-time"; // Mom processes one message at a time
+		return this.settings.followUpMode ?? "one-at-a-time";
 	}
 
-	setFollowUpMode(_mode: "all" | "one-at-a-time"): void {
-		// No-op for mom
+	setFollowUpMode(mode: "all" | "one-at-a-time"): void {
+		this.target.followUpMode = mode;
+		this.save();
 	}
 
+	// Compatibility methods for AgentSession
+
 	getHookPaths(): string[] {
 		return []; // Mom doesn't use hooks
 	}
@@ -312,6 +388,32 @@ export class MomSettingsManager {
 	}
 
 	reload(): void {
-		this.settings = this.load();
+		this.workspaceSettings = readSettingsFile(this.workspacePath);
+		this.channelSettings = this.channelPath ? readSettingsFile(this.channelPath) : {};
+	}
+}
+
+function readSettingsFile(path: string): MomSettings {
+	if (!existsSync(path)) {
+		return {};
 	}
+
+	try {
+		return JSON.parse(readFileSync(path, "utf-8"));
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Layer channel settings over workspace settings. Nested compaction/retry
+ * objects merge key by key, so a channel can override just one field.
+ */
+function mergeSettings(base: MomSettings, override: MomSettings): MomSettings {
+	return {
+		...base,
+		...override,
+		compaction: { ...base.compaction, ...override.compaction },
+		retry: { ...base.retry, ...override.retry },
+	};
 }
@@ -3,7 +3,9 @@ import { existsSync, type FSWatcher, mkdirSync, statSync, unlinkSync, watch } fr
 import { readFile, readdir } from "fs/promises";
 import { join } from "path";
 import type { MomEvent as MomIncomingEvent, PlatformAdapter } from "./adapters/types.js";
+import type { ChannelRegistry } from "./channels.js";
 import * as log from "./log.js";
+import * as metrics from "./metrics.js";
 
 // ============================================================================
 // Event Types
@@ -13,12 +15,16 @@ export interface ImmediateEvent {
 	type: "immediate";
 	channelId: string;
 	text: string;
+	/** Model for this run instead of the channel's — anything /model accepts */
+	model?: string;
 }
 
 export interface OneShotEvent {
 	type: "one-shot";
 	channelId: string;
 	text: string;
+	/** Model for this run instead of the channel's — anything /model accepts */
+	model?: string;
 	at: string; // ISO 8601 with timezone offset
 }
 
@@ -26,6 +32,8 @@ export interface PeriodicEvent {
 	type: "periodic";
 	channelId: string;
 	text: string;
+	/** Model for this run instead of the channel's — anything /model accepts */
+	model?: string;
 	schedule: string; // cron syntax
 	timezone: string; // IANA timezone
 }
@@ -53,6 +61,7 @@ export class EventsWatcher {
 	constructor(
 		private eventsDir: string,
 		private adapters: PlatformAdapter[],
+		private channels: ChannelRegistry,
 	) {
 		this.startTime = Date.now();
 	}
@@ -230,13 +239,13 @@ export class EventsWatcher {
 
 		switch (data.type) {
 			case "immediate":
-				return { type: "immediate", channelId: data.channelId, text: data.text };
+				return { type: "immediate", channelId: data.channelId, text: data.text, model: eventModel(data) };
 
 			case "one-shot":
 				if (!data.at) {
 					throw new Error(`Missing 'at' field for one-shot event in ${filename}`);
 				}
-				return { type: "one-shot", channelId: data.channelId, text: data.text, at: data.at };
+				return { type: "one-shot", channelId: data.channelId, text: data.text, at: data.at, model: eventModel(data) };
 
 			case "periodic":
 				if (!data.schedule) {
@@ -251,6 +260,7 @@ export class EventsWatcher {
 					text: data.text,
 					schedule: data.schedule,
 					timezone: data.timezone,
+					model: eventModel(data),
 				};
 
 			default:
@@ -327,6 +337,8 @@ export class EventsWatcher {
 	}
 
 	private execute(filename: string, event: ScheduledEvent, deleteAfter: boolean = true): void {
+		metrics.eventsFired.inc({ type: event.type });
+
 		// Format the message
 		let scheduleInfo: string;
 		switch (event.type) {
@@ -350,16 +362,19 @@ export class EventsWatcher {
 			user: "EVENT",
 			text: message,
 			ts: Date.now().toString(),
+			model: event.model,
 		};
 
-		// Enqueue for processing — try each adapter until one accepts
-		let enqueued = false;
-		for (const adapter of this.adapters) {
-			if (adapter.enqueueEvent(syntheticEvent)) {
-				enqueued = true;
-				break;
+		// Enqueue on the adapter that owns the channel
+		const adapter = this.channels.resolve(event.channelId, this.adapters);
+		if (!adapter) {
+			log.logWarning(`No adapter owns channel ${event.channelId}, discarded: ${filename}`);
+			if (deleteAfter) {
+				this.deleteFile(filename);
 			}
+			return;
 		}
+		const enqueued = adapter.enqueueEvent(syntheticEvent);
 
 		if (enqueued && deleteAfter) {
 			// Delete file after successful enqueue (immediate and one-shot)
@@ -394,9 +409,18 @@ export class EventsWatcher {
 /**
  * Create and start an events watcher.
  */
-export function createEventsWatcher(workspaceDir: string, adapters: PlatformAdapter[]): EventsWatcher {
+export function createEventsWatcher(
+	workspaceDir: string,
+	adapters: PlatformAdapter[],
+	channels: ChannelRegistry,
+): EventsWatcher {
 	const eventsDir = join(workspaceDir, "events");
-	return new EventsWatcher(eventsDir, adapters);
+	return new EventsWatcher(eventsDir, adapters, channels);
+}
+
+/** The optional `model` field; anything but a non-empty string is ignored */
+function eventModel(data: { model?: unknown }): string | undefined {
+	return typeof data.model === "string" && data.model.trim() ? data.model.trim() : undefined;
 }
 
 // ============================================================================
@@ -414,13 +438,20 @@ export function parseEventContent(content: string): ScheduledEvent | null {
 
 		switch (data.type) {
 			case "immediate":
-				return { type: "immediate", channelId: data.channelId, text: data.text };
+				return { type: "immediate", channelId: data.channelId, text: data.text, model: eventModel(data) };
 			case "one-shot":
 				if (!data.at) return null;
-				return { type: "one-shot", channelId: data.channelId, text: data.text, at: data.at };
+				return { type: "one-shot", channelId: data.channelId, text: data.text, at: data.at, model: eventModel(data) };
 			case "periodic":
 				if (!data.schedule || !data.timezone) return null;
-				return { type: "periodic", channelId: data.channelId, text: data.text, schedule: data.schedule, timezone: data.timezone };
+				return {
+					type: "periodic",
+					channelId: data.channelId,
+					text: data.text,
+					schedule: data.schedule,
+					timezone: data.timezone,
+					model: eventModel(data),
+				};
 			default:
 				return null;
 		}
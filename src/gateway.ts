@@ -1,5 +1,6 @@
 import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
 import * as log from "./log.js";
+import { traceRequest } from "./tracing.js";
 
 /**
  * Gateway — single HTTP server with path-based routing.
@@ -14,13 +15,17 @@ export class Gateway {
 	private readyRoutes = new Set<string>();
 	private server: Server | null = null;
 
-	/** Register a POST route handler (e.g., "/slack/events" → adapter.dispatch) */
+	/**
+	 * Register a POST route handler (e.g., "/slack/events" → adapter.dispatch).
+	 * A path ending in "/*" is a prefix route: it receives every method under
+	 * that prefix (e.g., "/_matrix/app/v1/*" for the Matrix appservice API).
+	 */
 	register(path: string, handler: RouteHandler): void {
 		this.routes.set(path, handler);
-		log.logInfo(`[gateway] registered route: POST ${path}`);
+		log.logInfo(`[gateway] registered route: ${path.endsWith("/*") ? "*" : "POST"} ${path}`);
 	}
 
-	/** Register a GET route handler (e.g., "/schedule") */
+	/** Register a GET route handler (e.g., "/schedule"). Matched on the path; the query string is the handler's. */
 	registerGet(path: string, handler: RouteHandler): void {
 		this.getRoutes.set(path, handler);
 		log.logInfo(`[gateway] registered route: GET ${path}`);
@@ -44,13 +49,25 @@ export class Gateway {
 
 			// GET routes (no readiness gate — always available)
 			if (req.method === "GET") {
-				const getHandler = this.getRoutes.get(req.url || "");
+				const getHandler = this.getRoutes.get((req.url || "").split("?")[0]);
 				if (getHandler) {
 					getHandler(req, res);
 					return;
 				}
 			}
 
+			// Prefix routes (any method) — readiness-gated like POST routes
+			const prefix = this.matchPrefix(req.url || "");
+			if (prefix) {
+				if (!this.readyRoutes.has(prefix)) {
+					res.writeHead(503);
+					res.end("Adapter not ready");
+					return;
+				}
+				traceRequest(req, res, prefix, () => this.routes.get(prefix)!(req, res));
+				return;
+			}
+
 			if (req.method !== "POST") {
 				res.writeHead(405);
 				res.end("Method not allowed");
@@ -70,7 +87,7 @@ export class Gateway {
 				return;
 			}
 
-			handler(req, res);
+			traceRequest(req, res, req.url || "", () => handler(req, res));
 		});
 
 		await new Promise<void>((resolve) => {
@@ -81,6 +98,17 @@ export class Gateway {
 		});
 	}
 
+	/** Find the registered prefix route ("/foo/*") covering a request URL */
+	private matchPrefix(url: string): string | undefined {
+		const pathname = url.split("?")[0];
+		for (const path of this.routes.keys()) {
+			if (path.endsWith("/*") && pathname.startsWith(path.slice(0, -1))) {
+				return path;
+			}
+		}
+		return undefined;
+	}
+
 	/** Stop the server */
 	async stop(): Promise<void> {
 		if (this.server) {
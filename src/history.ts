@@ -0,0 +1,271 @@
+import { closeSync, existsSync, openSync, readdirSync, readFileSync, readSync, renameSync, statSync, writeFileSync } from "fs";
+import { join } from "path";
+import * as log from "./log.js";
+import { bm25, queryTerms, tokenize } from "./search.js";
+import type { LoggedMessage } from "./store.js";
+
+// ============================================================================
+// History search — an inverted index over each channel's log.jsonl
+// ============================================================================
+//
+// The search_history tool looks things up here instead of grepping log.jsonl
+// from the sandbox, so it works the same on host and Docker. Each channel gets
+// <channel>/search-index.json: postings per term plus, per message, where its
+// line sits in log.jsonl and the fields queries filter on. log.jsonl only
+// grows, so updating the index reads just the bytes appended since the last
+// search; a log that got shorter is re-indexed from scratch.
+
+const LOG_FILENAME = "log.jsonl";
+const INDEX_FILENAME = "search-index.json";
+/** Bump when the index layout changes; older files are rebuilt */
+const INDEX_VERSION = 1;
+
+const SNIPPET_LENGTH = 240;
+export const DEFAULT_HISTORY_LIMIT = 10;
+
+interface IndexedMessage {
+	/** Byte offset and length of the message's line in log.jsonl */
+	offset: number;
+	length: number;
+	date: string;
+	user: string;
+	userName?: string;
+	displayName?: string;
+	/** Token count, for BM25 length normalization */
+	tokens: number;
+}
+
+interface HistoryIndex {
+	version: number;
+	/** Bytes of log.jsonl indexed so far */
+	size: number;
+	messages: IndexedMessage[];
+	/** Term → flat [message index, term frequency, ...] pairs */
+	postings: Record<string, number[]>;
+}
+
+export interface HistoryQuery {
+	/** Words to rank by; without them the newest matching messages come back */
+	text?: string;
+	/** User ID, handle or display name; "bot" for the agent's own replies */
+	user?: string;
+	/** Inclusive ISO 8601 date or prefix of one ("2026-01", "2026-01-05") */
+	from?: string;
+	/** Inclusive, same forms as `from` */
+	to?: string;
+	limit?: number;
+}
+
+export interface HistoryHit {
+	channel: string;
+	date: string;
+	/** Handle if known, else user ID */
+	user: string;
+	snippet: string;
+	/** BM25 score; 0 for queries without text */
+	score: number;
+}
+
+/** Indexes loaded since boot, by channel directory */
+const indexes = new Map<string, HistoryIndex>();
+
+/**
+ * Search the history of some channels. Indexes are brought up to date with
+ * log.jsonl first. Scores use term statistics across all searched channels,
+ * so hits from different channels rank against each other fairly.
+ */
+export function searchHistory(workingDir: string, channelIds: string[], query: HistoryQuery): HistoryHit[] {
+	const limit = query.limit ?? DEFAULT_HISTORY_LIMIT;
+	const searched = channelIds
+		.map((channel) => ({ channel, dir: join(workingDir, channel) }))
+		.filter(({ dir }) => existsSync(join(dir, LOG_FILENAME)))
+		.map(({ channel, dir }) => ({ channel, dir, index: updateIndex(dir) }));
+
+	const candidates: Array<{ channel: string; dir: string; message: IndexedMessage; score: number }> = [];
+	const terms = query.text ? queryTerms(query.text) : [];
+	if (terms.length > 0) {
+		const docCount = searched.reduce((sum, { index }) => sum + index.messages.length, 0);
+		const totalTokens = searched.reduce(
+			(sum, { index }) => sum + index.messages.reduce((tokens, message) => tokens + message.tokens, 0),
+			0,
+		);
+		const avgLength = docCount > 0 ? totalTokens / docCount : 0;
+		const docFreq = new Map<string, number>();
+		for (const term of terms) {
+			docFreq.set(term, searched.reduce((sum, { index }) => sum + (postingsFor(index, term)?.length ?? 0) / 2, 0));
+		}
+
+		for (const { channel, dir, index } of searched) {
+			const scores = new Map<number, number>();
+			for (const term of terms) {
+				const postings = postingsFor(index, term);
+				if (!postings) continue;
+				for (let i = 0; i < postings.length; i += 2) {
+					const message = index.messages[postings[i]];
+					const score = bm25(postings[i + 1], docFreq.get(term)!, docCount, message.tokens, avgLength);
+					scores.set(postings[i], (scores.get(postings[i]) ?? 0) + score);
+				}
+			}
+			for (const [i, score] of scores) {
+				const message = index.messages[i];
+				if (matchesFilters(message, query)) candidates.push({ channel, dir, message, score });
+			}
+		}
+		candidates.sort((a, b) => b.score - a.score || b.message.date.localeCompare(a.message.date));
+	} else {
+		for (const { channel, dir, index } of searched) {
+			for (const message of index.messages) {
+				if (matchesFilters(message, query)) candidates.push({ channel, dir, message, score: 0 });
+			}
+		}
+		candidates.sort((a, b) => b.message.date.localeCompare(a.message.date));
+	}
+
+	return candidates.slice(0, limit).map(({ channel, dir, message, score }) => ({
+		channel,
+		date: message.date,
+		user: message.userName || message.user,
+		snippet: snippet(readMessage(dir, message)?.text ?? "", terms),
+		score,
+	}));
+}
+
+/** Channel directories in the working directory that have a log.jsonl */
+export function channelsWithHistory(workingDir: string): string[] {
+	if (!existsSync(workingDir)) return [];
+	return readdirSync(workingDir, { withFileTypes: true })
+		.filter((entry) => entry.isDirectory() && existsSync(join(workingDir, entry.name, LOG_FILENAME)))
+		.map((entry) => entry.name);
+}
+
+function matchesFilters(message: IndexedMessage, query: HistoryQuery): boolean {
+	if (query.from && message.date.substring(0, query.from.length) < query.from) return false;
+	if (query.to && message.date.substring(0, query.to.length) > query.to) return false;
+	if (query.user) {
+		const wanted = query.user.replace(/^@/, "").toLowerCase();
+		const names = [message.user, message.userName, message.displayName].map((name) => name?.toLowerCase());
+		if (!names.includes(wanted)) return false;
+	}
+	return true;
+}
+
+/** Load a channel's index and index whatever log.jsonl gained since */
+function updateIndex(channelDir: string): HistoryIndex {
+	const logPath = join(channelDir, LOG_FILENAME);
+	let index = indexes.get(channelDir) ?? loadIndex(channelDir);
+	const size = statSync(logPath).size;
+	if (size < index.size) {
+		log.logInfo(`${logPath} shrank, rebuilding its search index`);
+		index = emptyIndex();
+	}
+	indexes.set(channelDir, index);
+	if (size === index.size) return index;
+
+	const chunk = Buffer.alloc(size - index.size);
+	const fd = openSync(logPath, "r");
+	try {
+		readSync(fd, chunk, 0, chunk.length, index.size);
+	} finally {
+		closeSync(fd);
+	}
+
+	// Only whole lines; a line still being written waits for the next search
+	let start = 0;
+	for (let end = chunk.indexOf(10); end !== -1; end = chunk.indexOf(10, start)) {
+		const line = chunk.subarray(start, end).toString("utf-8");
+		if (line.trim()) indexLine(index, line, index.size + start, end - start);
+		start = end + 1;
+	}
+	index.size += start;
+	saveIndex(channelDir, index);
+	return index;
+}
+
+function indexLine(index: HistoryIndex, line: string, offset: number, length: number): void {
+	let message: LoggedMessage;
+	try {
+		message = JSON.parse(line) as LoggedMessage;
+	} catch {
+		// A crash mid-append leaves a partial line — skip it
+		return;
+	}
+	const tokens = tokenize(message.text ?? "");
+	const messageIndex = index.messages.length;
+	index.messages.push({
+		offset,
+		length,
+		date: message.date ?? "",
+		user: message.user,
+		userName: message.userName,
+		displayName: message.displayName,
+		tokens: tokens.length,
+	});
+	const termFreq = new Map<string, number>();
+	for (const token of tokens) termFreq.set(token, (termFreq.get(token) ?? 0) + 1);
+	for (const [term, tf] of termFreq) {
+		let postings = postingsFor(index, term);
+		if (!postings) {
+			postings = [];
+			index.postings[term] = postings;
+		}
+		postings.push(messageIndex, tf);
+	}
+}
+
+/** Own keys only — "constructor" is a word too */
+function postingsFor(index: HistoryIndex, term: string): number[] | undefined {
+	return Object.hasOwn(index.postings, term) ? index.postings[term] : undefined;
+}
+
+function readMessage(channelDir: string, message: IndexedMessage): LoggedMessage | undefined {
+	const buffer = Buffer.alloc(message.length);
+	try {
+		const fd = openSync(join(channelDir, LOG_FILENAME), "r");
+		try {
+			readSync(fd, buffer, 0, message.length, message.offset);
+		} finally {
+			closeSync(fd);
+		}
+		return JSON.parse(buffer.toString("utf-8")) as LoggedMessage;
+	} catch {
+		return undefined;
+	}
+}
+
+/** Up to SNIPPET_LENGTH characters of text, around the first query term it contains */
+function snippet(text: string, terms: string[]): string {
+	const flat = text.replace(/\s+/g, " ").trim();
+	if (flat.length <= SNIPPET_LENGTH) return flat;
+	const lower = flat.toLowerCase();
+	const hits = terms.map((term) => lower.indexOf(term)).filter((i) => i !== -1);
+	const first = hits.length > 0 ? Math.min(...hits) : 0;
+	const start = Math.max(0, Math.min(first - SNIPPET_LENGTH / 3, flat.length - SNIPPET_LENGTH));
+	const end = start + SNIPPET_LENGTH;
+	return `${start > 0 ? "…" : ""}${flat.substring(start, end).trim()}${end < flat.length ? "…" : ""}`;
+}
+
+function emptyIndex(): HistoryIndex {
+	return { version: INDEX_VERSION, size: 0, messages: [], postings: {} };
+}
+
+function loadIndex(channelDir: string): HistoryIndex {
+	const path = join(channelDir, INDEX_FILENAME);
+	if (!existsSync(path)) return emptyIndex();
+	try {
+		const index = JSON.parse(readFileSync(path, "utf-8")) as HistoryIndex;
+		return index.version === INDEX_VERSION ? index : emptyIndex();
+	} catch {
+		return emptyIndex();
+	}
+}
+
+function saveIndex(channelDir: string, index: HistoryIndex): void {
+	const path = join(channelDir, INDEX_FILENAME);
+	try {
+		// Write-then-rename so a crash never leaves half an index
+		writeFileSync(`${path}.tmp`, JSON.stringify(index));
+		renameSync(`${path}.tmp`, path);
+	} catch (err) {
+		log.logWarning(`Failed to write ${path}`, err instanceof Error ? err.message : String(err));
+	}
+}
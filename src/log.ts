@@ -4,6 +4,109 @@ export interface LogContext {
 	channelId: string;
 	userName?: string;
 	channelName?: string; // For display like #dev-team vs C16HET4EQ
+	/** Adapter instance the run is for ("slack", "telegram@beta") */
+	adapter?: string;
+	/** Run ID from runs.jsonl */
+	runId?: string;
+}
+
+// ============================================================================
+// Sinks and levels
+// ============================================================================
+//
+// Every log call builds a structured record plus the chalk-formatted text the
+// console has always shown. The active Logger picks which one to write:
+// pretty (default) prints the text, json prints one record per line for log
+// shippers. setLogger() swaps in anything else.
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const LOG_FORMATS = ["pretty", "json"] as const;
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+export interface LogRecord {
+	/** ISO 8601 */
+	time: string;
+	level: LogLevel;
+	/** What happened: "tool_start", "tool_end", "usage", "info", ... */
+	event: string;
+	msg: string;
+	channel?: string;
+	channelName?: string;
+	user?: string;
+	adapter?: string;
+	runId?: string;
+	tool?: string;
+	durationMs?: number;
+	usage?: {
+		input: number;
+		output: number;
+		cacheRead: number;
+		cacheWrite: number;
+		cost: { input: number; output: number; cacheRead: number; cacheWrite: number; total: number };
+	};
+	[key: string]: unknown;
+}
+
+export interface Logger {
+	/** `pretty` is the console text for the record, already colored */
+	write(record: LogRecord, pretty: string): void;
+}
+
+export const prettyLogger: Logger = {
+	write: (_record, pretty) => console.log(pretty),
+};
+
+export const jsonLogger: Logger = {
+	write: (record) => console.log(JSON.stringify(record)),
+};
+
+let logger: Logger = prettyLogger;
+let minLevel: LogLevel = "info";
+
+export function setLogger(next: Logger): void {
+	logger = next;
+}
+
+/** Apply --log-format / --log-level. Unset options keep their current value. */
+export function configureLogging(options: { format?: LogFormat; level?: LogLevel }): void {
+	if (options.format) setLogger(options.format === "json" ? jsonLogger : prettyLogger);
+	if (options.level) minLevel = options.level;
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+	return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+export function isLogFormat(value: string): value is LogFormat {
+	return (LOG_FORMATS as readonly string[]).includes(value);
+}
+
+function emit(
+	level: LogLevel,
+	event: string,
+	msg: string,
+	fields: Partial<LogRecord>,
+	pretty: string | string[],
+): void {
+	if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel)) return;
+	const record: LogRecord = { time: new Date().toISOString(), level, event, msg, ...fields };
+	// Drop unset fields so json lines stay short
+	for (const key of Object.keys(record)) {
+		if (record[key] === undefined) delete record[key];
+	}
+	logger.write(record, Array.isArray(pretty) ? pretty.join("\n") : pretty);
+}
+
+function contextFields(ctx: LogContext): Partial<LogRecord> {
+	return {
+		channel: ctx.channelId,
+		channelName: ctx.channelName,
+		user: ctx.userName,
+		adapter: ctx.adapter,
+		runId: ctx.runId,
+	};
 }
 
 function timestamp(): string {
@@ -30,6 +133,13 @@ function truncate(text: string, maxLen: number): string {
 	return `${text.substring(0, maxLen)}\n(truncated at ${maxLen} chars)`;
 }
 
+function indent(text: string): string {
+	return text
+		.split("\n")
+		.map((line) => `           ${line}`)
+		.join("\n");
+}
+
 function formatToolArgs(args: Record<string, unknown>): string {
 	const lines: string[] = [];
 
@@ -70,119 +180,130 @@ function formatToolArgs(args: Record<string, unknown>): string {
 
 // User messages
 export function logUserMessage(ctx: LogContext, text: string): void {
-	console.log(chalk.green(`${timestamp()} ${formatContext(ctx)} ${text}`));
+	emit("info", "user_message", text, contextFields(ctx), chalk.green(`${timestamp()} ${formatContext(ctx)} ${text}`));
 }
 
 // Tool execution
 export function logToolStart(ctx: LogContext, toolName: string, label: string, args: Record<string, unknown>): void {
 	const formattedArgs = formatToolArgs(args);
-	console.log(chalk.yellow(`${timestamp()} ${formatContext(ctx)} ↳ ${toolName}: ${label}`));
-	if (formattedArgs) {
-		// Indent the args
-		const indented = formattedArgs
-			.split("\n")
-			.map((line) => `           ${line}`)
-			.join("\n");
-		console.log(chalk.dim(indented));
-	}
+	const pretty = [chalk.yellow(`${timestamp()} ${formatContext(ctx)} ↳ ${toolName}: ${label}`)];
+	if (formattedArgs) pretty.push(chalk.dim(indent(formattedArgs)));
+	emit(
+		"info",
+		"tool_start",
+		label,
+		{ ...contextFields(ctx), tool: toolName, args: formattedArgs ? truncate(formattedArgs, 1000) : undefined },
+		pretty,
+	);
 }
 
 export function logToolSuccess(ctx: LogContext, toolName: string, durationMs: number, result: string): void {
 	const duration = (durationMs / 1000).toFixed(1);
-	console.log(chalk.yellow(`${timestamp()} ${formatContext(ctx)} ✓ ${toolName} (${duration}s)`));
-
 	const truncated = truncate(result, 1000);
-	if (truncated) {
-		const indented = truncated
-			.split("\n")
-			.map((line) => `           ${line}`)
-			.join("\n");
-		console.log(chalk.dim(indented));
-	}
+	const pretty = [chalk.yellow(`${timestamp()} ${formatContext(ctx)} ✓ ${toolName} (${duration}s)`)];
+	if (truncated) pretty.push(chalk.dim(indent(truncated)));
+	emit(
+		"info",
+		"tool_end",
+		`${toolName} succeeded`,
+		{ ...contextFields(ctx), tool: toolName, durationMs, ok: true, result: truncated },
+		pretty,
+	);
 }
 
 export function logToolError(ctx: LogContext, toolName: string, durationMs: number, error: string): void {
 	const duration = (durationMs / 1000).toFixed(1);
-	console.log(chalk.yellow(`${timestamp()} ${formatContext(ctx)} ✗ ${toolName} (${duration}s)`));
-
 	const truncated = truncate(error, 1000);
-	const indented = truncated
-		.split("\n")
-		.map((line) => `           ${line}`)
-		.join("\n");
-	console.log(chalk.dim(indented));
+	emit(
+		"warn",
+		"tool_end",
+		`${toolName} failed`,
+		{ ...contextFields(ctx), tool: toolName, durationMs, ok: false, error: truncated },
+		[chalk.yellow(`${timestamp()} ${formatContext(ctx)} ✗ ${toolName} (${duration}s)`), chalk.dim(indent(truncated))],
+	);
 }
 
 // Response streaming
 export function logResponseStart(ctx: LogContext): void {
-	console.log(chalk.yellow(`${timestamp()} ${formatContext(ctx)} → Streaming response...`));
+	emit(
+		"info",
+		"response_start",
+		"Streaming response",
+		contextFields(ctx),
+		chalk.yellow(`${timestamp()} ${formatContext(ctx)} → Streaming response...`),
+	);
 }
 
 export function logThinking(ctx: LogContext, thinking: string): void {
-	console.log(chalk.yellow(`${timestamp()} ${formatContext(ctx)} 💭 Thinking`));
 	const truncated = truncate(thinking, 1000);
-	const indented = truncated
-		.split("\n")
-		.map((line) => `           ${line}`)
-		.join("\n");
-	console.log(chalk.dim(indented));
+	emit("info", "thinking", truncated, contextFields(ctx), [
+		chalk.yellow(`${timestamp()} ${formatContext(ctx)} 💭 Thinking`),
+		chalk.dim(indent(truncated)),
+	]);
 }
 
 export function logResponse(ctx: LogContext, text: string): void {
-	console.log(chalk.yellow(`${timestamp()} ${formatContext(ctx)} 💬 Response`));
 	const truncated = truncate(text, 1000);
-	const indented = truncated
-		.split("\n")
-		.map((line) => `           ${line}`)
-		.join("\n");
-	console.log(chalk.dim(indented));
+	emit("info", "response", truncated, contextFields(ctx), [
+		chalk.yellow(`${timestamp()} ${formatContext(ctx)} 💬 Response`),
+		chalk.dim(indent(truncated)),
+	]);
 }
 
 // Attachments
 export function logDownloadStart(ctx: LogContext, filename: string, localPath: string): void {
-	console.log(chalk.yellow(`${timestamp()} ${formatContext(ctx)} ↓ Downloading attachment`));
-	console.log(chalk.dim(`           ${filename} → ${localPath}`));
+	emit("info", "download_start", `${filename} → ${localPath}`, { ...contextFields(ctx), filename, localPath }, [
+		chalk.yellow(`${timestamp()} ${formatContext(ctx)} ↓ Downloading attachment`),
+		chalk.dim(`           ${filename} → ${localPath}`),
+	]);
 }
 
 export function logDownloadSuccess(ctx: LogContext, sizeKB: number): void {
-	console.log(chalk.yellow(`${timestamp()} ${formatContext(ctx)} ✓ Downloaded (${sizeKB.toLocaleString()} KB)`));
+	emit(
+		"info",
+		"download_end",
+		`Downloaded ${sizeKB} KB`,
+		{ ...contextFields(ctx), ok: true, sizeKB },
+		chalk.yellow(`${timestamp()} ${formatContext(ctx)} ✓ Downloaded (${sizeKB.toLocaleString()} KB)`),
+	);
 }
 
 export function logDownloadError(ctx: LogContext, filename: string, error: string): void {
-	console.log(chalk.yellow(`${timestamp()} ${formatContext(ctx)} ✗ Download failed`));
-	console.log(chalk.dim(`           ${filename}: ${error}`));
+	emit("warn", "download_end", `${filename}: ${error}`, { ...contextFields(ctx), ok: false, filename, error }, [
+		chalk.yellow(`${timestamp()} ${formatContext(ctx)} ✗ Download failed`),
+		chalk.dim(`           ${filename}: ${error}`),
+	]);
 }
 
 // Control
 export function logStopRequest(ctx: LogContext): void {
-	console.log(chalk.green(`${timestamp()} ${formatContext(ctx)} stop`));
-	console.log(chalk.yellow(`${timestamp()} ${formatContext(ctx)} ⊗ Stop requested - aborting`));
+	emit("info", "stop", "Stop requested", contextFields(ctx), [
+		chalk.green(`${timestamp()} ${formatContext(ctx)} stop`),
+		chalk.yellow(`${timestamp()} ${formatContext(ctx)} ⊗ Stop requested - aborting`),
+	]);
 }
 
 // System
+export function logDebug(message: string): void {
+	emit("debug", "debug", message, {}, chalk.dim(`${timestamp()} [system] ${message}`));
+}
+
 export function logInfo(message: string): void {
-	console.log(chalk.blue(`${timestamp()} [system] ${message}`));
+	emit("info", "info", message, {}, chalk.blue(`${timestamp()} [system] ${message}`));
 }
 
 export function logWarning(message: string, details?: string): void {
-	console.log(chalk.yellow(`${timestamp()} [system] ⚠ ${message}`));
-	if (details) {
-		const indented = details
-			.split("\n")
-			.map((line) => `           ${line}`)
-			.join("\n");
-		console.log(chalk.dim(indented));
-	}
+	const pretty = [chalk.yellow(`${timestamp()} [system] ⚠ ${message}`)];
+	if (details) pretty.push(chalk.dim(indent(details)));
+	emit("warn", "warning", message, { details }, pretty);
 }
 
 export function logAgentError(ctx: LogContext | "system", error: string): void {
 	const context = ctx === "system" ? "[system]" : formatContext(ctx);
-	console.log(chalk.yellow(`${timestamp()} ${context} ✗ Agent error`));
-	const indented = error
-		.split("\n")
-		.map((line) => `           ${line}`)
-		.join("\n");
-	console.log(chalk.dim(indented));
+	emit("error", "agent_error", error, ctx === "system" ? {} : contextFields(ctx), [
+		chalk.yellow(`${timestamp()} ${context} ✗ Agent error`),
+		chalk.dim(indent(error)),
+	]);
 }
 
 // Usage summary
@@ -225,16 +346,21 @@ export function logUsageSummary(
 
 	const summary = lines.join("\n");
 
-	// Log to console
-	console.log(chalk.yellow(`${timestamp()} ${formatContext(ctx)} 💰 Usage`));
-	console.log(
-		chalk.dim(
-			`           ${usage.input.toLocaleString()} in + ${usage.output.toLocaleString()} out` +
-				(usage.cacheRead > 0 || usage.cacheWrite > 0
-					? ` (${usage.cacheRead.toLocaleString()} cache read, ${usage.cacheWrite.toLocaleString()} cache write)`
-					: "") +
-				` = $${usage.cost.total.toFixed(4)}`,
-		),
+	emit(
+		"info",
+		"usage",
+		`$${usage.cost.total.toFixed(4)}`,
+		{ ...contextFields(ctx), usage, contextTokens, contextWindow },
+		[
+			chalk.yellow(`${timestamp()} ${formatContext(ctx)} 💰 Usage`),
+			chalk.dim(
+				`           ${usage.input.toLocaleString()} in + ${usage.output.toLocaleString()} out` +
+					(usage.cacheRead > 0 || usage.cacheWrite > 0
+						? ` (${usage.cacheRead.toLocaleString()} cache read, ${usage.cacheWrite.toLocaleString()} cache write)`
+						: "") +
+					` = $${usage.cost.total.toFixed(4)}`,
+			),
+		],
 	);
 
 	return summary;
@@ -242,30 +368,49 @@ export function logUsageSummary(
 
 // Startup (no context needed)
 export function logStartup(workingDir: string, sandbox: string): void {
-	console.log("Starting mom bot...");
-	console.log(`  Working directory: ${workingDir}`);
-	console.log(`  Sandbox: ${sandbox}`);
+	emit("info", "startup", "Starting mom bot", { workingDir, sandbox }, [
+		"Starting mom bot...",
+		`  Working directory: ${workingDir}`,
+		`  Sandbox: ${sandbox}`,
+	]);
 }
 
 export function logConnected(): void {
-	console.log("⚡️ Mom bot connected and listening!");
-	console.log("");
+	emit("info", "connected", "Mom bot connected and listening", {}, ["⚡️ Mom bot connected and listening!", ""]);
 }
 
 export function logDisconnected(): void {
-	console.log("Mom bot disconnected.");
+	emit("info", "disconnected", "Mom bot disconnected", {}, "Mom bot disconnected.");
 }
 
 // Backfill
 export function logBackfillStart(channelCount: number): void {
-	console.log(chalk.blue(`${timestamp()} [system] Backfilling ${channelCount} channels...`));
+	emit(
+		"info",
+		"backfill_start",
+		`Backfilling ${channelCount} channels`,
+		{ channelCount },
+		chalk.blue(`${timestamp()} [system] Backfilling ${channelCount} channels...`),
+	);
 }
 
 export function logBackfillChannel(channelName: string, messageCount: number): void {
-	console.log(chalk.blue(`${timestamp()} [system]   #${channelName}: ${messageCount} messages`));
+	emit(
+		"info",
+		"backfill_channel",
+		`#${channelName}: ${messageCount} messages`,
+		{ channelName, messageCount },
+		chalk.blue(`${timestamp()} [system]   #${channelName}: ${messageCount} messages`),
+	);
 }
 
 export function logBackfillComplete(totalMessages: number, durationMs: number): void {
 	const duration = (durationMs / 1000).toFixed(1);
-	console.log(chalk.blue(`${timestamp()} [system] Backfill complete: ${totalMessages} messages in ${duration}s`));
+	emit(
+		"info",
+		"backfill_end",
+		`Backfill complete: ${totalMessages} messages`,
+		{ messageCount: totalMessages, durationMs },
+		chalk.blue(`${timestamp()} [system] Backfill complete: ${totalMessages} messages in ${duration}s`),
+	);
 }
@@ -1,8 +1,14 @@
 #!/usr/bin/env node
 
 import { join, resolve } from "path";
+import { AccessPolicy, hasRole } from "./access.js";
+import { DiscordGatewayAdapter } from "./adapters/discord-gateway.js";
+import { DiscordInteractionsAdapter } from "./adapters/discord-interactions.js";
 import { EmailWebhookAdapter } from "./adapters/email-webhook.js";
-import { HeartbeatAdapter } from "./adapters/heartbeat.js";
+import { HEARTBEAT_CHANNEL, HeartbeatAdapter } from "./adapters/heartbeat.js";
+import { adapterKey } from "./adapters/instance.js";
+import { MatrixAppserviceAdapter } from "./adapters/matrix-appservice.js";
+import { MatrixSyncAdapter } from "./adapters/matrix-sync.js";
 import { SlackSocketAdapter } from "./adapters/slack-socket.js";
 import { SlackWebhookAdapter } from "./adapters/slack-webhook.js";
 import { TelegramPollingAdapter } from "./adapters/telegram-polling.js";
@@ -10,14 +16,37 @@ import { TelegramWebhookAdapter } from "./adapters/telegram-webhook.js";
 import { WebAdapter } from "./adapters/web.js";
 import type { MomEvent, MomHandler, PlatformAdapter } from "./adapters/types.js";
 import { type AgentRunner, getOrCreateRunner } from "./agent.js";
-import { handleSlashCommand } from "./commands.js";
+import { ApprovalGate } from "./approval.js";
+import { BudgetPolicy } from "./budget.js";
+import { ChannelRegistry } from "./channels.js";
+import { createCommandRegistry } from "./commands.js";
+import {
+	type AdapterEntry,
+	adapterLabel,
+	ConfigError,
+	findConfigFile,
+	loadConfig,
+	parseAdapterSpec,
+	resolveAdapterEntry,
+	runConfigCommand,
+	type TroublemakerConfig,
+} from "./config.js";
+import { MomSettingsManager, sessionKey } from "./context.js";
 import { downloadChannel } from "./download.js";
 import { computeWakeManifest, createEventsWatcher } from "./events.js";
 import { Gateway } from "./gateway.js";
 import * as log from "./log.js";
+import * as metrics from "./metrics.js";
+import { setModelDefaults } from "./model-config.js";
+import { QueueJournal } from "./queue.js";
+import { setRoutingPolicy } from "./routing.js";
+import { type RunRecord, RunJournal } from "./runs.js";
 import { parseSandboxArg, type SandboxConfig, validateSandbox } from "./sandbox.js";
 import { ChannelStore } from "./store.js";
 import { createSendMessageTool } from "./tools/send-message.js";
+import * as tracing from "./tracing.js";
+import { runUsageCommand, UsageLedger, type UsageGroup, validateUsageQuery } from "./usage.js";
+import { setVisibilityPolicy } from "./visibility.js";
 
 // ============================================================================
 // Config
@@ -25,20 +54,27 @@ import { createSendMessageTool } from "./tools/send-message.js";
 
 interface ParsedArgs {
 	workingDir?: string;
-	sandbox: SandboxConfig;
+	sandbox?: SandboxConfig;
 	downloadChannel?: string;
-	adapters: string[];
-	port: number;
+	/** Adapter specs from --adapter; undefined means config file or auto-detect */
+	adapters?: string[];
+	port?: number;
 	skillsDirs: string[];
+	configPath?: string;
+	logFormat?: string;
+	logLevel?: string;
 }
 
 function parseArgs(): ParsedArgs {
 	const args = process.argv.slice(2);
-	let sandbox: SandboxConfig = { type: "host" };
+	let sandbox: SandboxConfig | undefined;
 	let workingDir: string | undefined;
 	let downloadChannelId: string | undefined;
 	let adapterArg: string | undefined;
 	let port: number | undefined;
+	let configPath: string | undefined;
+	let logFormat: string | undefined;
+	let logLevel: string | undefined;
 	const skillsDirs: string[] = [];
 
 	for (let i = 0; i < args.length; i++) {
@@ -63,60 +99,125 @@ function parseArgs(): ParsedArgs {
 			skillsDirs.push(resolve(arg.slice("--skills=".length)));
 		} else if (arg === "--skills") {
 			skillsDirs.push(resolve(args[++i] || ""));
+		} else if (arg.startsWith("--config=")) {
+			configPath = arg.slice("--config=".length);
+		} else if (arg === "--config") {
+			configPath = args[++i];
+		} else if (arg.startsWith("--log-format=")) {
+			logFormat = arg.slice("--log-format=".length);
+		} else if (arg === "--log-format") {
+			logFormat = args[++i];
+		} else if (arg.startsWith("--log-level=")) {
+			logLevel = arg.slice("--log-level=".length);
+		} else if (arg === "--log-level") {
+			logLevel = args[++i];
 		} else if (!arg.startsWith("-")) {
 			workingDir = arg;
 		}
 	}
 
-	// If --adapter specified, use it (comma-separated). Otherwise auto-detect from env vars.
-	// "slack" alone = "slack:socket" for backwards compat.
-	let adapters: string[];
-	if (adapterArg) {
-		adapters = adapterArg.split(",").map((a) => a.trim());
-	} else {
-		adapters = [];
-		if (process.env.MOM_SLACK_APP_TOKEN && process.env.MOM_SLACK_BOT_TOKEN) {
-			adapters.push("slack");
-		}
-		if (process.env.MOM_SLACK_SIGNING_SECRET && process.env.MOM_SLACK_BOT_TOKEN) {
-			// Auto-detect webhook mode if signing secret is set (and no app token)
-			if (!adapters.includes("slack")) {
-				adapters.push("slack:webhook");
-			}
-		}
-		if (process.env.MOM_TELEGRAM_BOT_TOKEN) {
-			// Prefer webhook mode when secret is set (external orchestrator sets this)
-			if (process.env.MOM_TELEGRAM_WEBHOOK_SECRET) {
-				adapters.push("telegram:webhook");
-			} else {
-				adapters.push("telegram");
-			}
+	return {
+		workingDir: workingDir ? resolve(workingDir) : undefined,
+		sandbox,
+		downloadChannel: downloadChannelId,
+		adapters: adapterArg ? adapterArg.split(",").map((a) => a.trim()) : undefined,
+		port: port || undefined,
+		skillsDirs,
+		configPath,
+		logFormat,
+		logLevel,
+	};
+}
+
+/**
+ * Pick adapters from whichever MOM_* env vars are set (no --adapter, no config file).
+ * "slack" alone = "slack:socket" for backwards compat.
+ */
+function detectAdapters(): string[] {
+	const adapters: string[] = [];
+	if (process.env.MOM_SLACK_APP_TOKEN && process.env.MOM_SLACK_BOT_TOKEN) {
+		adapters.push("slack");
+	}
+	if (process.env.MOM_SLACK_SIGNING_SECRET && process.env.MOM_SLACK_BOT_TOKEN) {
+		// Auto-detect webhook mode if signing secret is set (and no app token)
+		if (!adapters.includes("slack")) {
+			adapters.push("slack:webhook");
 		}
-		if (process.env.MOM_EMAIL_TOOLS_TOKEN) {
-			adapters.push("email:webhook");
+	}
+	if (process.env.MOM_TELEGRAM_BOT_TOKEN) {
+		// Prefer webhook mode when secret is set (external orchestrator sets this)
+		if (process.env.MOM_TELEGRAM_WEBHOOK_SECRET) {
+			adapters.push("telegram:webhook");
+		} else {
+			adapters.push("telegram");
 		}
-		if (process.env.MOM_WEB_CHAT === "true") {
-			adapters.push("web");
+	}
+	if (process.env.MOM_DISCORD_BOT_TOKEN) {
+		// Interactions endpoint when the app public key is set, otherwise hold a gateway connection
+		if (process.env.MOM_DISCORD_PUBLIC_KEY) {
+			adapters.push("discord:interactions");
+		} else {
+			adapters.push("discord");
 		}
-		// Default to slack if nothing detected
-		if (adapters.length === 0) {
-			adapters.push("slack");
+	}
+	if (process.env.MOM_MATRIX_HOMESERVER_URL) {
+		// Appservice when registration tokens are set, otherwise long-poll /sync as a regular user
+		if (process.env.MOM_MATRIX_AS_TOKEN && process.env.MOM_MATRIX_HS_TOKEN) {
+			adapters.push("matrix:appservice");
+		} else if (process.env.MOM_MATRIX_ACCESS_TOKEN) {
+			adapters.push("matrix");
 		}
 	}
+	if (process.env.MOM_EMAIL_TOOLS_TOKEN) {
+		adapters.push("email:webhook");
+	}
+	if (process.env.MOM_WEB_CHAT === "true") {
+		adapters.push("web");
+	}
+	// Default to slack if nothing detected
+	if (adapters.length === 0) {
+		adapters.push("slack");
+	}
+	return adapters;
+}
 
-	const resolvedPort = port || parseInt(process.env.MOM_HTTP_PORT || "", 10) || 3000;
+/** Adapter entries from --adapter, then the config file, then env auto-detection */
+function resolveAdapterEntries(args: ParsedArgs, config: TroublemakerConfig): AdapterEntry[] {
+	const entries = args.adapters
+		? args.adapters.map(parseAdapterSpec)
+		: config.adapters?.length
+			? config.adapters
+			: detectAdapters().map(parseAdapterSpec);
+
+	const labels = entries.map(adapterLabel);
+	const duplicate = labels.find((label, i) => labels.indexOf(label) !== i);
+	if (duplicate) {
+		throw new ConfigError(`Adapter '${duplicate}' specified more than once (use @<instance> to run several)`);
+	}
 
-	return {
-		workingDir: workingDir ? resolve(workingDir) : undefined,
-		sandbox,
-		downloadChannel: downloadChannelId,
-		adapters,
-		port: resolvedPort,
-		skillsDirs,
-	};
+	return entries.map(resolveAdapterEntry);
+}
+
+function exitOnConfigError(err: unknown): never {
+	if (err instanceof ConfigError) {
+		console.error(`Config error: ${err.message}`);
+		process.exit(1);
+	}
+	throw err;
 }
 
 const T_BOOT = performance.now();
+
+// `troublemaker config validate [path]`
+if (process.argv[2] === "config") {
+	process.exit(runConfigCommand(process.argv.slice(3)));
+}
+
+// `troublemaker usage [--from] [--to] [--group-by] [dir]`
+if (process.argv[2] === "usage") {
+	process.exit(runUsageCommand(process.argv.slice(3)));
+}
+
 const parsedArgs = parseArgs();
 
 // Handle --download mode (Slack-only for now)
@@ -130,24 +231,65 @@ if (parsedArgs.downloadChannel) {
 	process.exit(0);
 }
 
+let config: TroublemakerConfig;
+let adapterEntries: AdapterEntry[];
+try {
+	const configPath = findConfigFile(parsedArgs.configPath);
+	config = configPath ? loadConfig(configPath) : {};
+	adapterEntries = resolveAdapterEntries(parsedArgs, config);
+} catch (err) {
+	exitOnConfigError(err);
+}
+
+// CLI flags > config file > env vars > defaults, like the settings below
+const logFormat = parsedArgs.logFormat ?? config.log?.format ?? process.env.MOM_LOG_FORMAT ?? "pretty";
+const logLevel = parsedArgs.logLevel ?? config.log?.level ?? process.env.MOM_LOG_LEVEL ?? "info";
+if (!log.isLogFormat(logFormat)) {
+	console.error(`Invalid log format: ${logFormat} (expected ${log.LOG_FORMATS.join(" or ")})`);
+	process.exit(1);
+}
+if (!log.isLogLevel(logLevel)) {
+	console.error(`Invalid log level: ${logLevel} (expected ${log.LOG_LEVELS.join(", ")})`);
+	process.exit(1);
+}
+log.configureLogging({ format: logFormat, level: logLevel });
+tracing.configureTracing({
+	endpoint: config.tracing?.endpoint ?? process.env.OTEL_EXPORTER_OTLP_ENDPOINT,
+	serviceName: config.tracing?.serviceName ?? process.env.OTEL_SERVICE_NAME,
+	headers: config.tracing?.headers,
+});
+
 // Normal bot mode - require working dir
-if (!parsedArgs.workingDir) {
-	console.error("Usage: mom [--sandbox=host|docker:<name>] [--adapter=slack:socket,telegram:webhook] [--port=3000] [--skills=<dir>] <working-directory>");
+const configuredWorkingDir = parsedArgs.workingDir ?? config.workingDir;
+if (!configuredWorkingDir) {
+	console.error("Usage: mom [--config=<file>] [--sandbox=host|docker:<name>] [--adapter=slack:socket,telegram:webhook] [--port=3000] [--skills=<dir>] [--log-format=pretty|json] [--log-level=info] <working-directory>");
 	console.error("       mom --download <channel-id>");
-	console.error("       Adapters: slack (=slack:socket), slack:webhook, telegram (=telegram:polling), telegram:webhook");
+	console.error("       mom config validate [<file>]");
+	console.error("       mom usage [--from=<date>] [--to=<date>] [--group-by=channel|user|model] [--json] [<working-directory>]");
+	console.error("       Adapters: slack (=slack:socket), slack:webhook, telegram (=telegram:polling), telegram:webhook,");
+	console.error("                 discord (=discord:gateway), discord:interactions, matrix (=matrix:sync), matrix:appservice,");
+	console.error("                 email:webhook, web");
+	console.error("       Append @<instance> to run several of one type (slack:socket@acme,slack:socket@beta);");
+	console.error("       each instance reads its env vars with an _<INSTANCE> suffix (MOM_SLACK_BOT_TOKEN_ACME)");
+	console.error("       --config: Config file (default: ./troublemaker.config.json if present)");
 	console.error("       --skills: Additional skills directory to scan (can be specified multiple times)");
-	console.error("       (omit --adapter to auto-detect from env vars)");
+	console.error("       --log-format: pretty (default) or json (one record per line); --log-level: debug, info, warn, error");
+	console.error("       (omit --adapter to use the config file, or auto-detect from env vars)");
 	process.exit(1);
 }
 
-const { workingDir, sandbox } = {
-	workingDir: parsedArgs.workingDir,
-	sandbox: parsedArgs.sandbox,
-};
+// CLI flags > config file > env vars > defaults
+const workingDir: string = configuredWorkingDir;
+const sandbox: SandboxConfig = parsedArgs.sandbox ?? (config.sandbox ? parseSandboxArg(config.sandbox) : { type: "host" });
+const port = parsedArgs.port ?? config.port ?? (parseInt(process.env.MOM_HTTP_PORT || "", 10) || 3000);
+const skillsDirs = [...parsedArgs.skillsDirs, ...(config.skills ?? [])];
+setModelDefaults(config.model, config.channels);
+setRoutingPolicy(config.routing);
+setVisibilityPolicy(config.visibility, config.channels);
 
-log.logInfo(`[perf] args parsed: ${(performance.now() - T_BOOT).toFixed(0)}ms`);
+log.logDebug(`[perf] args parsed: ${(performance.now() - T_BOOT).toFixed(0)}ms`);
 await validateSandbox(sandbox);
-log.logInfo(`[perf] sandbox validated: ${(performance.now() - T_BOOT).toFixed(0)}ms`);
+log.logDebug(`[perf] sandbox validated: ${(performance.now() - T_BOOT).toFixed(0)}ms`);
 
 // ============================================================================
 // Create platform adapters
@@ -155,78 +297,86 @@ log.logInfo(`[perf] sandbox validated: ${(performance.now() - T_BOOT).toFixed(0)
 
 type AdapterWithHandler = PlatformAdapter & { setHandler(h: MomHandler): void };
 
-function createAdapter(name: string): AdapterWithHandler {
-	switch (name) {
-		case "slack":
+/** Build an adapter from a resolved entry — resolveAdapterEntry() has already checked required settings */
+function createAdapter(entry: AdapterEntry): AdapterWithHandler {
+	const { instance } = entry;
+	switch (entry.type) {
 		case "slack:socket": {
-			const appToken = process.env.MOM_SLACK_APP_TOKEN;
-			const botToken = process.env.MOM_SLACK_BOT_TOKEN;
-			if (!appToken || !botToken) {
-				console.error("Missing env: MOM_SLACK_APP_TOKEN, MOM_SLACK_BOT_TOKEN");
-				process.exit(1);
-			}
+			const botToken = entry.botToken!;
 			const store = new ChannelStore({ workingDir, botToken });
-			return new SlackSocketAdapter({ appToken, botToken, workingDir, store });
+			return new SlackSocketAdapter({ appToken: entry.appToken!, botToken, workingDir, store, instance });
 		}
 		case "slack:webhook": {
-			const botToken = process.env.MOM_SLACK_BOT_TOKEN;
-			const signingSecret = process.env.MOM_SLACK_SIGNING_SECRET;
-			if (!botToken || !signingSecret) {
-				console.error("Missing env: MOM_SLACK_BOT_TOKEN, MOM_SLACK_SIGNING_SECRET");
-				process.exit(1);
-			}
+			const botToken = entry.botToken!;
 			const store = new ChannelStore({ workingDir, botToken });
-			return new SlackWebhookAdapter({ botToken, workingDir, store, signingSecret });
-		}
-		case "telegram":
-		case "telegram:polling": {
-			const botToken = process.env.MOM_TELEGRAM_BOT_TOKEN;
-			if (!botToken) {
-				console.error("Missing env: MOM_TELEGRAM_BOT_TOKEN");
-				process.exit(1);
-			}
-			return new TelegramPollingAdapter({ botToken, workingDir });
-		}
-		case "telegram:webhook": {
-			const botToken = process.env.MOM_TELEGRAM_BOT_TOKEN;
-			const webhookUrl = process.env.MOM_TELEGRAM_WEBHOOK_URL;
-			const webhookSecret = process.env.MOM_TELEGRAM_WEBHOOK_SECRET;
-			const skipRegistration = !!process.env.MOM_SKIP_WEBHOOK_REGISTRATION;
-			if (!botToken || !webhookSecret) {
-				console.error("Missing env: MOM_TELEGRAM_BOT_TOKEN, MOM_TELEGRAM_WEBHOOK_SECRET");
-				process.exit(1);
-			}
-			if (!skipRegistration && !webhookUrl) {
-				console.error("Missing env: MOM_TELEGRAM_WEBHOOK_URL (required unless MOM_SKIP_WEBHOOK_REGISTRATION=true)");
-				process.exit(1);
-			}
-			return new TelegramWebhookAdapter({ botToken, workingDir, webhookUrl, webhookSecret, skipRegistration });
+			return new SlackWebhookAdapter({ botToken, workingDir, store, signingSecret: entry.signingSecret!, instance });
 		}
-		case "email:webhook": {
-			const toolsToken = process.env.MOM_EMAIL_TOOLS_TOKEN;
-			if (!toolsToken) {
-				console.error("Missing env: MOM_EMAIL_TOOLS_TOKEN");
-				process.exit(1);
-			}
-			const sendUrl = process.env.MOM_EMAIL_SEND_URL || "https://tinyfat.com/api/email/send";
-			return new EmailWebhookAdapter({ workingDir, toolsToken, sendUrl });
-		}
-		case "web": {
+		case "telegram:polling":
+			return new TelegramPollingAdapter({ botToken: entry.botToken!, workingDir, instance });
+		case "telegram:webhook":
+			return new TelegramWebhookAdapter({
+				botToken: entry.botToken!,
+				workingDir,
+				webhookUrl: entry.webhookUrl,
+				webhookSecret: entry.webhookSecret!,
+				skipRegistration: !!entry.skipWebhookRegistration,
+				instance,
+			});
+		case "discord:gateway":
+			return new DiscordGatewayAdapter({ botToken: entry.botToken!, workingDir, instance });
+		case "discord:interactions":
+			return new DiscordInteractionsAdapter({ botToken: entry.botToken!, workingDir, publicKey: entry.publicKey!, instance });
+		case "matrix:sync":
+			return new MatrixSyncAdapter({ homeserverUrl: entry.homeserverUrl!, accessToken: entry.accessToken!, workingDir, instance });
+		case "matrix:appservice":
+			return new MatrixAppserviceAdapter({
+				homeserverUrl: entry.homeserverUrl!,
+				accessToken: entry.asToken!,
+				hsToken: entry.hsToken!,
+				workingDir,
+				instance,
+			});
+		case "email:webhook":
+			return new EmailWebhookAdapter({
+				workingDir,
+				toolsToken: entry.toolsToken!,
+				sendUrl: entry.sendUrl || "https://tinyfat.com/api/email/send",
+			});
+		case "web":
 			return new WebAdapter({ workingDir });
-		}
-		default:
-			console.error(`Unknown adapter: ${name}. Use 'slack', 'slack:socket', 'slack:webhook', 'telegram', 'telegram:polling', 'telegram:webhook', 'email:webhook', or 'web'.`);
-			process.exit(1);
 	}
 }
 
-const adapters: AdapterWithHandler[] = parsedArgs.adapters.map(createAdapter);
+const adapters: AdapterWithHandler[] = adapterEntries.map(createAdapter);
+
+// Channel registry — records which adapter owns each channel (channels.json)
+const channelRegistry = new ChannelRegistry(workingDir);
+
+// Access policy — allow/deny lists, roles and tool policy (audit.jsonl)
+const access = new AccessPolicy(workingDir, config.access, config.channels);
+
+// Approval gate — pauses dangerous tool calls until someone answers the prompt
+const approvals = new ApprovalGate(config.approval);
+
+// Queue journal — accepted messages and events, replayed after a restart (<channel>/queue.jsonl)
+const journal = new QueueJournal(workingDir, config.queue?.depth);
+
+// Run journal — runs that started and never ended were cut off by a crash (<channel>/runs.jsonl)
+const runs = new RunJournal(workingDir);
+
+// Usage ledger and budget caps — every run's spend (usage.jsonl), checked before and during runs
+const usage = new UsageLedger(workingDir);
+const budget = new BudgetPolicy(usage, config.budget, config.channels);
+
+// Interrupted runs found at boot, waiting for /resume. Keyed by sessionKey()
+const interruptedRuns = new Map<string, RunRecord>();
 
 // Create heartbeat adapter — lives alongside other adapters but is purely internal
-const heartbeatAdapter = new HeartbeatAdapter({ workingDir });
+const heartbeatAdapter = new HeartbeatAdapter({ workingDir, channels: channelRegistry });
+channelRegistry.register(HEARTBEAT_CHANNEL, heartbeatAdapter.name);
 
 // ============================================================================
-// State (per channel)
+// State (per channel, and per thread session)
 // ============================================================================
 
 interface ChannelState {
@@ -235,58 +385,214 @@ interface ChannelState {
 	store: ChannelStore;
 	stopRequested: boolean;
 	stopMessageTs?: string;
+	/** Tools the current run goes without — messages from users who'd lose more can't steer it */
+	withheldTools: string[];
 }
 
+/** Keyed by sessionKey() — thread sessions run alongside their channel's */
 const channelStates = new Map<string, ChannelState>();
 
-function getState(channelId: string, formatInstructions: string): ChannelState {
-	let state = channelStates.get(channelId);
+function getState(channelId: string, platform: PlatformAdapter, thread?: string): ChannelState {
+	const key = sessionKey(channelId, thread);
+	let state = channelStates.get(key);
 	if (!state) {
 		const channelDir = join(workingDir, channelId);
 		// send_message available on ALL channels for cross-channel messaging
-		const extraTools = [createSendMessageTool(adapters)];
+		const extraTools = [createSendMessageTool(adapters, channelRegistry, channelId)];
 		state = {
 			running: false,
-			runner: getOrCreateRunner(sandbox, channelId, channelDir, formatInstructions, parsedArgs.skillsDirs, extraTools),
+			runner: getOrCreateRunner(
+				sandbox,
+				channelId,
+				channelDir,
+				platform.formatInstructions,
+				skillsDirs,
+				extraTools,
+				approvals.enabled ? (tool, args, signal) => approvals.review(channelId, platform, tool, args, signal, thread) : undefined,
+				thread,
+			),
 			store: new ChannelStore({ workingDir, botToken: process.env.MOM_SLACK_BOT_TOKEN || "" }),
 			stopRequested: false,
+			withheldTools: [],
 		};
-		channelStates.set(channelId, state);
+		channelStates.set(key, state);
 	}
 	return state;
 }
 
+// ============================================================================
+// Slash commands
+// ============================================================================
+
+const commands = createCommandRegistry({
+	workingDir,
+	isRunning: (channelId, thread) => handler.isRunning(channelId, thread),
+	stop: (channelId, userId, platform, thread) => handler.handleStop(channelId, userId, platform, thread),
+	getRunner: (channelId, platform, thread) => getState(channelId, platform, thread).runner,
+	access,
+	approvals,
+	budget,
+	resume: resumeRun,
+});
+
+/** Post into the thread a session belongs to, or the channel */
+function reply(platform: PlatformAdapter, channelId: string, thread: string | undefined, text: string): Promise<string> {
+	return thread ? platform.postInThread(channelId, thread, text) : platform.postMessage(channelId, text);
+}
+
+const ACCESS_DENIED_MESSAGE = "_Sorry, I can't take requests from you here. Ask whoever runs this bot for access._";
+
+/** Turn away users on a deny list (or missing from an allow list). Returns true if denied. */
+async function denyAccess(event: MomEvent, platform: PlatformAdapter): Promise<boolean> {
+	const reason = access.checkUser(event.user, adapterKey(platform));
+	if (!reason) return false;
+	access.audit({ action: "denied", adapter: adapterKey(platform), channel: event.channel, user: event.user, reason });
+	try {
+		await reply(platform, event.channel, event.thread, ACCESS_DENIED_MESSAGE);
+	} catch (err) {
+		log.logWarning(`[${platform.name}:${event.channel}] Failed to post access denial`, err instanceof Error ? err.message : String(err));
+	}
+	return true;
+}
+
 // ============================================================================
 // Handler (shared across all adapters)
 // ============================================================================
 
 const handler: MomHandler = {
-	isRunning(channelId: string): boolean {
-		const state = channelStates.get(channelId);
+	isRunning(channelId: string, thread?: string): boolean {
+		const state = channelStates.get(sessionKey(channelId, thread));
 		return state?.running ?? false;
 	},
 
-	async handleStop(channelId: string, platform: PlatformAdapter): Promise<void> {
-		const state = channelStates.get(channelId);
+	accept(event: MomEvent, platform: PlatformAdapter, isEvent?: boolean): boolean {
+		// Still inside the webhook request's span, if it came in over the gateway
+		event.traceParent ??= tracing.currentTraceparent();
+		return journal.accept(adapterKey(platform), event, !!isEvent);
+	},
+
+	async handleBusy(event: MomEvent, platform: PlatformAdapter): Promise<boolean> {
+		if (await denyAccess(event, platform)) return true;
+
+		const state = channelStates.get(sessionKey(event.channel, event.thread));
+		const mode = new MomSettingsManager(workingDir, join(workingDir, event.channel)).getBusyMode();
+		if (!state?.running || mode === "reject") return false;
+
+		// Steering hands the sender the run's tools, so they must not be missing any of those tools themselves
+		const withheld = access.withheldTools(access.roleOf(event.user, event.channel));
+		if (withheld.some((tool) => !state.withheldTools.includes(tool))) return false;
+
+		let taken = false;
+		try {
+			taken = await state.runner.inject(
+				{ text: event.text, userName: platform.getUser(event.user)?.userName, attachments: event.attachments ?? [] },
+				mode,
+			);
+			if (taken) {
+				await reply(
+					platform,
+					event.channel,
+					event.thread,
+					mode === "steer" ? "_Got it — passing that on._" : "_Queued — I'll get to it after this._",
+				);
+			}
+		} catch (err) {
+			log.logWarning(
+				`[${platform.name}:${event.channel}] Failed to handle message during run`,
+				err instanceof Error ? err.message : String(err),
+			);
+		}
+		return taken;
+	},
+
+	async handleStop(channelId: string, userId: string, platform: PlatformAdapter, thread?: string): Promise<void> {
+		const reason = access.checkUser(userId, adapterKey(platform));
+		if (reason) {
+			access.audit({ action: "denied", adapter: adapterKey(platform), channel: channelId, user: userId, reason });
+			await reply(platform, channelId, thread, ACCESS_DENIED_MESSAGE);
+			return;
+		}
+		const role = access.roleOf(userId, channelId);
+		if (!hasRole(role, "member")) {
+			access.audit({
+				action: "command_denied",
+				adapter: adapterKey(platform),
+				channel: channelId,
+				user: userId,
+				reason: `stop needs member, user is ${role}`,
+			});
+			await reply(platform, channelId, thread, "_Only members can stop a run._");
+			return;
+		}
+
+		const state = channelStates.get(sessionKey(channelId, thread));
 		if (state?.running) {
 			state.stopRequested = true;
 			state.runner.abort();
-			const ts = await platform.postMessage(channelId, "_Stopping..._");
+			const ts = await reply(platform, channelId, thread, "_Stopping..._");
 			state.stopMessageTs = ts;
 		} else {
-			await platform.postMessage(channelId, "_Nothing running_");
+			await reply(platform, channelId, thread, "_Nothing running_");
+		}
+	},
+
+	isCommand(text: string): boolean {
+		return commands.isCommand(text);
+	},
+
+	async handleCommand(event: MomEvent, platform: PlatformAdapter): Promise<void> {
+		if (await denyAccess(event, platform)) return;
+		channelRegistry.register(event.channel, adapterKey(platform), platform.getChannel(event.channel)?.name);
+		try {
+			await commands.execute(event.text, event.channel, event.user, platform, event.thread);
+		} catch (err) {
+			log.logWarning(`[${platform.name}:${event.channel}] Command error`, err instanceof Error ? err.message : String(err));
 		}
 	},
 
+	async handleApproval(
+		channelId: string,
+		requestId: string,
+		approved: boolean,
+		userId: string,
+		platform: PlatformAdapter,
+	): Promise<string> {
+		const reason = access.checkUser(userId, adapterKey(platform));
+		if (reason) {
+			access.audit({ action: "denied", adapter: adapterKey(platform), channel: channelId, user: userId, reason });
+			return "You don't have access to this agent.";
+		}
+		if (!hasRole(access.roleOf(userId, channelId), "member")) {
+			return "Only members can answer approval requests.";
+		}
+		return approvals.resolve(requestId, channelId, approved, userId);
+	},
+
 	async handleEvent(event: MomEvent, platform: PlatformAdapter, isEvent?: boolean): Promise<void> {
-		// Intercept slash commands before spinning up the agent
-		const trimmed = event.text.trim();
-		if (trimmed.startsWith("/") && !isEvent) {
-			const handled = await handleSlashCommand(trimmed, event.channel, workingDir, platform);
-			if (handled) return;
+		// Scheduled events come from the workspace itself — only user messages are checked
+		if (!isEvent && (await denyAccess(event, platform))) {
+			if (event.journalId) journal.complete(event.channel, event.journalId);
+			return;
+		}
+
+		// First adapter to deliver a message for a channel owns it
+		channelRegistry.register(event.channel, adapterKey(platform), platform.getChannel(event.channel)?.name);
+
+		// Scheduled events only count against channel and workspace caps
+		const budgetUser = isEvent ? undefined : event.user;
+		const overBudget = budget.check(event.channel, budgetUser);
+		if (overBudget) {
+			log.logInfo(`[${platform.name}:${event.channel}] Not starting run: ${overBudget}`);
+			if (event.journalId) journal.complete(event.channel, event.journalId);
+			try {
+				await reply(platform, event.channel, event.thread, `_${overBudget}. Ask an owner to raise the limit, or try again later._`);
+			} catch (err) {
+				log.logWarning(`[${event.channel}] Failed to post budget message`, err instanceof Error ? err.message : String(err));
+			}
+			return;
 		}
 
-		const state = getState(event.channel, platform.formatInstructions);
+		const state = getState(event.channel, platform, event.thread);
 
 		// Start run
 		state.running = true;
@@ -294,43 +600,124 @@ const handler: MomHandler = {
 
 		log.logInfo(`[${platform.name}:${event.channel}] Starting run: ${event.text.substring(0, 50)}`);
 
+		// A new run supersedes whatever the last restart cut off
+		interruptedRuns.delete(sessionKey(event.channel, event.thread));
+		const runId = runs.start({
+			channel: event.channel,
+			adapter: adapterKey(platform),
+			user: event.user,
+			text: event.text,
+			isEvent: !!isEvent,
+			journalId: event.journalId,
+			thread: event.thread,
+		});
+		let stopReason = "error";
+		const runStart = performance.now();
+		metrics.runsStarted.inc({ adapter: adapterKey(platform) });
+		// Runs leave the request's async context when they queue, so link back explicitly
+		const runSpan = tracing.startSpan(
+			"run",
+			{ channel: event.channel, adapter: adapterKey(platform), user: event.user, "run.id": runId, "run.event": !!isEvent },
+			tracing.parseTraceparent(event.traceParent) ?? null,
+		);
+
 		try {
-			// Create context from adapter
-			const ctx = platform.createContext(event, state.store, isEvent);
-
-			// Run the agent
-			await ctx.setTyping(true);
-			await ctx.setWorking(true);
-			const result = await state.runner.run(ctx, state.store);
-			await ctx.setWorking(false);
-
-			if (result.stopReason === "aborted" && state.stopRequested) {
-				if (state.stopMessageTs) {
-					await platform.updateMessage(event.channel, state.stopMessageTs, "_Stopped_");
-					state.stopMessageTs = undefined;
-				} else {
-					await platform.postMessage(event.channel, "_Stopped_");
+			await tracing.runInSpan(runSpan, async () => {
+				// Create context from adapter
+				const ctx = tracing.traceContext(platform.createContext(event, state.store, isEvent), adapterKey(platform));
+
+				// Run the agent
+				await ctx.setTyping(true);
+				await ctx.setWorking(true);
+				const role = isEvent ? "owner" : access.roleOf(event.user, event.channel);
+				state.withheldTools = access.withheldTools(role);
+				const result = await state.runner.run(ctx, state.store, undefined, {
+					withheldTools: state.withheldTools,
+					runId,
+					adapter: adapterKey(platform),
+					budgetCheck: (spent) => budget.check(event.channel, budgetUser, spent),
+					trigger: !isEvent ? "message" : event.channel === HEARTBEAT_CHANNEL ? "heartbeat" : "event",
+					eventModel: event.model,
+				});
+				stopReason = result.stopReason;
+				usage.record({
+					runId,
+					channel: event.channel,
+					user: event.user,
+					adapter: adapterKey(platform),
+					model: result.model,
+					provider: result.provider,
+					input: result.usage.input,
+					output: result.usage.output,
+					cacheRead: result.usage.cacheRead,
+					cacheWrite: result.usage.cacheWrite,
+					cost: result.usage.cost.total,
+					durationMs: Math.round(performance.now() - runStart),
+					toolCalls: result.toolCalls,
+				});
+				await ctx.setWorking(false);
+
+				if (result.stopReason === "aborted" && state.stopRequested) {
+					if (state.stopMessageTs) {
+						await platform.updateMessage(event.channel, state.stopMessageTs, "_Stopped_");
+						state.stopMessageTs = undefined;
+					} else {
+						await reply(platform, event.channel, event.thread, "_Stopped_");
+					}
 				}
-			}
+			});
 		} catch (err) {
+			runSpan.recordError(err);
 			log.logWarning(
 				`[${platform.name}:${event.channel}] Run error`,
 				err instanceof Error ? err.message : String(err),
 			);
 		} finally {
+			runSpan.setAttributes({ "run.stop_reason": stopReason }).end();
 			state.running = false;
+			runs.end(event.channel, runId, stopReason);
+			if (event.journalId) journal.complete(event.channel, event.journalId);
+			if (stopReason === "error") {
+				metrics.runsErrored.inc({ adapter: adapterKey(platform) });
+			} else {
+				metrics.runsCompleted.inc({ adapter: adapterKey(platform), stop_reason: stopReason });
+			}
+			metrics.runDuration.observe({ adapter: adapterKey(platform) }, (performance.now() - runStart) / 1000);
 		}
 	},
 };
 
+/**
+ * Queue a run that picks up an interrupted one. Returns the interrupted
+ * run's text, or undefined if the channel (or thread) has nothing to resume.
+ */
+function resumeRun(channelId: string, userId: string, platform: PlatformAdapter, thread?: string): string | undefined {
+	const key = sessionKey(channelId, thread);
+	const run = interruptedRuns.get(key);
+	if (!run) return undefined;
+	interruptedRuns.delete(key);
+	platform.enqueueEvent(
+		{
+			type: "mention",
+			channel: channelId,
+			thread,
+			ts: Date.now().toString(),
+			user: userId,
+			text: `[RESUME] You were restarted partway through this request. Check what was already done, then finish it:\n${run.text}`,
+		},
+		false,
+	);
+	return run.text;
+}
+
 // ============================================================================
 // Start
 // ============================================================================
 
 log.logStartup(workingDir, sandbox.type === "host" ? "host" : `docker:${sandbox.container}`);
-log.logInfo(`Adapters: ${parsedArgs.adapters.join(", ")}`);
-if (parsedArgs.skillsDirs.length > 0) {
-	log.logInfo(`Extra skills dirs: ${parsedArgs.skillsDirs.join(", ")}`);
+log.logInfo(`Adapters: ${adapterEntries.map(adapterLabel).join(", ")}`);
+if (skillsDirs.length > 0) {
+	log.logInfo(`Extra skills dirs: ${skillsDirs.join(", ")}`);
 }
 
 for (const adapter of adapters) {
@@ -348,10 +735,27 @@ const allAdapters: PlatformAdapter[] = [...adapters, heartbeatAdapter];
 const DISPATCH_PATHS: Record<string, string> = {
 	"slack:webhook": "/slack/events",
 	"telegram:webhook": "/telegram/webhook",
+	"discord:interactions": "/discord/interactions",
+	"matrix:appservice": "/_matrix/app/v1/*",
 	"email:webhook": "/email/inbound",
 	"web": "/web/chat",
 };
 
+// Interaction routes: button clicks on approval prompts
+const INTERACTION_PATHS: Record<string, string> = {
+	"slack:webhook": "/slack/interactions",
+	"web": "/web/approval",
+};
+
+/** Dispatch path for an adapter — named instances get their own route ("/slack/events/acme") */
+function dispatchPath(entry: AdapterEntry, paths: Record<string, string> = DISPATCH_PATHS): string | undefined {
+	const path = paths[entry.type];
+	const { instance } = entry;
+	if (!path || !instance) return path;
+	// Prefix routes keep their fixed tail, so mount the instance in front ("/acme/_matrix/app/v1/*")
+	return path.endsWith("/*") ? `/${instance}${path}` : `${path}/${instance}`;
+}
+
 // Start gateway — binds HTTP port before adapter init so callers can
 // detect the port is up. Routes return 503 until their adapter is ready.
 const gateway = new Gateway();
@@ -360,13 +764,40 @@ const gateway = new Gateway();
 // Used by the orchestrator to wait for agent idle before re-syncing schedules.
 gateway.registerGet("/status", async (_req, res) => {
 	const running: string[] = [];
-	for (const [channelId, state] of channelStates) {
-		if (state.running) running.push(channelId);
+	for (const [key, state] of channelStates) {
+		if (state.running) running.push(key);
 	}
 	res.writeHead(200, { "Content-Type": "application/json" });
 	res.end(JSON.stringify({ running, idle: running.length === 0 }));
 });
 
+// Metrics endpoint — Prometheus text format (see metrics.ts)
+metrics.queueDepth.collectWith(() =>
+	[...journal.openByAdapter()].map(([adapter, value]) => ({ labels: { adapter }, value })),
+);
+gateway.registerGet("/metrics", async (_req, res) => {
+	res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+	res.end(metrics.renderMetrics());
+});
+
+// Usage endpoint — ledger totals for billing: ?from=&to=&groupBy=channel|user|model
+gateway.registerGet("/usage", async (req, res) => {
+	const params = new URL(req.url || "", "http://localhost").searchParams;
+	const query = {
+		from: params.get("from") || undefined,
+		to: params.get("to") || undefined,
+		groupBy: (params.get("groupBy") || undefined) as UsageGroup | undefined,
+	};
+	const problem = validateUsageQuery(query);
+	if (problem) {
+		res.writeHead(400, { "Content-Type": "application/json" });
+		res.end(JSON.stringify({ error: problem }));
+		return;
+	}
+	res.writeHead(200, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(usage.report(query)));
+});
+
 // Schedule endpoint — returns next wake time for scheduled events.
 // Used by the orchestrator to set alarms for sleeping containers.
 gateway.registerGet("/schedule", async (_req, res) => {
@@ -381,43 +812,102 @@ gateway.registerGet("/schedule", async (_req, res) => {
 	}
 });
 
-await gateway.start(parsedArgs.port);
-log.logInfo(`[perf] gateway listening: ${(performance.now() - T_BOOT).toFixed(0)}ms`);
+await gateway.start(port);
+log.logDebug(`[perf] gateway listening: ${(performance.now() - T_BOOT).toFixed(0)}ms`);
 
 // Register routes first (so gateway can accept traffic), then start adapters in parallel.
 // Each adapter starts independently — a slow Slack backfill doesn't block Telegram.
 for (let i = 0; i < adapters.length; i++) {
 	const adapter = adapters[i];
-	const adapterName = parsedArgs.adapters[i];
-	const path = DISPATCH_PATHS[adapterName];
+	const path = dispatchPath(adapterEntries[i]);
 
 	if (path && adapter.dispatch) {
 		gateway.register(path, (req, res) => adapter.dispatch!(req, res));
 	}
+
+	const interactionPath = dispatchPath(adapterEntries[i], INTERACTION_PATHS);
+	if (interactionPath && adapter.dispatchInteraction) {
+		gateway.register(interactionPath, (req, res) => adapter.dispatchInteraction!(req, res));
+	}
 }
 
+const startedAdapters: PlatformAdapter[] = [];
 await Promise.all(adapters.map(async (adapter, i) => {
-	const adapterName = parsedArgs.adapters[i];
-	const path = DISPATCH_PATHS[adapterName];
+	const path = dispatchPath(adapterEntries[i]);
+	const interactionPath = dispatchPath(adapterEntries[i], INTERACTION_PATHS);
 	const t = performance.now();
 	try {
 		await adapter.start();
 		if (path) {
 			gateway.markReady(path);
 		}
-		log.logInfo(`[perf] ${adapter.name} started: ${(performance.now() - t).toFixed(0)}ms`);
+		if (interactionPath) {
+			gateway.markReady(interactionPath);
+		}
+		startedAdapters.push(adapter);
+		metrics.adapterUp.set({ adapter: adapterKey(adapter) }, 1);
+		log.logDebug(`[perf] ${adapterKey(adapter)} started: ${(performance.now() - t).toFixed(0)}ms`);
 	} catch (err) {
-		log.logWarning(`[${adapter.name}] adapter.start() failed, skipping: ${err instanceof Error ? err.message : String(err)}`);
+		metrics.adapterUp.set({ adapter: adapterKey(adapter) }, 0);
+		log.logWarning(`[${adapterKey(adapter)}] adapter.start() failed, skipping: ${err instanceof Error ? err.message : String(err)}`);
 	}
 }));
-log.logInfo(`[perf] all adapters started: ${(performance.now() - T_BOOT).toFixed(0)}ms`);
+log.logDebug(`[perf] all adapters started: ${(performance.now() - T_BOOT).toFixed(0)}ms`);
+
+// Runs a crash cut off: close their dangling tool calls and offer /resume. Their
+// queue items are done — replaying them blind could repeat side effects.
+for (const run of runs.interrupted()) {
+	runs.end(run.channel, run.id, "interrupted");
+	if (run.journalId) journal.complete(run.channel, run.journalId);
+
+	const adapter = allAdapters.find((a) => adapterKey(a) === run.adapter);
+	if (!adapter || (adapter !== heartbeatAdapter && !startedAdapters.includes(adapter))) {
+		log.logWarning(`[${run.channel}] Interrupted run found, but ${run.adapter} is not running`);
+		continue;
+	}
+	try {
+		getState(run.channel, adapter, run.thread).runner.repair();
+	} catch (err) {
+		log.logWarning(`[${run.channel}] Failed to repair session`, err instanceof Error ? err.message : String(err));
+	}
+	if (run.isEvent) {
+		log.logInfo(`[${run.channel}] Scheduled event was interrupted by a restart, not resuming: ${run.text.substring(0, 50)}`);
+		continue;
+	}
+	const summary = run.text.length > 100 ? `${run.text.substring(0, 97)}...` : run.text;
+	interruptedRuns.set(sessionKey(run.channel, run.thread), run);
+	try {
+		await reply(
+			adapter,
+			run.channel,
+			run.thread,
+			`_I was restarted while working on "${summary}". Reply \`/resume\` to pick it up again._`,
+		);
+	} catch (err) {
+		log.logWarning(`[${run.channel}] Failed to post resume prompt`, err instanceof Error ? err.message : String(err));
+	}
+}
+
+// Replay work a previous process accepted but never finished
+for (const item of journal.unfinished()) {
+	const adapter = startedAdapters.find((a) => adapterKey(a) === item.adapter);
+	if (!adapter) {
+		log.logWarning(`[${item.event.channel}] Can't replay queued work: ${item.adapter} is not running`);
+		continue;
+	}
+	log.logInfo(`[${item.event.channel}] Replaying unfinished ${item.isEvent ? "event" : "message"} from ${item.date}`);
+	if (!adapter.enqueueEvent(item.event, item.isEvent)) {
+		log.logWarning(`[${item.event.channel}] ${item.adapter} refused replayed work, dropping it`);
+		journal.complete(item.event.channel, item.id);
+	}
+}
 
 // Start events watcher AFTER adapters (may block on slow FS)
 // Uses allAdapters so heartbeat events (_heartbeat channelId) get routed correctly
-const eventsWatcher = createEventsWatcher(workingDir, allAdapters);
+const eventsWatcher = createEventsWatcher(workingDir, allAdapters, channelRegistry);
 eventsWatcher.start();
-log.logInfo(`[perf] events watcher started: ${(performance.now() - T_BOOT).toFixed(0)}ms`);
-log.logInfo(`[perf] TOTAL STARTUP: ${(performance.now() - T_BOOT).toFixed(0)}ms`);
+log.logDebug(`[perf] events watcher started: ${(performance.now() - T_BOOT).toFixed(0)}ms`);
+log.logDebug(`[perf] TOTAL STARTUP: ${(performance.now() - T_BOOT).toFixed(0)}ms`);
 
 // Handle shutdown
 process.on("SIGINT", () => {
@@ -427,7 +917,7 @@ process.on("SIGINT", () => {
 	for (const adapter of adapters) {
 		adapter.stop();
 	}
-	process.exit(0);
+	void tracing.flushTracing().finally(() => process.exit(0));
 });
 
 process.on("SIGTERM", () => {
@@ -437,5 +927,5 @@ process.on("SIGTERM", () => {
 	for (const adapter of adapters) {
 		adapter.stop();
 	}
-	process.exit(0);
+	void tracing.flushTracing().finally(() => process.exit(0));
 });
@@ -0,0 +1,174 @@
+import { randomBytes } from "crypto";
+import { appendFileSync, existsSync, readFileSync } from "fs";
+import { join } from "path";
+import * as log from "./log.js";
+import { bm25, queryTerms, tokenize } from "./search.js";
+import { canFlow } from "./visibility.js";
+
+// ============================================================================
+// MemoryStore — what the agent remembers, retrieved by relevance
+// ============================================================================
+//
+// The remember/recall/forget tools write entries to <workingDir>/memory.jsonl,
+// an append-only journal of "remember" and "forget" lines shared by every
+// channel. An entry belongs to the channel it was made in; `global` entries
+// also show up in other channels, as far as the visibility label of the
+// channel they were made in allows (see visibility.ts). Each run, agent.ts puts only the entries most
+// relevant to the incoming message into the system prompt, ranked with BM25
+// over text and tags — no embeddings, no network. MEMORY.md files stay as the
+// pinned, human-editable part and are always included in full.
+
+const MEMORY_FILENAME = "memory.jsonl";
+
+/** Entries injected into each run's system prompt */
+export const DEFAULT_RECALL_LIMIT = 8;
+
+export interface MemoryEntry {
+	id: string;
+	text: string;
+	tags: string[];
+	/** Channel the entry was made in */
+	channel: string;
+	/** Visible in every channel, not just `channel` */
+	global: boolean;
+	/** ISO 8601 */
+	created: string;
+}
+
+export interface MemoryMatch {
+	entry: MemoryEntry;
+	score: number;
+}
+
+type JournalLine = ({ op: "remember" } & MemoryEntry) | { op: "forget"; id: string; date: string };
+
+/** Tags count this many times over body words */
+const TAG_WEIGHT = 2;
+
+export class MemoryStore {
+	private path: string;
+	private entries: Map<string, MemoryEntry> | null = null;
+
+	constructor(workingDir: string) {
+		this.path = join(workingDir, MEMORY_FILENAME);
+	}
+
+	remember(text: string, channel: string, options: { tags?: string[]; global?: boolean } = {}): MemoryEntry {
+		const entry: MemoryEntry = {
+			id: randomBytes(4).toString("hex"),
+			text: text.trim(),
+			tags: (options.tags ?? []).map((tag) => tag.trim().toLowerCase()).filter(Boolean),
+			channel,
+			global: options.global ?? false,
+			created: new Date().toISOString(),
+		};
+		this.load().set(entry.id, entry);
+		this.append({ op: "remember", ...entry });
+		return entry;
+	}
+
+	/** Delete an entry visible from `channel`. Returns it, or undefined if there is no such entry. */
+	forget(id: string, channel: string): MemoryEntry | undefined {
+		const entry = this.load().get(id);
+		if (!entry || !isVisible(entry, channel)) return undefined;
+		this.load().delete(id);
+		this.append({ op: "forget", id, date: new Date().toISOString() });
+		return entry;
+	}
+
+	/** Entries visible from a channel, newest first */
+	list(channel: string): MemoryEntry[] {
+		return [...this.load().values()].filter((entry) => isVisible(entry, channel)).reverse();
+	}
+
+	/** Entries visible from a channel that share words with the query, best first */
+	search(query: string, channel: string, limit = DEFAULT_RECALL_LIMIT): MemoryMatch[] {
+		const terms = queryTerms(query);
+		if (terms.length === 0) return [];
+
+		const docs = this.list(channel).map((entry) => ({ entry, tokens: documentTokens(entry) }));
+		if (docs.length === 0) return [];
+		const avgLength = docs.reduce((sum, doc) => sum + doc.tokens.length, 0) / docs.length;
+
+		const docFreq = new Map<string, number>();
+		for (const { tokens } of docs) {
+			for (const term of new Set(tokens)) docFreq.set(term, (docFreq.get(term) ?? 0) + 1);
+		}
+
+		const matches: MemoryMatch[] = [];
+		for (const { entry, tokens } of docs) {
+			const termFreq = new Map<string, number>();
+			for (const token of tokens) termFreq.set(token, (termFreq.get(token) ?? 0) + 1);
+			let score = 0;
+			for (const term of terms) {
+				const tf = termFreq.get(term);
+				if (tf) score += bm25(tf, docFreq.get(term)!, docs.length, tokens.length, avgLength);
+			}
+			if (score > 0) matches.push({ entry, score });
+		}
+		// Newest first among equals — list() order, and sort is stable
+		return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+	}
+
+	private load(): Map<string, MemoryEntry> {
+		if (this.entries) return this.entries;
+		const entries = new Map<string, MemoryEntry>();
+		this.entries = entries;
+		if (!existsSync(this.path)) return entries;
+
+		for (const line of readFileSync(this.path, "utf-8").split("\n")) {
+			if (!line.trim()) continue;
+			try {
+				const entry = JSON.parse(line) as JournalLine;
+				if (entry.op === "remember") {
+					const { op: _op, ...memory } = entry;
+					entries.set(memory.id, memory);
+				} else if (entry.op === "forget") {
+					entries.delete(entry.id);
+				}
+			} catch {
+				// A crash mid-append leaves a partial last line — skip it
+			}
+		}
+		return entries;
+	}
+
+	private append(entry: JournalLine): void {
+		try {
+			appendFileSync(this.path, `${JSON.stringify(entry)}\n`);
+		} catch (err) {
+			log.logWarning(`Failed to write ${MEMORY_FILENAME}`, err instanceof Error ? err.message : String(err));
+		}
+	}
+}
+
+/** One store per working directory, shared by every channel's runner and /memory */
+const stores = new Map<string, MemoryStore>();
+
+export function getMemoryStore(workingDir: string): MemoryStore {
+	let store = stores.get(workingDir);
+	if (!store) {
+		store = new MemoryStore(workingDir);
+		stores.set(workingDir, store);
+	}
+	return store;
+}
+
+/** "- [id] text (tags: a, b; global; 2026-01-05)" — the form the tools and prompt use */
+export function formatMemoryEntry(entry: MemoryEntry): string {
+	const details = [
+		entry.tags.length > 0 ? `tags: ${entry.tags.join(", ")}` : undefined,
+		entry.global ? "global" : undefined,
+		entry.created.substring(0, 10),
+	].filter(Boolean);
+	return `- [${entry.id}] ${entry.text} (${details.join("; ")})`;
+}
+
+function isVisible(entry: MemoryEntry, channel: string): boolean {
+	return entry.channel === channel || (entry.global && canFlow(entry.channel, channel));
+}
+
+function documentTokens(entry: MemoryEntry): string[] {
+	const tagTokens = entry.tags.flatMap(tokenize);
+	return [...tokenize(entry.text), ...Array.from({ length: TAG_WEIGHT }, () => tagTokens).flat()];
+}
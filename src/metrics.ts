@@ -0,0 +1,165 @@
+// ============================================================================
+// Metrics — Prometheus counters, gauges and histograms
+// ============================================================================
+//
+// A small in-process registry rendered in the Prometheus text exposition
+// format by GET /metrics on the gateway. Call sites import the metric they
+// bump from here; gauges that are cheaper to read than to track (queue depth)
+// get a collect callback that runs at scrape time.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+	render(): string[];
+}
+
+const registry: Metric[] = [];
+
+function labelKey(labels: Labels): string {
+	return Object.keys(labels)
+		.sort()
+		.map((name) => `${name}="${escapeLabel(labels[name])}"`)
+		.join(",");
+}
+
+function escapeLabel(value: string): string {
+	return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function sample(name: string, key: string, value: number): string {
+	return `${name}${key ? `{${key}}` : ""} ${value}`;
+}
+
+function header(name: string, help: string, type: string): string[] {
+	return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+export class Counter implements Metric {
+	private values = new Map<string, number>();
+
+	constructor(
+		readonly name: string,
+		private help: string,
+	) {
+		registry.push(this);
+	}
+
+	inc(labels: Labels = {}, by = 1): void {
+		const key = labelKey(labels);
+		this.values.set(key, (this.values.get(key) ?? 0) + by);
+	}
+
+	render(): string[] {
+		const lines = header(this.name, this.help, "counter");
+		for (const [key, value] of this.values) lines.push(sample(this.name, key, value));
+		return lines;
+	}
+}
+
+export class Gauge implements Metric {
+	private values = new Map<string, number>();
+	private collect?: () => Array<{ labels: Labels; value: number }>;
+
+	constructor(
+		readonly name: string,
+		private help: string,
+	) {
+		registry.push(this);
+	}
+
+	set(labels: Labels, value: number): void {
+		this.values.set(labelKey(labels), value);
+	}
+
+	/** Read values at scrape time instead of tracking them with set() */
+	collectWith(collect: () => Array<{ labels: Labels; value: number }>): void {
+		this.collect = collect;
+	}
+
+	render(): string[] {
+		const lines = header(this.name, this.help, "gauge");
+		const values = new Map(this.values);
+		for (const { labels, value } of this.collect?.() ?? []) values.set(labelKey(labels), value);
+		for (const [key, value] of values) lines.push(sample(this.name, key, value));
+		return lines;
+	}
+}
+
+/** Seconds-based buckets covering a fast tool call up to a long agent run */
+const DEFAULT_BUCKETS = [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+export class Histogram implements Metric {
+	private series = new Map<string, { counts: number[]; sum: number; count: number }>();
+
+	constructor(
+		readonly name: string,
+		private help: string,
+		private buckets: number[] = DEFAULT_BUCKETS,
+	) {
+		registry.push(this);
+	}
+
+	observe(labels: Labels, value: number): void {
+		const key = labelKey(labels);
+		let series = this.series.get(key);
+		if (!series) {
+			series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+			this.series.set(key, series);
+		}
+		for (let i = 0; i < this.buckets.length; i++) {
+			if (value <= this.buckets[i]) series.counts[i]++;
+		}
+		series.sum += value;
+		series.count++;
+	}
+
+	render(): string[] {
+		const lines = header(this.name, this.help, "histogram");
+		for (const [key, series] of this.series) {
+			const prefix = key ? `${key},` : "";
+			this.buckets.forEach((bound, i) => {
+				lines.push(`${this.name}_bucket{${prefix}le="${bound}"} ${series.counts[i]}`);
+			});
+			lines.push(`${this.name}_bucket{${prefix}le="+Inf"} ${series.count}`);
+			lines.push(sample(`${this.name}_sum`, key, series.sum));
+			lines.push(sample(`${this.name}_count`, key, series.count));
+		}
+		return lines;
+	}
+}
+
+/** Every registered metric in Prometheus text format */
+export function renderMetrics(): string {
+	return `${registry.flatMap((metric) => metric.render()).join("\n")}\n`;
+}
+
+// ============================================================================
+// Troublemaker metrics
+// ============================================================================
+
+export const runsStarted = new Counter("troublemaker_runs_started_total", "Agent runs started, by adapter");
+export const runsCompleted = new Counter(
+	"troublemaker_runs_completed_total",
+	"Agent runs that finished, by adapter and stop reason",
+);
+export const runsErrored = new Counter("troublemaker_runs_errored_total", "Agent runs that ended in an error, by adapter");
+export const runDuration = new Histogram("troublemaker_run_duration_seconds", "Agent run wall time, by adapter");
+
+export const toolDuration = new Histogram(
+	"troublemaker_tool_duration_seconds",
+	"Tool call duration, by tool and outcome (the _count series is the call count)",
+);
+
+export const llmTokens = new Counter("troublemaker_llm_tokens_total", "LLM tokens used, by adapter, model and type");
+export const llmCost = new Counter("troublemaker_llm_cost_dollars_total", "LLM cost in US dollars, by adapter and model");
+
+export const eventsFired = new Counter("troublemaker_events_fired_total", "Scheduled events fired, by type");
+export const compactions = new Counter("troublemaker_compactions_total", "Context compactions, by trigger and outcome");
+export const retries = new Counter("troublemaker_retries_total", "LLM request retries after transient errors");
+export const modelFallbacks = new Counter(
+	"troublemaker_model_fallbacks_total",
+	"Switches to a fallback model after retries ran out, by failed and fallback model",
+);
+
+export const queueDepth = new Gauge("troublemaker_queue_depth", "Open queue journal items (running or waiting), by adapter");
+export const adapterUp = new Gauge("troublemaker_adapter_up", "1 if the adapter started and is running, else 0");
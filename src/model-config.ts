@@ -1,22 +1,37 @@
 /**
  * Model resolution and runtime switching.
  *
- * Priority: env vars > settings.json > defaults.
+ * Priority: env vars > channel settings.json > config channel override >
+ * workspace settings.json > config default > built-in default.
  *
  * Models are resolved through ModelRegistry so custom providers from
  * /data/models.json (e.g. Fireworks proxy models) are available to /model
  * and runtime resolution.
  */
 
-import { getModel, type Api, type Model } from "@mariozechner/pi-ai";
+import { type Api, type AssistantMessage, getModel, isContextOverflow, type Model } from "@mariozechner/pi-ai";
 import { AuthStorage, ModelRegistry } from "@mariozechner/pi-coding-agent";
 import { existsSync, readFileSync } from "fs";
 import { join } from "path";
+import { type ChannelOverride, channelOverride, type ModelRef } from "./config.js";
 import * as log from "./log.js";
 
 const DEFAULT_PROVIDER = "anthropic";
 const DEFAULT_MODEL_ID = "claude-sonnet-4-5";
 
+/** Defaults from troublemaker.config.json — set once at startup */
+let configDefault: ModelRef | undefined;
+let configChannels: Record<string, ChannelOverride> = {};
+
+/**
+ * Install model defaults from the config file. Each sits just below the
+ * settings.json layer it corresponds to, so /model still wins.
+ */
+export function setModelDefaults(model?: ModelRef, channels?: Record<string, ChannelOverride>): void {
+	configDefault = model;
+	configChannels = channels ?? {};
+}
+
 /**
  * Friendly aliases for Fireworks-backed models.
  * Includes legacy aliases for backwards compatibility.
@@ -70,26 +85,49 @@ function resolveFireworksAliasModel(
 }
 
 /**
- * Resolve the model from env vars or settings.json, falling back to defaults.
+ * Resolve the model from env vars, config or settings.json, falling back to defaults.
  *
  * Priority:
  * 1. MOM_MODEL_PROVIDER + MOM_MODEL_ID env vars (set by platform)
- * 2. settings.json defaultProvider + defaultModel (set by /model command or agent)
- * 3. anthropic / claude-sonnet-4-5
+ * 2. <channel>/settings.json defaultProvider + defaultModel (set by /model)
+ * 3. channels.<id>.model in troublemaker.config.json
+ * 4. settings.json defaultProvider + defaultModel (set by /model --global or agent)
+ * 5. model in troublemaker.config.json
+ * 6. anthropic / claude-sonnet-4-5
  */
-export function resolveModel(workingDir?: string, modelRegistry?: ModelRegistry): Model<Api> {
+export function resolveModel(workingDir?: string, modelRegistry?: ModelRegistry, channelId?: string): Model<Api> {
 	// 1. Env vars (highest priority — set by platform/crawdad-cf)
 	let provider = process.env.MOM_MODEL_PROVIDER;
 	let modelId = process.env.MOM_MODEL_ID;
 
-	// 2. settings.json (set by /model command or agent bash)
+	// 2. Channel settings.json (set by /model in that channel)
+	if ((!provider || !modelId) && workingDir && channelId) {
+		const settings = readSettings(join(workingDir, channelId));
+		if (!provider && settings.defaultProvider) provider = settings.defaultProvider;
+		if (!modelId && settings.defaultModel) modelId = settings.defaultModel;
+	}
+
+	// 3. Per-channel override from the config file
+	const channelModel = channelId ? channelOverride(configChannels, channelId)?.model : undefined;
+	if (channelModel) {
+		if (!provider && channelModel.provider) provider = channelModel.provider;
+		if (!modelId) modelId = channelModel.id;
+	}
+
+	// 4. Workspace settings.json (set by /model --global or agent bash)
 	if ((!provider || !modelId) && workingDir) {
 		const settings = readSettings(workingDir);
 		if (!provider && settings.defaultProvider) provider = settings.defaultProvider;
 		if (!modelId && settings.defaultModel) modelId = settings.defaultModel;
 	}
 
-	// 3. Defaults
+	// 5. Config file default
+	if (configDefault) {
+		if (!provider && configDefault.provider) provider = configDefault.provider;
+		if (!modelId) modelId = configDefault.id;
+	}
+
+	// 6. Defaults
 	provider = provider || DEFAULT_PROVIDER;
 	modelId = modelId || DEFAULT_MODEL_ID;
 
@@ -177,6 +215,55 @@ export function findModel(
 	return undefined;
 }
 
+/**
+ * Resolve the settings.json fallback chain. Entries that don't match a model
+ * are skipped with a warning rather than failing the run they'd rescue.
+ */
+export function resolveFallbackModels(
+	queries: string[],
+	workingDir?: string,
+	modelRegistry?: ModelRegistry,
+): Model<Api>[] {
+	const models: Model<Api>[] = [];
+	for (const query of queries) {
+		const model = lookupModel(query, workingDir, modelRegistry);
+		if (!model) {
+			log.logWarning(`Fallback model not found: ${query}`, "Skipping it");
+			continue;
+		}
+		models.push(model);
+	}
+	return models;
+}
+
+/**
+ * Provider errors worth moving to a fallback model for: overloads, rate
+ * limits, server and connection errors. Matches what AgentSession retries;
+ * status codes only count as whole numbers, not inside IDs or token counts.
+ */
+const RETRYABLE_ERROR =
+	/overloaded|rate.?limit|too many requests|\b(?:429|500|502|503|504)\b|service.?unavailable|server error|internal error|connection.?error|connection.?refused|other side closed|fetch failed|upstream.?connect|reset before headers|terminated|retry delay/i;
+
+/**
+ * Whether a failed reply should be answered again by the next fallback model.
+ * Context overflow never is — compaction handles it, and a smaller model
+ * wouldn't fit the context either.
+ */
+export function isFallbackError(message: AssistantMessage, contextWindow?: number): boolean {
+	if (message.stopReason !== "error" || !message.errorMessage) return false;
+	if (isContextOverflow(message, contextWindow)) return false;
+	return RETRYABLE_ERROR.test(message.errorMessage);
+}
+
+/**
+ * findModel() ready to run: base URL overrides applied, as resolveModel()
+ * does for the channel model.
+ */
+export function lookupModel(query: string, workingDir?: string, modelRegistry?: ModelRegistry): Model<Api> | undefined {
+	const model = findModel(query, workingDir, modelRegistry);
+	return model ? applyBaseUrlOverride(model, model.provider) : undefined;
+}
+
 /**
  * List available models (for /model command with no args).
  */
@@ -192,8 +279,8 @@ export function listModels(
 	}));
 }
 
-function readSettings(workingDir: string): { defaultProvider?: string; defaultModel?: string } {
-	const settingsPath = join(workingDir, "settings.json");
+function readSettings(dir: string): { defaultProvider?: string; defaultModel?: string } {
+	const settingsPath = join(dir, "settings.json");
 	if (!existsSync(settingsPath)) return {};
 	try {
 		return JSON.parse(readFileSync(settingsPath, "utf-8"));
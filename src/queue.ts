@@ -0,0 +1,150 @@
+import { randomBytes } from "crypto";
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { MomEvent } from "./adapters/types.js";
+import * as log from "./log.js";
+
+// ============================================================================
+// QueueJournal — accepted work that must survive a restart
+// ============================================================================
+//
+// Adapters keep their run queues in memory, so each message or event they
+// accept is also appended to <workingDir>/<channel>/queue.jsonl. The handler
+// marks it done once runner.run() returns; on boot, main.ts hands whatever is
+// still open back to the owning adapter. A channel's file is truncated
+// whenever its last open item completes.
+
+export const DEFAULT_QUEUE_DEPTH = 5;
+
+const JOURNAL_FILENAME = "queue.jsonl";
+
+export interface QueueItem {
+	id: string;
+	/** Adapter instance that accepted the work ("slack", "telegram@beta") */
+	adapter: string;
+	/** Scheduled event (runs as owner) rather than a user message */
+	isEvent: boolean;
+	event: MomEvent;
+	/** ISO 8601 date the work was accepted */
+	date: string;
+}
+
+type JournalLine = ({ op: "accept" } & QueueItem) | { op: "done"; id: string; date: string };
+
+export class QueueJournal {
+	/** Open items per channel, loaded from disk on first touch */
+	private open = new Map<string, Map<string, QueueItem>>();
+
+	constructor(
+		private workingDir: string,
+		readonly depth: number = DEFAULT_QUEUE_DEPTH,
+	) {}
+
+	/**
+	 * Record work an adapter is about to queue and stamp `event.journalId`.
+	 * Returns false when a scheduled event would put more than `depth` items
+	 * behind the current run — the caller discards it. User messages are
+	 * always recorded, and so is work that is already in the journal (replay).
+	 */
+	accept(adapter: string, event: MomEvent, isEvent: boolean): boolean {
+		const items = this.load(event.channel);
+		if (event.journalId && items.has(event.journalId)) return true;
+		// One item may be running; `depth` more may wait behind it
+		if (isEvent && items.size > this.depth) return false;
+
+		const item: QueueItem = {
+			id: randomBytes(6).toString("hex"),
+			adapter,
+			isEvent,
+			event: { ...event, journalId: undefined },
+			date: new Date().toISOString(),
+		};
+		event.journalId = item.id;
+		items.set(item.id, item);
+		this.append(event.channel, { op: "accept", ...item });
+		return true;
+	}
+
+	/** Mark work finished. Unknown IDs are ignored. */
+	complete(channelId: string, id: string): void {
+		const items = this.load(channelId);
+		if (!items.delete(id)) return;
+		if (items.size === 0) {
+			// Nothing left to replay — start the file over instead of growing it forever
+			try {
+				writeFileSync(this.path(channelId), "");
+			} catch (err) {
+				log.logWarning(`[${channelId}] Failed to truncate ${JOURNAL_FILENAME}`, err instanceof Error ? err.message : String(err));
+			}
+			return;
+		}
+		this.append(channelId, { op: "done", id, date: new Date().toISOString() });
+	}
+
+	/** Open items in one channel */
+	size(channelId: string): number {
+		return this.load(channelId).size;
+	}
+
+	/** Open items per adapter, across the channels touched since boot (/metrics) */
+	openByAdapter(): Map<string, number> {
+		const counts = new Map<string, number>();
+		for (const items of this.open.values()) {
+			for (const item of items.values()) counts.set(item.adapter, (counts.get(item.adapter) ?? 0) + 1);
+		}
+		return counts;
+	}
+
+	/** Every open item across channels, oldest first — what a restart has to replay */
+	unfinished(): QueueItem[] {
+		const items: QueueItem[] = [];
+		if (!existsSync(this.workingDir)) return items;
+		for (const entry of readdirSync(this.workingDir, { withFileTypes: true })) {
+			if (!entry.isDirectory() || !existsSync(this.path(entry.name))) continue;
+			for (const item of this.load(entry.name).values()) {
+				items.push({ ...item, event: { ...item.event, journalId: item.id } });
+			}
+		}
+		return items.sort((a, b) => a.date.localeCompare(b.date));
+	}
+
+	private load(channelId: string): Map<string, QueueItem> {
+		let items = this.open.get(channelId);
+		if (items) return items;
+
+		items = new Map();
+		this.open.set(channelId, items);
+		const path = this.path(channelId);
+		if (!existsSync(path)) return items;
+
+		for (const line of readFileSync(path, "utf-8").split("\n")) {
+			if (!line.trim()) continue;
+			try {
+				const entry = JSON.parse(line) as JournalLine;
+				if (entry.op === "accept") {
+					const { op: _op, ...item } = entry;
+					items.set(item.id, item);
+				} else if (entry.op === "done") {
+					items.delete(entry.id);
+				}
+			} catch {
+				// A crash mid-append leaves a partial last line — skip it
+			}
+		}
+		return items;
+	}
+
+	private append(channelId: string, entry: JournalLine): void {
+		const dir = join(this.workingDir, channelId);
+		try {
+			if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+			appendFileSync(this.path(channelId), `${JSON.stringify(entry)}\n`);
+		} catch (err) {
+			log.logWarning(`[${channelId}] Failed to write ${JOURNAL_FILENAME}`, err instanceof Error ? err.message : String(err));
+		}
+	}
+
+	private path(channelId: string): string {
+		return join(this.workingDir, channelId, JOURNAL_FILENAME);
+	}
+}
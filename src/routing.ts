@@ -0,0 +1,108 @@
+import type { Api, Model } from "@mariozechner/pi-ai";
+import type { ModelRegistry } from "@mariozechner/pi-coding-agent";
+import type { ModelRef, RoutingConfig } from "./config.js";
+import * as log from "./log.js";
+import { lookupModel } from "./model-config.js";
+
+// ============================================================================
+// Model routing — a model per run
+// ============================================================================
+//
+// resolveModel() picks the channel's model. The `routing` section of
+// troublemaker.config.json can swap in another one for a single run, based on
+// what triggered it. First match wins:
+//
+//   1. `model` in the event JSON
+//   2. `routing.heartbeat` / `routing.events` for scheduled runs
+//   3. `routing.messages` by the length of a user's message
+//
+// Then, if the message carries images and the picked model can't read them,
+// `routing.vision` takes over — or the channel model, if it can. A route that
+// names an unknown model is skipped with a warning.
+
+export type RunTrigger = "message" | "event" | "heartbeat";
+
+export interface RouteRequest {
+	trigger: RunTrigger;
+	/** `model` from the event JSON */
+	eventModel?: string;
+	/** Length of the message text as sent, without the timestamp/user prefix */
+	textLength: number;
+	hasImages: boolean;
+}
+
+export interface Route {
+	model: Model<Api>;
+	/** Why the channel model was replaced; undefined when it wasn't */
+	reason?: string;
+}
+
+let policy: RoutingConfig = {};
+
+/** Install the config file's routing section — set once at startup */
+export function setRoutingPolicy(routing?: RoutingConfig): void {
+	policy = routing ?? {};
+}
+
+export function routeModel(
+	channelModel: Model<Api>,
+	request: RouteRequest,
+	workingDir: string,
+	modelRegistry: ModelRegistry,
+): Route {
+	const find = (query: string, rule: string) => {
+		const model = lookupModel(query, workingDir, modelRegistry);
+		if (!model) log.logWarning(`Routing: model not found for ${rule}: ${query}`, "Skipping the rule");
+		return model;
+	};
+
+	let route: Route = { model: channelModel };
+	const candidates: Array<{ query: string; rule: string }> = [];
+	if (request.eventModel) candidates.push({ query: request.eventModel, rule: "event model" });
+	if (request.trigger === "heartbeat" && policy.heartbeat) {
+		candidates.push({ query: refQuery(policy.heartbeat), rule: "heartbeat" });
+	}
+	if (request.trigger === "event" && policy.events) {
+		candidates.push({ query: refQuery(policy.events), rule: "events" });
+	}
+	if (request.trigger === "message") {
+		for (const entry of policy.messages ?? []) {
+			if (entry.minLength !== undefined && request.textLength < entry.minLength) continue;
+			if (entry.maxLength !== undefined && request.textLength > entry.maxLength) continue;
+			candidates.push({ query: refQuery(entry.model), rule: `message length ${request.textLength}` });
+			break;
+		}
+	}
+	for (const { query, rule } of candidates) {
+		const model = find(query, rule);
+		if (model) {
+			route = { model, reason: rule };
+			break;
+		}
+	}
+
+	if (request.hasImages && !route.model.input.includes("image")) {
+		const vision = policy.vision ? find(refQuery(policy.vision), "vision") : undefined;
+		if (vision && vision.input.includes("image")) {
+			route = { model: vision, reason: "images attached" };
+		} else if (channelModel.input.includes("image")) {
+			route = { model: channelModel, reason: "images attached" };
+		} else {
+			log.logWarning(
+				`Routing: ${route.model.provider}/${route.model.id} can't read images`,
+				"Set routing.vision to a vision-capable model",
+			);
+		}
+	}
+
+	// Routed back to where it started
+	if (route.model.provider === channelModel.provider && route.model.id === channelModel.id) {
+		return { model: channelModel };
+	}
+	return route;
+}
+
+/** "provider/id", or just the id — anything /model accepts */
+function refQuery(ref: ModelRef): string {
+	return ref.provider ? `${ref.provider}/${ref.id}` : ref.id;
+}
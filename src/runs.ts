@@ -0,0 +1,125 @@
+import { randomBytes } from "crypto";
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import * as log from "./log.js";
+
+// ============================================================================
+// RunJournal — which runs started and never finished
+// ============================================================================
+//
+// main.ts appends a start line to <workingDir>/<channel>/runs.jsonl before
+// runner.run() and an end line after it returns. A start without an end means
+// the process died mid-run: on boot the session is repaired (dangling tool
+// calls get "interrupted" results) and the channel is offered /resume. Thread
+// sessions run alongside the channel's, so runs carry their thread. Once no
+// run in a channel is open the file starts over, so it doesn't grow forever.
+
+const JOURNAL_FILENAME = "runs.jsonl";
+
+export interface RunRecord {
+	id: string;
+	channel: string;
+	/** Adapter instance the run was for ("slack", "telegram@beta") */
+	adapter: string;
+	user: string;
+	/** The message or event text that started the run */
+	text: string;
+	isEvent: boolean;
+	/** Queue journal entry of the work item, if it had one */
+	journalId?: string;
+	/** Thread root timestamp, for runs in a thread session */
+	thread?: string;
+	/** ISO 8601 start date */
+	date: string;
+}
+
+type JournalLine =
+	| ({ op: "start" } & RunRecord)
+	| { op: "end"; id: string; date: string; stopReason: string };
+
+export class RunJournal {
+	/** Open runs per channel, by thread root timestamp ("" for the channel session), loaded on first touch */
+	private open = new Map<string, Map<string, RunRecord>>();
+
+	constructor(private workingDir: string) {}
+
+	/** Record a run starting. Returns the run ID to pass to end(). */
+	start(record: Omit<RunRecord, "id" | "date">): string {
+		const run: RunRecord = { id: randomBytes(6).toString("hex"), date: new Date().toISOString(), ...record };
+		this.load(record.channel).set(run.thread ?? "", run);
+		this.append(record.channel, { op: "start", ...run });
+		return run.id;
+	}
+
+	/** Record a run finishing ("interrupted" when boot recovery closes it) */
+	end(channelId: string, id: string, stopReason: string): void {
+		const runs = this.load(channelId);
+		for (const [session, run] of runs) {
+			if (run.id === id) runs.delete(session);
+		}
+		if (runs.size === 0) {
+			// Nothing left to recover — start the file over instead of growing it forever
+			try {
+				writeFileSync(this.path(channelId), "");
+			} catch (err) {
+				log.logWarning(`[${channelId}] Failed to truncate ${JOURNAL_FILENAME}`, err instanceof Error ? err.message : String(err));
+			}
+			return;
+		}
+		this.append(channelId, { op: "end", id, date: new Date().toISOString(), stopReason });
+	}
+
+	/** Runs that started but never ended, one per session (channel or thread) at most, oldest first */
+	interrupted(): RunRecord[] {
+		const runs: RunRecord[] = [];
+		if (!existsSync(this.workingDir)) return runs;
+		for (const entry of readdirSync(this.workingDir, { withFileTypes: true })) {
+			if (!entry.isDirectory()) continue;
+			if (existsSync(this.path(entry.name))) runs.push(...this.load(entry.name).values());
+		}
+		return runs.sort((a, b) => a.date.localeCompare(b.date));
+	}
+
+	/** Sessions run one at a time, so only the last start of each can be open */
+	private load(channelId: string): Map<string, RunRecord> {
+		let open = this.open.get(channelId);
+		if (open) return open;
+
+		open = new Map();
+		this.open.set(channelId, open);
+		const path = this.path(channelId);
+		if (!existsSync(path)) return open;
+
+		for (const line of readFileSync(path, "utf-8").split("\n")) {
+			if (!line.trim()) continue;
+			try {
+				const entry = JSON.parse(line) as JournalLine;
+				if (entry.op === "start") {
+					const { op: _op, ...record } = entry;
+					open.set(record.thread ?? "", record);
+				} else if (entry.op === "end") {
+					for (const [session, record] of open) {
+						if (record.id === entry.id) open.delete(session);
+					}
+				}
+			} catch {
+				// A crash mid-append leaves a partial last line — skip it
+			}
+		}
+		return open;
+	}
+
+	private append(channelId: string, entry: JournalLine): void {
+		const dir = join(this.workingDir, channelId);
+		try {
+			if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+			appendFileSync(this.path(channelId), `${JSON.stringify(entry)}\n`);
+		} catch (err) {
+			log.logWarning(`[${channelId}] Failed to write ${JOURNAL_FILENAME}`, err instanceof Error ? err.message : String(err));
+		}
+	}
+
+	private path(channelId: string): string {
+		return join(this.workingDir, channelId, JOURNAL_FILENAME);
+	}
+}
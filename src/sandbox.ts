@@ -1,4 +1,5 @@
 import { spawn } from "child_process";
+import { withSpan } from "./tracing.js";
 
 export type SandboxConfig = { type: "host" } | { type: "docker"; container: string };
 
@@ -103,6 +104,14 @@ export interface ExecResult {
 
 class HostExecutor implements Executor {
 	async exec(command: string, options?: ExecOptions): Promise<ExecResult> {
+		return withSpan("executor.exec", { "executor.command": command }, async (span) => {
+			const result = await this.spawn(command, options);
+			span.setAttributes({ "executor.exit_code": result.code });
+			return result;
+		});
+	}
+
+	private spawn(command: string, options?: ExecOptions): Promise<ExecResult> {
 		return new Promise((resolve, reject) => {
 			const shell = process.platform === "win32" ? "cmd" : "sh";
 			const shellArgs = process.platform === "win32" ? ["/c"] : ["-c"];
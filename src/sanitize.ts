@@ -11,6 +11,7 @@ import * as log from "./log.js";
 interface ContentBlock {
 	type: string;
 	id?: string;
+	name?: string;
 	tool_use_id?: string;
 	[key: string]: unknown;
 }
@@ -21,6 +22,15 @@ interface Message {
 	[key: string]: unknown;
 }
 
+export interface ToolCallRef {
+	id: string;
+	name: string;
+}
+
+/** What the model sees in place of a result that never came */
+const INTERRUPTED_TEXT =
+	"Interrupted: the process restarted before this tool call finished. Its effects, if any, are unknown — check before retrying.";
+
 /**
  * Validate and fix message sequence for Anthropic API compatibility.
  *
@@ -71,6 +81,39 @@ export function sanitizeMessages(messages: Message[]): Message[] {
 	return result;
 }
 
+/**
+ * Tool calls in the last assistant message that have no result after them —
+ * what a crash mid-tool-call leaves at the end of context.jsonl. Aborted and
+ * errored turns don't count; they are never replayed to the model.
+ */
+export function danglingToolCalls(messages: Message[]): ToolCallRef[] {
+	let lastAssistant = -1;
+	for (let i = messages.length - 1; i >= 0; i--) {
+		if (messages[i].role === "assistant") {
+			lastAssistant = i;
+			break;
+		}
+	}
+	if (lastAssistant === -1) return [];
+	const stopReason = messages[lastAssistant].stopReason;
+	if (stopReason === "aborted" || stopReason === "error") return [];
+
+	const answered = new Set(messages.slice(lastAssistant + 1).flatMap((msg) => getToolResultIds(msg)));
+	return getToolCalls(messages[lastAssistant]).filter((call) => !answered.has(call.id));
+}
+
+/** Error tool result standing in for a call that never finished (pi-ai toolResult format) */
+export function interruptedResult(call: ToolCallRef): Message {
+	return {
+		role: "toolResult",
+		toolCallId: call.id,
+		toolName: call.name,
+		content: [{ type: "text", text: INTERRUPTED_TEXT }],
+		isError: true,
+		timestamp: Date.now(),
+	};
+}
+
 function hasToolResults(msg: Message): boolean {
 	if (!Array.isArray(msg.content)) return false;
 	return msg.content.some((block) => block.type === "tool_result");
@@ -98,12 +141,13 @@ function findPrecedingAssistant(messages: Message[]): Message | null {
 }
 
 function getToolUseIds(msg: Message): Set<string> {
-	const ids = new Set<string>();
-	if (!Array.isArray(msg.content)) return ids;
-	for (const block of msg.content) {
-		if (block.type === "tool_use" && block.id) {
-			ids.add(block.id);
-		}
-	}
-	return ids;
+	return new Set(getToolCalls(msg).map((call) => call.id));
+}
+
+/** Tool calls in an assistant message — pi-ai toolCall blocks or Anthropic tool_use blocks */
+function getToolCalls(msg: Message): ToolCallRef[] {
+	if (!Array.isArray(msg.content)) return [];
+	return msg.content
+		.filter((block) => (block.type === "toolCall" || block.type === "tool_use") && block.id)
+		.map((block) => ({ id: block.id as string, name: block.name ?? "unknown" }));
 }
@@ -0,0 +1,47 @@
+// ============================================================================
+// Text search — tokenizing and BM25 scoring
+// ============================================================================
+//
+// Shared by memory entries (memory.ts) and message history (history.ts). Both
+// rank locally: lowercase word tokens with stopwords dropped and plurals
+// folded, scored with BM25.
+
+/** BM25 parameters — the usual defaults */
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+	"a an and are as at be but by for from has have i in is it its me my of on or our so that the this to was we were what when where which who will with you your".split(
+		" ",
+	),
+);
+
+export function tokenize(text: string): string[] {
+	return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+		.filter((token) => token.length > 1 && !STOPWORDS.has(token))
+		.map(stem);
+}
+
+/** Query terms, deduplicated */
+export function queryTerms(query: string): string[] {
+	return [...new Set(tokenize(query))];
+}
+
+/**
+ * One term's contribution to a document's score.
+ *
+ * @param tf - Occurrences of the term in the document
+ * @param df - Documents containing the term
+ * @param docCount - Documents in the collection
+ * @param docLength - Tokens in the document
+ * @param avgLength - Average tokens per document
+ */
+export function bm25(tf: number, df: number, docCount: number, docLength: number, avgLength: number): number {
+	const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+	return (idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * docLength) / (avgLength || 1)));
+}
+
+/** Crude plural folding so "deploys" finds "deploy" */
+function stem(token: string): string {
+	return token.length > 3 && token.endsWith("s") && !token.endsWith("ss") ? token.slice(0, -1) : token;
+}
@@ -17,6 +17,7 @@ export interface LoggedMessage {
 	text: string;
 	attachments: Attachment[];
 	isBot: boolean;
+	thread?: string; // thread root ts, for replies in a Slack thread
 }
 
 export interface ChannelStoreConfig {
@@ -7,6 +7,8 @@ import { createReadTool } from "./read.js";
 import { createWriteTool } from "./write.js";
 
 export { setUploadFunction } from "./attach.js";
+export { createMemoryTools } from "./memory.js";
+export { createSearchHistoryTool } from "./search-history.js";
 
 export function createMomTools(executor: Executor): AgentTool<any>[] {
 	return [
@@ -0,0 +1,93 @@
+/**
+ * Memory tools: remember, recall and forget.
+ *
+ * Entries live in the workspace's MemoryStore (memory.jsonl). Each run already
+ * sees the few entries most relevant to the incoming message; recall searches
+ * the rest.
+ */
+
+import type { AgentTool } from "@mariozechner/pi-agent-core";
+import { Type } from "@sinclair/typebox";
+import { DEFAULT_RECALL_LIMIT, formatMemoryEntry, type MemoryStore } from "../memory.js";
+
+const MAX_RECALL_LIMIT = 50;
+
+/**
+ * Create the memory tools for one channel.
+ *
+ * @param store - The workspace's memory store
+ * @param channelId - Channel new entries belong to and searches are scoped to
+ */
+export function createMemoryTools(store: MemoryStore, channelId: string): AgentTool<any>[] {
+	const rememberSchema = Type.Object({
+		label: Type.String({ description: "Brief description of what you're remembering (shown to user)" }),
+		text: Type.String({ description: "The fact, preference or decision to remember, self-contained" }),
+		tags: Type.Optional(Type.Array(Type.String(), { description: "Topic tags that help find it later" })),
+		global: Type.Optional(
+			Type.Boolean({ description: "Make it visible in every channel, not just this one (default false)" }),
+		),
+	});
+
+	const recallSchema = Type.Object({
+		label: Type.String({ description: "Brief description of what you're looking up (shown to user)" }),
+		query: Type.String({ description: "Words to search memory entries and their tags for" }),
+		limit: Type.Optional(Type.Integer({ minimum: 1, maximum: MAX_RECALL_LIMIT, description: "Maximum entries (default 8)" })),
+	});
+
+	const forgetSchema = Type.Object({
+		label: Type.String({ description: "Brief description of what you're forgetting (shown to user)" }),
+		id: Type.String({ description: "ID of the entry to delete, as shown in brackets" }),
+	});
+
+	const remember: AgentTool<typeof rememberSchema> = {
+		name: "remember",
+		label: "remember",
+		description:
+			"Store a memory entry that persists across conversations. Use it for facts, preferences and decisions worth keeping. " +
+			"Keep each entry to one self-contained statement.",
+		parameters: rememberSchema,
+		execute: async (
+			_toolCallId: string,
+			{ text, tags, global }: { label: string; text: string; tags?: string[]; global?: boolean },
+		) => {
+			if (!text.trim()) throw new Error("Nothing to remember: text is empty");
+			const entry = store.remember(text, channelId, { tags, global });
+			return {
+				content: [{ type: "text" as const, text: `Remembered ${formatMemoryEntry(entry).substring(2)}` }],
+				details: undefined,
+			};
+		},
+	};
+
+	const recall: AgentTool<typeof recallSchema> = {
+		name: "recall",
+		label: "recall",
+		description: "Search memory entries by relevance to a query. Returns entry IDs, text, tags and dates.",
+		parameters: recallSchema,
+		execute: async (_toolCallId: string, { query, limit }: { label: string; query: string; limit?: number }) => {
+			const matches = store.search(query, channelId, Math.min(limit ?? DEFAULT_RECALL_LIMIT, MAX_RECALL_LIMIT));
+			const text =
+				matches.length > 0
+					? matches.map(({ entry }) => formatMemoryEntry(entry)).join("\n")
+					: `No memory entries match "${query}".`;
+			return { content: [{ type: "text" as const, text }], details: undefined };
+		},
+	};
+
+	const forget: AgentTool<typeof forgetSchema> = {
+		name: "forget",
+		label: "forget",
+		description: "Delete a memory entry by ID, e.g. when it is wrong or out of date.",
+		parameters: forgetSchema,
+		execute: async (_toolCallId: string, { id }: { label: string; id: string }) => {
+			const entry = store.forget(id.replace(/^\[|\]$/g, "").trim(), channelId);
+			if (!entry) throw new Error(`No memory entry ${id} in this channel`);
+			return {
+				content: [{ type: "text" as const, text: `Forgot: ${entry.text}` }],
+				details: undefined,
+			};
+		},
+	};
+
+	return [remember, recall, forget];
+}
@@ -0,0 +1,83 @@
+/**
+ * search_history tool.
+ *
+ * Ranked full-text search over log.jsonl, for history older than the context
+ * window. Runs in the host process against the per-channel search index (see
+ * history.ts), so it behaves the same whatever the sandbox.
+ */
+
+import type { AgentTool } from "@mariozechner/pi-agent-core";
+import { Type } from "@sinclair/typebox";
+import { channelsWithHistory, DEFAULT_HISTORY_LIMIT, searchHistory } from "../history.js";
+import { DATE_PREFIX } from "../usage.js";
+import { canFlow } from "../visibility.js";
+
+const MAX_HISTORY_LIMIT = 50;
+
+/**
+ * Create the search_history tool for one channel.
+ *
+ * @param workingDir - Host working directory holding the channel directories
+ * @param channelId - Channel searched unless allChannels is set, and whose visibility bounds allChannels
+ */
+export function createSearchHistoryTool(workingDir: string, channelId: string): AgentTool<any> {
+	const schema = Type.Object({
+		label: Type.String({ description: "Brief description of what you're looking for (shown to user)" }),
+		query: Type.Optional(
+			Type.String({ description: "Words to search for. Leave out to list the newest messages matching the filters." }),
+		),
+		user: Type.Optional(Type.String({ description: "Only messages from this user ID, handle or display name; \"bot\" for your replies" })),
+		from: Type.Optional(Type.String({ description: "Earliest date, inclusive: 2026-01, 2026-01-05 or a full ISO timestamp" })),
+		to: Type.Optional(Type.String({ description: "Latest date, inclusive, same forms as from" })),
+		allChannels: Type.Optional(Type.Boolean({ description: "Search every channel, not just this one (default false)" })),
+		limit: Type.Optional(
+			Type.Integer({ minimum: 1, maximum: MAX_HISTORY_LIMIT, description: `Maximum results (default ${DEFAULT_HISTORY_LIMIT})` }),
+		),
+	});
+
+	return {
+		name: "search_history",
+		label: "search_history",
+		description:
+			"Search message history (log.jsonl: user messages and your final replies, no tool results) beyond your context. " +
+			"Filter by words, user and date range, in this channel or all channels. Returns the best matches with dates and snippets.",
+		parameters: schema,
+		execute: async (
+			_toolCallId: string,
+			params: { label: string; query?: string; user?: string; from?: string; to?: string; allChannels?: boolean; limit?: number },
+			signal?: AbortSignal,
+		) => {
+			if (signal?.aborted) {
+				throw new Error("Operation aborted");
+			}
+			for (const bound of ["from", "to"] as const) {
+				const value = params[bound];
+				if (value !== undefined && !DATE_PREFIX.test(value)) {
+					throw new Error(`${bound}: expected an ISO 8601 date like 2026-01-05`);
+				}
+			}
+
+			// Channels more private than this one stay out of the results
+			const channels = params.allChannels
+				? channelsWithHistory(workingDir).filter((other) => canFlow(other, channelId))
+				: [channelId];
+			const hits = searchHistory(workingDir, channels, {
+				text: params.query,
+				user: params.user,
+				from: params.from,
+				to: params.to,
+				limit: Math.min(params.limit ?? DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT),
+			});
+			const text =
+				hits.length > 0
+					? hits
+							.map((hit) => {
+								const where = params.allChannels ? ` #${hit.channel}` : "";
+								return `[${hit.date.substring(0, 16).replace("T", " ")}]${where} ${hit.user}: ${hit.snippet}`;
+							})
+							.join("\n")
+					: "No messages found.";
+			return { content: [{ type: "text" as const, text }], details: undefined };
+		},
+	};
+}
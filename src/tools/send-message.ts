@@ -1,44 +1,33 @@
 /**
  * Cross-channel send_message tool.
  *
- * Lets the agent send a message to any connected channel (Telegram, Slack, Email)
+ * Lets the agent send a message to any connected channel (Telegram, Slack, Discord, Matrix, Email)
  * regardless of which channel the current conversation is on.
  *
- * Routing is by channel ID pattern:
- *   numeric (positive or negative) → Telegram
- *   C/D/G prefix                   → Slack
- *   email-{address}                → Email
+ * Routing goes through the channel registry (channels.json), which records
+ * the adapter that owns each channel.
  */
 
 import type { AgentTool } from "@mariozechner/pi-agent-core";
 import { Type } from "@sinclair/typebox";
 import { basename } from "path";
 import type { PlatformAdapter } from "../adapters/types.js";
+import type { ChannelRegistry } from "../channels.js";
 import * as log from "../log.js";
-
-/** Resolve which adapter can handle a given channel ID */
-function resolveAdapter(channel: string, adapters: PlatformAdapter[]): PlatformAdapter | undefined {
-	// Telegram: numeric (positive or negative)
-	if (/^-?\d+$/.test(channel)) {
-		return adapters.find((a) => a.name === "telegram");
-	}
-	// Slack: starts with C, D, or G
-	if (/^[CDG]/.test(channel)) {
-		return adapters.find((a) => a.name === "slack");
-	}
-	// Email: starts with "email-" (internal channel ID format)
-	if (channel.startsWith("email-")) {
-		return adapters.find((a) => a.name === "email");
-	}
-	return undefined;
-}
+import { canFlow, visibilityOf } from "../visibility.js";
 
 /**
  * Create the send_message tool for cross-channel messaging.
  *
  * @param adapters - All platform adapters available for routing
+ * @param channels - Registry mapping channel IDs to their owning adapter
+ * @param sourceChannel - Channel whose runs use the tool; sends to less private channels are refused
  */
-export function createSendMessageTool(adapters: PlatformAdapter[]): AgentTool<any> {
+export function createSendMessageTool(
+	adapters: PlatformAdapter[],
+	channels: ChannelRegistry,
+	sourceChannel: string,
+): AgentTool<any> {
 	const schema = Type.Object({
 		label: Type.String({ description: "Brief description of what you're sending (shown in logs)" }),
 		channel: Type.String({ description: "Channel ID to send to (e.g., Telegram chat ID, Slack channel ID)" }),
@@ -50,9 +39,9 @@ export function createSendMessageTool(adapters: PlatformAdapter[]): AgentTool<an
 		name: "send_message",
 		label: "send_message",
 		description:
-			"Send a message to a specific channel. Use this to reach people on Telegram, Slack, or Email. " +
-			"The channel ID determines which platform the message goes to: " +
-			"numeric IDs → Telegram, C/D/G-prefixed → Slack, email-{address} → Email. " +
+			"Send a message to a specific channel. Use this to reach people on Telegram, Slack, Discord, Matrix, or Email. " +
+			"The message goes out through whichever platform owns the channel ID " +
+			"(e.g. numeric → Telegram, with _{topic} for a forum topic, C/D/G-prefixed → Slack, discord-{id} → Discord, matrix-{room} → Matrix, email-{address} → Email). " +
 			"For email, you can include file attachments (e.g., PDFs, images).",
 		parameters: schema,
 		execute: async (
@@ -64,10 +53,23 @@ export function createSendMessageTool(adapters: PlatformAdapter[]): AgentTool<an
 				throw new Error("Operation aborted");
 			}
 
-			const adapter = resolveAdapter(channel, adapters);
+			if (!canFlow(sourceChannel, channel)) {
+				log.logInfo(`[send_message] Refused ${sourceChannel} → ${channel}: visibility`);
+				return {
+					content: [
+						{
+							type: "text" as const,
+							text: `Not sent: this channel is ${visibilityOf(sourceChannel)} and ${channel} is ${visibilityOf(channel)}. Content from here may only go to channels at least as private.`,
+						},
+					],
+					details: undefined,
+				};
+			}
+
+			const adapter = channels.resolve(channel, adapters);
 			if (!adapter) {
 				return {
-					content: [{ type: "text" as const, text: `No adapter found for channel "${channel}". Available patterns: numeric (Telegram), C/D/G prefix (Slack), email-{address} (Email).` }],
+					content: [{ type: "text" as const, text: `No adapter found for channel "${channel}". Use a channel ID from the Channels list, or email-{address} for email.` }],
 					details: undefined,
 				};
 			}
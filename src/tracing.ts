@@ -0,0 +1,283 @@
+import { AsyncLocalStorage, AsyncResource } from "async_hooks";
+import { randomBytes } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import type { MomContext } from "./adapters/types.js";
+import * as log from "./log.js";
+
+// ============================================================================
+// Tracing — OpenTelemetry spans exported over OTLP/HTTP
+// ============================================================================
+//
+// A run is one trace: the inbound webhook request (gateway), the run itself
+// (main.ts), session loading, each LLM turn, each tool call with the commands
+// it executes, and each MomContext call to the platform. The active span lives
+// in AsyncLocalStorage, so nested work parents itself; the run span is linked
+// to the request that accepted the message through `MomEvent.traceParent`,
+// since runs leave the request's async context when they queue.
+//
+// Finished spans are batched and POSTed as OTLP JSON to <endpoint>/v1/traces.
+// With no endpoint configured, spans are created and dropped.
+
+const FLUSH_INTERVAL_MS = 5000;
+const MAX_BATCH = 512;
+/** Spans kept while the collector is unreachable; older ones are dropped */
+const MAX_BUFFER = 4096;
+
+export interface TracingOptions {
+	/** OTLP/HTTP base URL, e.g. http://localhost:4318 */
+	endpoint?: string;
+	serviceName?: string;
+	headers?: Record<string, string>;
+}
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+export interface SpanParent {
+	traceId: string;
+	spanId: string;
+}
+
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_SERVER = 2;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+export class Span implements SpanParent {
+	readonly traceId: string;
+	readonly spanId = randomBytes(8).toString("hex");
+	readonly parentSpanId?: string;
+	private start = nowNanos();
+	private attributes: SpanAttributes = {};
+	private status?: { code: number; message?: string };
+	private ended = false;
+
+	constructor(
+		readonly name: string,
+		parent: SpanParent | undefined,
+		private kind = SPAN_KIND_INTERNAL,
+	) {
+		this.traceId = parent?.traceId ?? randomBytes(16).toString("hex");
+		this.parentSpanId = parent?.spanId;
+	}
+
+	setAttributes(attributes: SpanAttributes): this {
+		Object.assign(this.attributes, attributes);
+		return this;
+	}
+
+	recordError(err: unknown): this {
+		this.status = { code: STATUS_ERROR, message: err instanceof Error ? err.message : String(err) };
+		return this;
+	}
+
+	end(): void {
+		if (this.ended) return;
+		this.ended = true;
+		if (!exporter) return;
+		exporter.add({
+			traceId: this.traceId,
+			spanId: this.spanId,
+			parentSpanId: this.parentSpanId,
+			name: this.name,
+			kind: this.kind,
+			startTimeUnixNano: this.start,
+			endTimeUnixNano: nowNanos(),
+			attributes: Object.entries(this.attributes)
+				.filter(([, value]) => value !== undefined)
+				.map(([key, value]) => ({ key, value: attributeValue(value!) })),
+			status: this.status ?? { code: STATUS_OK },
+		});
+	}
+}
+
+const active = new AsyncLocalStorage<Span>();
+let exporter: OtlpExporter | null = null;
+
+/** Start exporting to an OTLP/HTTP collector. No endpoint leaves tracing off. */
+export function configureTracing(options: TracingOptions): void {
+	if (!options.endpoint) return;
+	exporter = new OtlpExporter(options.endpoint, options.serviceName ?? "troublemaker", options.headers ?? {});
+	log.logInfo(`Tracing enabled, exporting to ${exporter.url}`);
+}
+
+/** Send buffered spans now (shutdown) */
+export async function flushTracing(): Promise<void> {
+	await exporter?.flush();
+}
+
+/**
+ * Start a span. Parent defaults to the active span; pass null for a new trace.
+ * The span is not made active — use withSpan() or runInSpan() for that.
+ */
+export function startSpan(name: string, attributes: SpanAttributes = {}, parent?: SpanParent | null): Span {
+	return new Span(name, parent === undefined ? active.getStore() : (parent ?? undefined)).setAttributes(attributes);
+}
+
+/** Run fn with span as the active span */
+export function runInSpan<T>(span: Span, fn: () => T): T {
+	return active.run(span, fn);
+}
+
+/** Run fn inside a new active span that ends when fn settles, marked as an error if it throws */
+export async function withSpan<T>(
+	name: string,
+	attributes: SpanAttributes,
+	fn: (span: Span) => Promise<T> | T,
+	parent?: SpanParent | null,
+): Promise<T> {
+	const span = startSpan(name, attributes, parent);
+	try {
+		return await runInSpan(span, () => fn(span));
+	} catch (err) {
+		span.recordError(err);
+		throw err;
+	} finally {
+		span.end();
+	}
+}
+
+/** Synchronous withSpan(), for the session loading steps */
+export function withSpanSync<T>(name: string, attributes: SpanAttributes, fn: (span: Span) => T): T {
+	const span = startSpan(name, attributes);
+	try {
+		return runInSpan(span, () => fn(span));
+	} catch (err) {
+		span.recordError(err);
+		throw err;
+	} finally {
+		span.end();
+	}
+}
+
+/** W3C traceparent of the active span, to stamp on work that runs later */
+export function currentTraceparent(): string | undefined {
+	const span = active.getStore();
+	return span ? `00-${span.traceId}-${span.spanId}-01` : undefined;
+}
+
+export function parseTraceparent(traceparent: string | undefined): SpanParent | undefined {
+	const match = traceparent?.match(/^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/);
+	return match ? { traceId: match[1], spanId: match[2] } : undefined;
+}
+
+/**
+ * Serve an inbound request inside a server span that ends when the response
+ * finishes. The request's emit is bound to the span's context so body
+ * handlers (req.on("data"/"end")) still see it as active.
+ */
+export function traceRequest(req: IncomingMessage, res: ServerResponse, route: string, handler: () => void): void {
+	const span = new Span(`${req.method} ${route}`, undefined, SPAN_KIND_SERVER).setAttributes({
+		"http.request.method": req.method,
+		"http.route": route,
+		"url.path": (req.url || "").split("?")[0],
+	});
+	res.on("finish", () => {
+		span.setAttributes({ "http.response.status_code": res.statusCode });
+		if (res.statusCode >= 500) span.recordError(`HTTP ${res.statusCode}`);
+		span.end();
+	});
+	res.on("close", () => span.end());
+	runInSpan(span, () => {
+		req.emit = AsyncResource.bind(req.emit.bind(req));
+		handler();
+	});
+}
+
+/** Wrap a MomContext so each platform call gets a span */
+export function traceContext(ctx: MomContext, adapter: string): MomContext {
+	const wrap =
+		<A extends unknown[]>(method: string, fn: (...args: A) => Promise<void>) =>
+		(...args: A) =>
+			withSpan(`platform.${method}`, { adapter }, () => fn(...args));
+	return {
+		...ctx,
+		respond: wrap("respond", ctx.respond),
+		replaceMessage: wrap("replaceMessage", ctx.replaceMessage),
+		respondInThread: wrap("respondInThread", ctx.respondInThread),
+		respondThinking: wrap("respondThinking", ctx.respondThinking),
+		setTyping: wrap("setTyping", ctx.setTyping),
+		uploadFile: wrap("uploadFile", ctx.uploadFile),
+		setWorking: wrap("setWorking", ctx.setWorking),
+		deleteMessage: wrap("deleteMessage", ctx.deleteMessage),
+	};
+}
+
+// ============================================================================
+// OTLP/HTTP JSON exporter
+// ============================================================================
+
+interface OtlpSpan {
+	traceId: string;
+	spanId: string;
+	parentSpanId?: string;
+	name: string;
+	kind: number;
+	startTimeUnixNano: string;
+	endTimeUnixNano: string;
+	attributes: Array<{ key: string; value: ReturnType<typeof attributeValue> }>;
+	status: { code: number; message?: string };
+}
+
+class OtlpExporter {
+	readonly url: string;
+	private buffer: OtlpSpan[] = [];
+	private timer: NodeJS.Timeout;
+	/** Warn once per outage, not once per batch */
+	private failing = false;
+
+	constructor(
+		endpoint: string,
+		private serviceName: string,
+		private headers: Record<string, string>,
+	) {
+		this.url = `${endpoint.replace(/\/+$/, "")}/v1/traces`;
+		this.timer = setInterval(() => void this.flush(), FLUSH_INTERVAL_MS);
+		this.timer.unref();
+	}
+
+	add(span: OtlpSpan): void {
+		this.buffer.push(span);
+		if (this.buffer.length > MAX_BUFFER) this.buffer.splice(0, this.buffer.length - MAX_BUFFER);
+		if (this.buffer.length >= MAX_BATCH) void this.flush();
+	}
+
+	async flush(): Promise<void> {
+		if (this.buffer.length === 0) return;
+		const spans = this.buffer.splice(0, MAX_BATCH);
+		const body = {
+			resourceSpans: [
+				{
+					resource: { attributes: [{ key: "service.name", value: { stringValue: this.serviceName } }] },
+					scopeSpans: [{ scope: { name: "troublemaker" }, spans }],
+				},
+			],
+		};
+		try {
+			const response = await fetch(this.url, {
+				method: "POST",
+				headers: { "Content-Type": "application/json", ...this.headers },
+				body: JSON.stringify(body),
+			});
+			if (!response.ok) throw new Error(`HTTP ${response.status}`);
+			this.failing = false;
+		} catch (err) {
+			// Put the batch back for the next attempt; MAX_BUFFER bounds the backlog
+			this.buffer.unshift(...spans);
+			if (this.buffer.length > MAX_BUFFER) this.buffer.splice(0, this.buffer.length - MAX_BUFFER);
+			if (!this.failing) {
+				this.failing = true;
+				log.logWarning(`Failed to export spans to ${this.url}`, err instanceof Error ? err.message : String(err));
+			}
+		}
+	}
+}
+
+function attributeValue(value: string | number | boolean) {
+	if (typeof value === "boolean") return { boolValue: value };
+	if (typeof value === "number") return Number.isInteger(value) ? { intValue: value } : { doubleValue: value };
+	return { stringValue: value };
+}
+
+function nowNanos(): string {
+	return (BigInt(Math.round((performance.timeOrigin + performance.now()) * 1000)) * 1000n).toString();
+}
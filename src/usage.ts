@@ -0,0 +1,293 @@
+import { appendFileSync, existsSync, readFileSync } from "fs";
+import { join, resolve } from "path";
+import { findConfigFile, loadConfig } from "./config.js";
+import * as log from "./log.js";
+
+// ============================================================================
+// UsageLedger — what every run spent
+// ============================================================================
+//
+// main.ts appends one line per finished run to <workingDir>/usage.jsonl — the
+// record billing and reporting read (GET /usage, `troublemaker usage`). The
+// ledger also keeps running day and month totals per channel, per user and for
+// the whole workspace so budget checks don't rescan the file. Periods are
+// UTC calendar days and months.
+
+const LEDGER_FILENAME = "usage.jsonl";
+
+export interface UsageRecord {
+	/** ISO 8601 date the run finished */
+	date: string;
+	/** Run ID from runs.jsonl */
+	runId?: string;
+	channel: string;
+	user: string;
+	/** Adapter instance the run was for ("slack", "telegram@beta") */
+	adapter: string;
+	model?: string;
+	provider?: string;
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	/** US dollars */
+	cost: number;
+	durationMs: number;
+	toolCalls: number;
+}
+
+export const USAGE_GROUPS = ["channel", "user", "model"] as const;
+export type UsageGroup = (typeof USAGE_GROUPS)[number];
+
+export interface UsageQuery {
+	/** Inclusive ISO 8601 date or prefix of one ("2026", "2026-01", "2026-01-05") */
+	from?: string;
+	/** Inclusive, same forms as `from` — "2026-01" covers all of January */
+	to?: string;
+	groupBy?: UsageGroup;
+}
+
+export interface UsageTotals {
+	runs: number;
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	cost: number;
+	durationMs: number;
+	toolCalls: number;
+}
+
+export interface UsageReport {
+	from?: string;
+	to?: string;
+	groupBy?: UsageGroup;
+	total: UsageTotals;
+	/** Costliest first; only with groupBy */
+	groups?: Array<{ key: string } & UsageTotals>;
+}
+
+/** Matches a `from`/`to` bound: a date, month or year, optionally with a time */
+export const DATE_PREFIX = /^\d{4}(-\d{2}(-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?)?)?$/;
+
+/** Why a query can't run, or undefined if it's fine */
+export function validateUsageQuery(query: UsageQuery): string | undefined {
+	for (const bound of ["from", "to"] as const) {
+		const value = query[bound];
+		if (value !== undefined && !DATE_PREFIX.test(value)) return `${bound}: expected an ISO 8601 date like 2026-01-05`;
+	}
+	if (query.groupBy !== undefined && !(USAGE_GROUPS as readonly string[]).includes(query.groupBy)) {
+		return `groupBy: expected ${USAGE_GROUPS.join(", ")}`;
+	}
+	return undefined;
+}
+
+export type UsagePeriod = "day" | "month";
+
+export type UsageScope = { kind: "workspace" } | { kind: "channel"; id: string } | { kind: "user"; id: string };
+
+export interface Spend {
+	cost: number;
+	/** Input + output tokens; cache reads and writes aren't counted */
+	tokens: number;
+}
+
+export class UsageLedger {
+	private path: string;
+	/** "<scope>|<period key>" → totals, for the current month only */
+	private totals: Map<string, Spend> | null = null;
+
+	constructor(workingDir: string) {
+		this.path = join(workingDir, LEDGER_FILENAME);
+	}
+
+	record(entry: Omit<UsageRecord, "date">): void {
+		const record: UsageRecord = { date: new Date().toISOString(), ...entry };
+		this.tally(this.load(), record);
+		try {
+			appendFileSync(this.path, `${JSON.stringify(record)}\n`);
+		} catch (err) {
+			log.logWarning(`Failed to write ${LEDGER_FILENAME}`, err instanceof Error ? err.message : String(err));
+		}
+	}
+
+	/** Sum the ledger over a date range, optionally per channel, user or model */
+	report(query: UsageQuery = {}): UsageReport {
+		const total = emptyTotals();
+		const groups = new Map<string, UsageTotals>();
+		for (const record of this.read()) {
+			if (query.from && record.date.substring(0, query.from.length) < query.from) continue;
+			if (query.to && record.date.substring(0, query.to.length) > query.to) continue;
+			addTo(total, record);
+			if (query.groupBy) {
+				const key = (query.groupBy === "model" ? record.model : record[query.groupBy]) ?? "unknown";
+				let group = groups.get(key);
+				if (!group) {
+					group = emptyTotals();
+					groups.set(key, group);
+				}
+				addTo(group, record);
+			}
+		}
+		return {
+			from: query.from,
+			to: query.to,
+			groupBy: query.groupBy,
+			total,
+			groups: query.groupBy
+				? [...groups].map(([key, totals]) => ({ key, ...totals })).sort((a, b) => b.cost - a.cost)
+				: undefined,
+		};
+	}
+
+	/** What a scope has spent so far in the current day or month */
+	spent(scope: UsageScope, period: UsagePeriod, now = new Date()): Spend {
+		const totals = this.load().get(`${scopeKey(scope)}|${periodKey(now.toISOString(), period)}`);
+		return totals ? { ...totals } : { cost: 0, tokens: 0 };
+	}
+
+	private load(): Map<string, Spend> {
+		if (this.totals) return this.totals;
+		const totals = new Map<string, Spend>();
+		this.totals = totals;
+		const month = periodKey(new Date().toISOString(), "month");
+		for (const record of this.read()) {
+			// Older months can't count against any limit
+			if (periodKey(record.date, "month") === month) this.tally(totals, record);
+		}
+		return totals;
+	}
+
+	private read(): UsageRecord[] {
+		if (!existsSync(this.path)) return [];
+		const records: UsageRecord[] = [];
+		for (const line of readFileSync(this.path, "utf-8").split("\n")) {
+			if (!line.trim()) continue;
+			try {
+				records.push(JSON.parse(line) as UsageRecord);
+			} catch {
+				// A crash mid-append leaves a partial last line — skip it
+			}
+		}
+		return records;
+	}
+
+	private tally(totals: Map<string, Spend>, record: UsageRecord): void {
+		const scopes: UsageScope[] = [
+			{ kind: "workspace" },
+			{ kind: "channel", id: record.channel },
+			{ kind: "user", id: record.user },
+		];
+		for (const scope of scopes) {
+			for (const period of ["day", "month"] as const) {
+				const key = `${scopeKey(scope)}|${periodKey(record.date, period)}`;
+				const spend = totals.get(key) ?? { cost: 0, tokens: 0 };
+				spend.cost += record.cost;
+				spend.tokens += record.input + record.output;
+				totals.set(key, spend);
+			}
+		}
+	}
+}
+
+function emptyTotals(): UsageTotals {
+	return { runs: 0, input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, durationMs: 0, toolCalls: 0 };
+}
+
+function addTo(totals: UsageTotals, record: UsageRecord): void {
+	totals.runs++;
+	totals.input += record.input;
+	totals.output += record.output;
+	totals.cacheRead += record.cacheRead;
+	totals.cacheWrite += record.cacheWrite;
+	totals.cost += record.cost;
+	// Written before these fields existed
+	totals.durationMs += record.durationMs ?? 0;
+	totals.toolCalls += record.toolCalls ?? 0;
+}
+
+function scopeKey(scope: UsageScope): string {
+	return scope.kind === "workspace" ? "workspace" : `${scope.kind}:${scope.id}`;
+}
+
+/** "2026-01-05" for a day, "2026-01" for a month */
+function periodKey(isoDate: string, period: UsagePeriod): string {
+	return isoDate.substring(0, period === "day" ? 10 : 7);
+}
+
+// ============================================================================
+// `troublemaker usage`
+// ============================================================================
+
+const USAGE_HELP =
+	"Usage: troublemaker usage [--from=<date>] [--to=<date>] [--group-by=channel|user|model] [--json] [<working-directory>]";
+
+/**
+ * Print ledger totals. The working directory defaults to the config file's
+ * `workingDir`. Returns the process exit code.
+ */
+export function runUsageCommand(args: string[]): number {
+	const query: UsageQuery = {};
+	let json = false;
+	let workingDir: string | undefined;
+	for (const arg of args) {
+		if (arg.startsWith("--from=")) query.from = arg.slice("--from=".length);
+		else if (arg.startsWith("--to=")) query.to = arg.slice("--to=".length);
+		else if (arg.startsWith("--group-by=")) query.groupBy = arg.slice("--group-by=".length) as UsageGroup;
+		else if (arg === "--json") json = true;
+		else if (!arg.startsWith("-")) workingDir = arg;
+		else {
+			console.error(USAGE_HELP);
+			return 1;
+		}
+	}
+
+	const problem = validateUsageQuery(query);
+	if (problem) {
+		console.error(`${problem}\n${USAGE_HELP}`);
+		return 1;
+	}
+
+	if (!workingDir) {
+		try {
+			const configPath = findConfigFile();
+			workingDir = configPath ? loadConfig(configPath).workingDir : undefined;
+		} catch (err) {
+			console.error(err instanceof Error ? err.message : String(err));
+			return 1;
+		}
+	}
+	if (!workingDir) {
+		console.error(USAGE_HELP);
+		return 1;
+	}
+
+	const report = new UsageLedger(resolve(workingDir)).report(query);
+	if (json) {
+		console.log(JSON.stringify(report, null, 2));
+		return 0;
+	}
+
+	const range = `${query.from ?? "start"} → ${query.to ?? "now"}`;
+	console.log(`Usage ${range}${query.groupBy ? ` by ${query.groupBy}` : ""}`);
+	const rows = [...(report.groups ?? []), { key: "total", ...report.total }];
+	const header = ["", "runs", "input", "output", "cache read", "cache write", "tools", "cost"];
+	const table = [
+		header,
+		...rows.map((row) => [
+			row.key,
+			String(row.runs),
+			row.input.toLocaleString(),
+			row.output.toLocaleString(),
+			row.cacheRead.toLocaleString(),
+			row.cacheWrite.toLocaleString(),
+			String(row.toolCalls),
+			`$${row.cost.toFixed(4)}`,
+		]),
+	];
+	const widths = header.map((_, i) => Math.max(...table.map((cells) => cells[i].length)));
+	for (const cells of table) {
+		console.log(cells.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join("  "));
+	}
+	return 0;
+}
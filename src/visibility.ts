@@ -0,0 +1,53 @@
+import { type ChannelOverride, channelOverride, type VisibilityConfig } from "./config.js";
+
+// ============================================================================
+// Visibility — which channels' content may reach which prompts
+// ============================================================================
+//
+// Each channel is labeled private, team or public: `channels.<id>.visibility`,
+// else `visibility.default`, else team. Content from one channel — its
+// history, its memory entries, what the agent sends on its behalf — may only
+// flow into a channel at least as private:
+//
+//   private → its own channel only
+//   team    → team and private channels
+//   public  → any channel
+//
+// The workspace MEMORY.md is labeled `visibility.workspaceMemory` (default
+// team). Memory loading, the heartbeat's activity summary, search_history and
+// send_message all check here. With no labels configured every channel is
+// team, and everything flows as before.
+
+export const VISIBILITY_LABELS = ["private", "team", "public"] as const;
+export type Visibility = (typeof VISIBILITY_LABELS)[number];
+
+const DEFAULT_VISIBILITY: Visibility = "team";
+
+let defaults: VisibilityConfig = {};
+let channelOverrides: Record<string, ChannelOverride> = {};
+
+/** Install the config file's labels — set once at startup */
+export function setVisibilityPolicy(visibility?: VisibilityConfig, channels?: Record<string, ChannelOverride>): void {
+	defaults = visibility ?? {};
+	channelOverrides = channels ?? {};
+}
+
+export function visibilityOf(channelId: string): Visibility {
+	return (channelOverride(channelOverrides, channelId)?.visibility ?? defaults.default ?? DEFAULT_VISIBILITY) as Visibility;
+}
+
+/** May content from `fromChannel` end up in `toChannel`'s prompt or log? */
+export function canFlow(fromChannel: string, toChannel: string): boolean {
+	return fromChannel === toChannel || labelFlows(visibilityOf(fromChannel), visibilityOf(toChannel));
+}
+
+/** Whether the workspace MEMORY.md goes into a channel's prompt */
+export function showsWorkspaceMemory(channelId: string): boolean {
+	return labelFlows((defaults.workspaceMemory ?? DEFAULT_VISIBILITY) as Visibility, visibilityOf(channelId));
+}
+
+function labelFlows(from: Visibility, to: Visibility): boolean {
+	if (from === "public") return true;
+	if (from === "team") return to !== "public";
+	return false;
+}
@@ -0,0 +1,116 @@
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { AccessPolicy, hasRole } from "../src/access.js";
+import type { PlatformAdapter } from "../src/adapters/types.js";
+import { ApprovalGate } from "../src/approval.js";
+import type { BudgetPolicy } from "../src/budget.js";
+import { createCommandRegistry } from "../src/commands.js";
+
+describe("AccessPolicy", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "access-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("lets everyone in as owner without access config", () => {
+		const policy = new AccessPolicy(dir);
+		expect(policy.checkUser("U1", "slack")).toBeUndefined();
+		expect(policy.roleOf("U1", "C1")).toBe("owner");
+		expect(policy.withheldTools("guest")).toEqual([]);
+	});
+
+	it("checks the adapter's deny and allow lists", () => {
+		const policy = new AccessPolicy(dir, {
+			adapters: { slack: { deny: ["U_BAD"] }, telegram: { allow: ["42"] } },
+		});
+		expect(policy.checkUser("U_BAD", "slack")).toContain("deny list");
+		expect(policy.checkUser("U_OK", "slack")).toBeUndefined();
+		expect(policy.checkUser("43", "telegram")).toContain("allow list");
+		expect(policy.checkUser("42", "telegram")).toBeUndefined();
+		// Lists are per adapter instance
+		expect(policy.checkUser("U_BAD", "slack@other")).toBeUndefined();
+	});
+
+	it("resolves channel role, then workspace role, then the defaults", () => {
+		const policy = new AccessPolicy(
+			dir,
+			{ roles: { U_ADMIN: "owner", U_MEMBER: "member" }, defaultRole: "member" },
+			{ C_LOCKED: { defaultRole: "guest", roles: { U_MEMBER: "guest", U_HELPER: "member" } } },
+		);
+		expect(policy.roleOf("U_ADMIN", "C_LOCKED")).toBe("owner");
+		expect(policy.roleOf("U_MEMBER", "C_LOCKED")).toBe("guest");
+		expect(policy.roleOf("U_HELPER", "C_LOCKED")).toBe("member");
+		expect(policy.roleOf("U_ANYONE", "C_LOCKED")).toBe("guest");
+		expect(policy.roleOf("U_ANYONE", "C_OPEN")).toBe("member");
+	});
+
+	it("defaults to member once access is configured", () => {
+		expect(new AccessPolicy(dir, {}).roleOf("U1", "C1")).toBe("member");
+	});
+
+	it("withholds the default guest tools unless configured", () => {
+		expect(new AccessPolicy(dir, {}).withheldTools("guest")).toContain("bash");
+		expect(new AccessPolicy(dir, {}).withheldTools("member")).toEqual([]);
+		const custom = new AccessPolicy(dir, { tools: { member: ["send_message"] } });
+		expect(custom.withheldTools("member")).toEqual(["send_message"]);
+		expect(custom.withheldTools("guest")).toContain("bash");
+	});
+
+	it("appends denials to audit.jsonl", () => {
+		const policy = new AccessPolicy(dir, {});
+		policy.audit({ action: "denied", adapter: "slack", channel: "C1", user: "U1", reason: "nope" });
+		const lines = readFileSync(join(dir, "audit.jsonl"), "utf-8").trim().split("\n");
+		expect(lines).toHaveLength(1);
+		expect(JSON.parse(lines[0])).toMatchObject({ action: "denied", channel: "C1", user: "U1", reason: "nope" });
+	});
+
+	it("ranks owner above member above guest", () => {
+		expect(hasRole("owner", "member")).toBe(true);
+		expect(hasRole("member", "member")).toBe(true);
+		expect(hasRole("guest", "member")).toBe(false);
+		expect(hasRole("member", "owner")).toBe(false);
+	});
+
+	it("keeps commands above the user's role from running", async () => {
+		const access = new AccessPolicy(dir, { defaultRole: "guest", roles: { U_OWNER: "owner" } });
+		const replies: string[] = [];
+		const stopped: string[] = [];
+		const platform = {
+			name: "slack",
+			postMessage: async (_channel: string, text: string) => {
+				replies.push(text);
+				return "1";
+			},
+		} as unknown as PlatformAdapter;
+		const registry = createCommandRegistry({
+			workingDir: dir,
+			isRunning: () => true,
+			stop: async (_channelId, userId) => {
+				stopped.push(userId);
+			},
+			getRunner: () => {
+				throw new Error("not used");
+			},
+			access,
+			approvals: new ApprovalGate(),
+			budget: {} as BudgetPolicy,
+			resume: () => undefined,
+		});
+
+		await registry.execute("/stop", "C1", "U_GUEST", platform);
+		expect(stopped).toEqual([]);
+		expect(replies[0]).toContain("needs the member role");
+		const audit = JSON.parse(readFileSync(join(dir, "audit.jsonl"), "utf-8").trim());
+		expect(audit).toMatchObject({ action: "command_denied", user: "U_GUEST" });
+
+		await registry.execute("/stop", "C1", "U_OWNER", platform);
+		expect(stopped).toEqual(["U_OWNER"]);
+	});
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { PlatformAdapter } from "../src/adapters/types.js";
+import { ApprovalGate } from "../src/approval.js";
+
+/** Text-only adapter that records prompts and their updates */
+function textPlatform() {
+	const posted: Array<{ channel: string; thread?: string; text: string }> = [];
+	const updated: string[] = [];
+	const platform = {
+		name: "slack",
+		postMessage: async (channel: string, text: string) => {
+			posted.push({ channel, text });
+			return "1";
+		},
+		postInThread: async (channel: string, thread: string, text: string) => {
+			posted.push({ channel, thread, text });
+			return "2";
+		},
+		updateMessage: async (_channel: string, _ts: string, text: string) => {
+			updated.push(text);
+		},
+	} as unknown as PlatformAdapter;
+	/** ID of the latest prompt, from its "/approve <id>" hint */
+	const lastId = async () => {
+		await new Promise((resolve) => setImmediate(resolve));
+		return /\/approve (\w+)/.exec(posted[posted.length - 1].text)![1];
+	};
+	return { platform, posted, updated, lastId };
+}
+
+describe("ApprovalGate", () => {
+	const gate = () => new ApprovalGate({ bash: ["^rm "], paths: ["\\.env$"], recipients: ["^C_EXEC"], timeoutSeconds: 60 });
+
+	it("only stops tool calls a rule matches", () => {
+		expect(new ApprovalGate().enabled).toBe(false);
+		expect(gate().check("bash", { command: "rm -rf build" })).toBe("matches /^rm /");
+		expect(gate().check("bash", { command: "ls" })).toBeUndefined();
+		expect(gate().check("write", { path: "app/.env" })).toBe("matches /\\.env$/");
+		expect(gate().check("send_message", { channel: "C_EXEC_TEAM" })).toBe("matches /^C_EXEC/");
+		expect(gate().check("read", { path: ".env" })).toBeUndefined();
+	});
+
+	it("lets unmatched calls through without a prompt", async () => {
+		const { platform, posted } = textPlatform();
+		await gate().review("C1", platform, "bash", { command: "ls" });
+		expect(posted).toEqual([]);
+	});
+
+	it("runs the call once someone approves it", async () => {
+		const approvals = gate();
+		const { platform, updated, lastId } = textPlatform();
+		const review = approvals.review("C1", platform, "bash", { command: "rm -rf build" });
+		const id = await lastId();
+		expect(approvals.resolve(id, "C2", true, "U1")).toContain("No pending approval");
+		expect(approvals.resolve(id, "C1", true, "U1")).toBe("Approved bash.");
+		await expect(review).resolves.toBeUndefined();
+		expect(updated[0]).toContain("Approved by U1");
+	});
+
+	it("fails the call when denied, timed out or stopped", async () => {
+		const approvals = gate();
+		const { platform, lastId } = textPlatform();
+
+		const denied = approvals.review("C1", platform, "bash", { command: "rm x" });
+		approvals.resolve(await lastId(), "C1", false, "U1");
+		await expect(denied).rejects.toThrow("denied by u1");
+
+		const controller = new AbortController();
+		const stopped = approvals.review("C1", platform, "bash", { command: "rm x" }, controller.signal);
+		await lastId();
+		controller.abort();
+		await expect(stopped).rejects.toThrow("cancelled");
+
+		const quick = new ApprovalGate({ bash: ["^rm "], timeoutSeconds: 0.01 });
+		await expect(quick.review("C1", platform, "bash", { command: "rm x" })).rejects.toThrow("timed out");
+	});
+
+	it("posts the prompt into the run's thread", async () => {
+		const approvals = gate();
+		const { platform, posted, lastId } = textPlatform();
+		const review = approvals.review("C1", platform, "bash", { command: "rm x" }, undefined, "111.222");
+		approvals.resolve(await lastId(), "C1", true, "U1");
+		await review;
+		expect(posted[0]).toMatchObject({ channel: "C1", thread: "111.222" });
+	});
+});
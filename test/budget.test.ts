@@ -0,0 +1,97 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { BudgetPolicy } from "../src/budget.js";
+import { type UsageRecord, UsageLedger } from "../src/usage.js";
+
+function usage(cost: number, tokens = 0, channel = "C1", user = "U1"): Omit<UsageRecord, "date"> {
+	return {
+		channel,
+		user,
+		adapter: "slack",
+		input: tokens,
+		output: 0,
+		cacheRead: 0,
+		cacheWrite: 0,
+		cost,
+		durationMs: 0,
+		toolCalls: 0,
+	};
+}
+
+describe("BudgetPolicy", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "budget-"));
+		vi.useFakeTimers({ toFake: ["Date"] });
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("starts each UTC day over, but keeps counting the month", () => {
+		vi.setSystemTime(new Date("2026-03-10T23:30:00Z"));
+		const ledger = new UsageLedger(dir);
+		const budget = new BudgetPolicy(ledger, { channel: { dailyCost: 1, monthlyCost: 1.5 } });
+		ledger.record(usage(1));
+		expect(budget.check("C1", "U1")).toContain("daily cost limit for this channel");
+
+		vi.setSystemTime(new Date("2026-03-11T00:05:00Z"));
+		expect(budget.check("C1", "U1")).toBeUndefined();
+		ledger.record(usage(0.5));
+		expect(budget.check("C1", "U1")).toContain("monthly cost limit for this channel");
+	});
+
+	it("starts each UTC month over", () => {
+		vi.setSystemTime(new Date("2026-03-31T23:30:00Z"));
+		const ledger = new UsageLedger(dir);
+		const budget = new BudgetPolicy(ledger, { workspace: { monthlyTokens: 1000 } });
+		ledger.record(usage(0, 1000));
+		expect(budget.check("C1", "U1")).toContain("monthly token limit for the workspace");
+
+		vi.setSystemTime(new Date("2026-04-01T00:05:00Z"));
+		expect(budget.check("C1", "U1")).toBeUndefined();
+	});
+
+	it("ignores earlier months when a new process reads the ledger", () => {
+		vi.setSystemTime(new Date("2026-03-31T12:00:00Z"));
+		new UsageLedger(dir).record(usage(5));
+
+		vi.setSystemTime(new Date("2026-04-01T12:00:00Z"));
+		const ledger = new UsageLedger(dir);
+		expect(ledger.spent({ kind: "channel", id: "C1" }, "month")).toEqual({ cost: 0, tokens: 0 });
+		expect(new BudgetPolicy(ledger, { channel: { monthlyCost: 1 } }).check("C1", "U1")).toBeUndefined();
+	});
+
+	it("counts what the current run has spent so far", () => {
+		vi.setSystemTime(new Date("2026-03-10T12:00:00Z"));
+		const ledger = new UsageLedger(dir);
+		const budget = new BudgetPolicy(ledger, { user: { dailyTokens: 100 } });
+		ledger.record(usage(0, 60));
+		expect(budget.check("C1", "U1")).toBeUndefined();
+		expect(budget.check("C1", "U1", { cost: 0, tokens: 40 })).toContain("daily token limit for you");
+	});
+
+	it("holds scheduled events to channel and workspace caps only", () => {
+		vi.setSystemTime(new Date("2026-03-10T12:00:00Z"));
+		const ledger = new UsageLedger(dir);
+		const budget = new BudgetPolicy(ledger, { user: { dailyCost: 1 } });
+		ledger.record(usage(2));
+		expect(budget.check("C1", "U1")).toBeDefined();
+		expect(budget.check("C1", undefined)).toBeUndefined();
+	});
+
+	it("lets a channel override replace the default channel cap", () => {
+		vi.setSystemTime(new Date("2026-03-10T12:00:00Z"));
+		const ledger = new UsageLedger(dir);
+		const budget = new BudgetPolicy(ledger, { channel: { dailyCost: 1 } }, { C_BIG: { budget: { dailyCost: 10 } } });
+		ledger.record(usage(2, 0, "C_BIG"));
+		ledger.record(usage(2, 0, "C_SMALL"));
+		expect(budget.check("C_BIG", "U1")).toBeUndefined();
+		expect(budget.check("C_SMALL", "U1")).toBeDefined();
+	});
+});
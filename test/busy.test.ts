@@ -0,0 +1,64 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { AccessPolicy } from "../src/access.js";
+import type { PlatformAdapter } from "../src/adapters/types.js";
+import { ApprovalGate } from "../src/approval.js";
+import type { BudgetPolicy } from "../src/budget.js";
+import { createCommandRegistry } from "../src/commands.js";
+import { MomSettingsManager } from "../src/context.js";
+
+describe("busy mode", () => {
+	let dir: string;
+	const replies: string[] = [];
+	const platform = {
+		name: "slack",
+		postMessage: async (_channel: string, text: string) => {
+			replies.push(text);
+			return "1";
+		},
+	} as unknown as PlatformAdapter;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "busy-"));
+		replies.length = 0;
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	const registry = () =>
+		createCommandRegistry({
+			workingDir: dir,
+			isRunning: () => false,
+			stop: async () => {},
+			getRunner: () => {
+				throw new Error("not used");
+			},
+			access: new AccessPolicy(dir),
+			approvals: new ApprovalGate(),
+			budget: {} as BudgetPolicy,
+			resume: () => undefined,
+		});
+
+	it("queues mid-run messages as follow-ups unless a channel opts in to steering", () => {
+		expect(new MomSettingsManager(dir, join(dir, "C1")).getBusyMode()).toBe("followUp");
+	});
+
+	it("accepts /busy modes in any case and stores the canonical name", async () => {
+		await registry().execute("/busy followup", "C1", "U1", platform);
+		expect(new MomSettingsManager(dir, join(dir, "C1")).getBusyMode()).toBe("followUp");
+
+		await registry().execute("/busy STEER", "C1", "U1", platform);
+		expect(new MomSettingsManager(dir, join(dir, "C1")).getBusyMode()).toBe("steer");
+		// Other channels keep the workspace default
+		expect(new MomSettingsManager(dir, join(dir, "C2")).getBusyMode()).toBe("followUp");
+	});
+
+	it("rejects unknown modes", async () => {
+		await registry().execute("/busy sometimes", "C1", "U1", platform);
+		expect(replies[0]).toContain('Unknown mode: "sometimes"');
+	});
+});
@@ -0,0 +1,60 @@
+import type { AssistantMessage } from "@mariozechner/pi-ai";
+import { describe, expect, it } from "vitest";
+import { isFallbackError } from "../src/model-config.js";
+
+function failedReply(errorMessage: string): AssistantMessage {
+	return {
+		role: "assistant",
+		content: [],
+		api: "anthropic-messages",
+		provider: "anthropic",
+		model: "claude-sonnet-4-5",
+		usage: {
+			input: 0,
+			output: 0,
+			cacheRead: 0,
+			cacheWrite: 0,
+			totalTokens: 0,
+			cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+		},
+		stopReason: "error",
+		errorMessage,
+		timestamp: Date.now(),
+	};
+}
+
+describe("isFallbackError", () => {
+	it.each([
+		"overloaded_error: Overloaded",
+		"Rate limit reached for requests",
+		"429 Too Many Requests",
+		"Error: 503 Service Unavailable",
+		"status 500",
+		"fetch failed",
+		"Connection error.",
+		"terminated",
+	])("falls back on %j", (message) => {
+		expect(isFallbackError(failedReply(message))).toBe(true);
+	});
+
+	it.each([
+		"invalid x-api-key",
+		"messages.3: tool_use ids must be unique",
+		// Status codes inside IDs, counts and sizes don't count
+		"request_id req_01A5001B: invalid request",
+		"max_tokens: 15000 > 8192, which is the maximum allowed",
+		"image exceeds 5242880 bytes",
+	])("doesn't fall back on %j", (message) => {
+		expect(isFallbackError(failedReply(message))).toBe(false);
+	});
+
+	it("leaves context overflow to compaction, even when it mentions a retryable error", () => {
+		expect(isFallbackError(failedReply("prompt is too long: 205000 tokens > 200000 maximum (status 500)"))).toBe(false);
+		expect(isFallbackError(failedReply("rate limit: context_length_exceeded"))).toBe(false);
+	});
+
+	it("ignores replies that didn't fail", () => {
+		expect(isFallbackError({ ...failedReply("overloaded"), stopReason: "stop" })).toBe(false);
+		expect(isFallbackError({ ...failedReply(""), errorMessage: undefined })).toBe(false);
+	});
+});
@@ -0,0 +1,85 @@
+import { appendFileSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { channelsWithHistory, searchHistory } from "../src/history.js";
+
+function line(text: string, user = "U1", date = "2026-03-10T12:00:00.000Z"): string {
+	return `${JSON.stringify({ date, ts: "1", user, userName: user.toLowerCase(), text, attachments: [], isBot: false })}\n`;
+}
+
+describe("searchHistory", () => {
+	let dir: string;
+	let logPath: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "history-"));
+		mkdirSync(join(dir, "C1"));
+		logPath = join(dir, "C1", "log.jsonl");
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	const search = (text?: string) => searchHistory(dir, ["C1"], { text }).map((hit) => hit.snippet);
+	const indexedSize = () => JSON.parse(readFileSync(join(dir, "C1", "search-index.json"), "utf-8")).size;
+
+	it("indexes only what log.jsonl gained since the last search", () => {
+		writeFileSync(logPath, line("the deploy script lives in ops"));
+		expect(search("deploy")).toEqual(["the deploy script lives in ops"]);
+
+		appendFileSync(logPath, line("deploy again on friday"));
+		expect(search("deploy").sort()).toEqual(["deploy again on friday", "the deploy script lives in ops"]);
+		expect(indexedSize()).toBe(readFileSync(logPath).length);
+	});
+
+	it("rebuilds the index when log.jsonl shrinks", () => {
+		writeFileSync(logPath, line("old message about kittens") + line("another old one"));
+		expect(search("kittens")).toHaveLength(1);
+
+		writeFileSync(logPath, line("fresh start"));
+		expect(search("kittens")).toEqual([]);
+		expect(search("fresh")).toEqual(["fresh start"]);
+		expect(indexedSize()).toBe(readFileSync(logPath).length);
+	});
+
+	it("leaves a line still being written for the next search", () => {
+		const complete = line("first line");
+		const partial = line("second line about penguins");
+		writeFileSync(logPath, complete + partial.slice(0, 20));
+		expect(search("penguins")).toEqual([]);
+		expect(indexedSize()).toBe(Buffer.byteLength(complete));
+
+		appendFileSync(logPath, partial.slice(20));
+		expect(search("penguins")).toEqual(["second line about penguins"]);
+	});
+
+	it("keeps byte offsets right across multi-byte text", () => {
+		writeFileSync(logPath, line("café ☕ talk"));
+		appendFileSync(logPath, line("unrelated zebra note"));
+		expect(search("zebra")).toEqual(["unrelated zebra note"]);
+	});
+
+	it("filters by user and date, newest first without query text", () => {
+		writeFileSync(
+			logPath,
+			line("from alice early", "ALICE", "2026-01-05T10:00:00.000Z") +
+				line("from bob", "BOB", "2026-02-01T10:00:00.000Z") +
+				line("from alice later", "ALICE", "2026-03-01T10:00:00.000Z"),
+		);
+		expect(searchHistory(dir, ["C1"], { user: "@alice" }).map((hit) => hit.snippet)).toEqual([
+			"from alice later",
+			"from alice early",
+		]);
+		expect(searchHistory(dir, ["C1"], { from: "2026-02", to: "2026-02" }).map((hit) => hit.snippet)).toEqual([
+			"from bob",
+		]);
+	});
+
+	it("lists channels that have a log", () => {
+		writeFileSync(logPath, line("hello"));
+		mkdirSync(join(dir, "EMPTY"));
+		expect(channelsWithHistory(dir)).toEqual(["C1"]);
+	});
+});
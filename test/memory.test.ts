@@ -0,0 +1,55 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MemoryStore } from "../src/memory.js";
+import { setVisibilityPolicy } from "../src/visibility.js";
+
+describe("MemoryStore", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "memory-"));
+	});
+
+	afterEach(() => {
+		setVisibilityPolicy();
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("ranks entries by relevance, with tags counting extra", () => {
+		const store = new MemoryStore(dir);
+		store.remember("The staging database runs on port 5433", "C1");
+		store.remember("Alice prefers short answers", "C1", { tags: ["style"] });
+		store.remember("Deploys go out on Tuesdays", "C1", { tags: ["deploy", "database"] });
+
+		const matches = store.search("which database port", "C1");
+		expect(matches.map(({ entry }) => entry.text)).toEqual([
+			"The staging database runs on port 5433",
+			"Deploys go out on Tuesdays",
+		]);
+		expect(store.search("style", "C1")[0].entry.text).toBe("Alice prefers short answers");
+		expect(store.search("nothing relevant", "C1")).toEqual([]);
+	});
+
+	it("keeps entries in their channel unless global, as far as visibility allows", () => {
+		setVisibilityPolicy(undefined, { C_PRIVATE: { visibility: "private" } });
+		const store = new MemoryStore(dir);
+		store.remember("local fact", "C1");
+		store.remember("shared fact", "C1", { global: true });
+		store.remember("private fact", "C_PRIVATE", { global: true });
+
+		expect(store.list("C2").map((entry) => entry.text)).toEqual(["shared fact"]);
+		expect(store.list("C_PRIVATE").map((entry) => entry.text)).toEqual(["private fact", "shared fact"]);
+	});
+
+	it("reads remembered and forgotten entries back from memory.jsonl", () => {
+		const before = new MemoryStore(dir);
+		const kept = before.remember("kept", "C1");
+		const dropped = before.remember("dropped", "C1");
+		expect(before.forget(dropped.id, "C2")).toBeUndefined();
+		expect(before.forget(dropped.id, "C1")?.text).toBe("dropped");
+
+		expect(new MemoryStore(dir).list("C1").map((entry) => entry.id)).toEqual([kept.id]);
+	});
+});
@@ -0,0 +1,87 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { MomEvent } from "../src/adapters/types.js";
+import { QueueJournal } from "../src/queue.js";
+
+function message(channel: string, text: string): MomEvent {
+	return { type: "mention", channel, ts: String(Date.now()), user: "U1", text };
+}
+
+describe("QueueJournal", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "queue-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("replays what a previous process accepted but never completed", () => {
+		const before = new QueueJournal(dir);
+		const first = message("C1", "first");
+		const second = message("C1", "second");
+		const other = message("C2", "other");
+		before.accept("slack", first, false);
+		before.accept("slack", second, false);
+		before.accept("telegram", other, true);
+		before.complete("C1", first.journalId!);
+
+		// A restart: a new journal reads the files back
+		const unfinished = new QueueJournal(dir).unfinished();
+		expect(unfinished.map((item) => item.event.text)).toEqual(["second", "other"]);
+		expect(unfinished[0]).toMatchObject({ adapter: "slack", isEvent: false, id: second.journalId });
+		expect(unfinished[0].event.journalId).toBe(second.journalId);
+		expect(unfinished[1]).toMatchObject({ adapter: "telegram", isEvent: true });
+	});
+
+	it("doesn't record replayed work twice", () => {
+		new QueueJournal(dir).accept("slack", message("C1", "hello"), false);
+		const journal = new QueueJournal(dir);
+		const [item] = journal.unfinished();
+		expect(journal.accept("slack", item.event, false)).toBe(true);
+		expect(journal.size("C1")).toBe(1);
+		journal.complete("C1", item.id);
+		expect(new QueueJournal(dir).unfinished()).toEqual([]);
+	});
+
+	it("truncates a channel's file once its last open item completes", () => {
+		const journal = new QueueJournal(dir);
+		const path = join(dir, "C1", "queue.jsonl");
+		const first = message("C1", "first");
+		const second = message("C1", "second");
+		journal.accept("slack", first, false);
+		journal.accept("slack", second, false);
+
+		journal.complete("C1", first.journalId!);
+		expect(readFileSync(path, "utf-8").trim().split("\n")).toHaveLength(3);
+		journal.complete("C1", second.journalId!);
+		expect(readFileSync(path, "utf-8")).toBe("");
+	});
+
+	it("turns away scheduled events beyond the queue depth, but never user messages", () => {
+		const journal = new QueueJournal(dir, 1);
+		expect(journal.accept("slack", message("C1", "running"), true)).toBe(true);
+		expect(journal.accept("slack", message("C1", "waiting"), true)).toBe(true);
+		expect(journal.accept("slack", message("C1", "one too many"), true)).toBe(false);
+		expect(journal.accept("slack", message("C1", "from a user"), false)).toBe(true);
+		expect(journal.size("C1")).toBe(3);
+	});
+
+	it("skips a partial last line left by a crash", () => {
+		const journal = new QueueJournal(dir);
+		journal.accept("slack", message("C1", "kept"), false);
+		appendFileSync(join(dir, "C1", "queue.jsonl"), '{"op":"accept","id":"abc","adap');
+		expect(new QueueJournal(dir).unfinished().map((item) => item.event.text)).toEqual(["kept"]);
+	});
+
+	it("ignores unknown IDs", () => {
+		const journal = new QueueJournal(dir);
+		journal.accept("slack", message("C1", "hello"), false);
+		journal.complete("C1", "nope");
+		expect(journal.size("C1")).toBe(1);
+	});
+});
@@ -0,0 +1,67 @@
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { RunJournal } from "../src/runs.js";
+
+function run(channel: string, text: string, thread?: string) {
+	return { channel, adapter: "slack", user: "U1", text, isEvent: false, thread };
+}
+
+describe("RunJournal", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "runs-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("reports runs that started and never ended after a restart", () => {
+		const before = new RunJournal(dir);
+		const finished = before.start(run("C1", "finished"));
+		before.end("C1", finished, "stop");
+		before.start(run("C1", "cut off"));
+		before.start(run("C2", "also cut off"));
+
+		const interrupted = new RunJournal(dir).interrupted();
+		expect(interrupted.map((record) => record.text).sort()).toEqual(["also cut off", "cut off"]);
+	});
+
+	it("tracks a channel's threads separately from the channel session", () => {
+		const before = new RunJournal(dir);
+		before.start(run("C1", "in the channel"));
+		const inThread = before.start(run("C1", "in a thread", "111.222"));
+		before.start(run("C1", "in another thread", "333.444"));
+		before.end("C1", inThread, "stop");
+
+		const interrupted = new RunJournal(dir).interrupted();
+		expect(interrupted.map((record) => [record.text, record.thread])).toEqual([
+			["in the channel", undefined],
+			["in another thread", "333.444"],
+		]);
+	});
+
+	it("truncates runs.jsonl once no run in the channel is open", () => {
+		const journal = new RunJournal(dir);
+		const path = join(dir, "C1", "runs.jsonl");
+		const first = journal.start(run("C1", "first"));
+		const second = journal.start(run("C1", "second", "111.222"));
+
+		journal.end("C1", first, "stop");
+		expect(readFileSync(path, "utf-8").trim().split("\n")).toHaveLength(3);
+		journal.end("C1", second, "stop");
+		expect(readFileSync(path, "utf-8")).toBe("");
+		expect(new RunJournal(dir).interrupted()).toEqual([]);
+	});
+
+	it("closes interrupted runs when boot recovery ends them", () => {
+		new RunJournal(dir).start(run("C1", "cut off"));
+		const journal = new RunJournal(dir);
+		const [interrupted] = journal.interrupted();
+		journal.end("C1", interrupted.id, "interrupted");
+		expect(new RunJournal(dir).interrupted()).toEqual([]);
+	});
+});
@@ -0,0 +1,63 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { AccessPolicy } from "../src/access.js";
+import { type ChannelOverride, channelOverride } from "../src/config.js";
+import { resolveModel, setModelDefaults } from "../src/model-config.js";
+import { setVisibilityPolicy, visibilityOf } from "../src/visibility.js";
+
+// Telegram forum topics are channels of their own ("<chat_id>_<topic_id>"),
+// but the config file names the chat
+const channels: Record<string, ChannelOverride> = {
+	"-100123": {
+		visibility: "private",
+		defaultRole: "guest",
+		roles: { "42": "owner" },
+		model: { provider: "anthropic", id: "claude-haiku-4-5" },
+	},
+	"-100123_7": { visibility: "public" },
+	"-100999@beta": { visibility: "private" },
+};
+
+describe("forum topic config lookups", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "topics-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+		setVisibilityPolicy();
+		setModelDefaults();
+	});
+
+	it("falls back to the chat's entry, with the topic's own entry first", () => {
+		expect(channelOverride(channels, "-100123_42")).toBe(channels["-100123"]);
+		expect(channelOverride(channels, "-100123_7")).toBe(channels["-100123_7"]);
+		expect(channelOverride(channels, "-100999_3@beta")).toBe(channels["-100999@beta"]);
+		expect(channelOverride(channels, "-100999_3")).toBeUndefined();
+		expect(channelOverride(channels, "matrix-abc_123")).toBeUndefined();
+	});
+
+	it("keeps the chat's visibility label in its topics", () => {
+		setVisibilityPolicy({ default: "team" }, channels);
+		expect(visibilityOf("-100123_42")).toBe("private");
+		expect(visibilityOf("-100123_7")).toBe("public");
+		expect(visibilityOf("-100555_1")).toBe("team");
+	});
+
+	it("keeps the chat's roles and withheld tools in its topics", () => {
+		const access = new AccessPolicy(dir, { defaultRole: "member" }, channels);
+		expect(access.roleOf("42", "-100123_42")).toBe("owner");
+		expect(access.roleOf("43", "-100123_42")).toBe("guest");
+		expect(access.withheldTools(access.roleOf("43", "-100123_42"))).toContain("bash");
+	});
+
+	it("keeps the chat's model override in its topics", () => {
+		setModelDefaults(undefined, channels);
+		const model = resolveModel(dir, undefined, "-100123_42");
+		expect(model.id).toBe("claude-haiku-4-5");
+	});
+});
@@ -0,0 +1,109 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { AccessPolicy } from "../src/access.js";
+import type { PlatformAdapter } from "../src/adapters/types.js";
+import { ApprovalGate } from "../src/approval.js";
+import type { BudgetPolicy } from "../src/budget.js";
+import { createCommandRegistry } from "../src/commands.js";
+import { canFlow, setVisibilityPolicy, showsWorkspaceMemory, type Visibility, visibilityOf } from "../src/visibility.js";
+
+const CHANNEL: Record<Visibility, string> = { private: "C_PRIVATE", team: "C_TEAM", public: "C_PUBLIC" };
+
+/** One channel per label */
+function label(workspaceMemory?: Visibility): void {
+	setVisibilityPolicy(
+		{ workspaceMemory },
+		Object.fromEntries(Object.entries(CHANNEL).map(([visibility, id]) => [id, { visibility }])),
+	);
+}
+
+describe("visibility", () => {
+	afterEach(() => {
+		setVisibilityPolicy();
+	});
+
+	it("labels unconfigured channels team, or visibility.default", () => {
+		expect(visibilityOf("C1")).toBe("team");
+		setVisibilityPolicy({ default: "public" });
+		expect(visibilityOf("C1")).toBe("public");
+	});
+
+	// from → to: content may only flow into channels at least as private
+	it.each<[Visibility, Visibility, boolean]>([
+		["private", "private", false],
+		["private", "team", false],
+		["private", "public", false],
+		["team", "private", true],
+		["team", "team", true],
+		["team", "public", false],
+		["public", "private", true],
+		["public", "team", true],
+		["public", "public", true],
+	])("%s → %s flows: %s", (from, to, flows) => {
+		setVisibilityPolicy(undefined, {
+			FROM: { visibility: from },
+			TO: { visibility: to },
+		});
+		expect(canFlow("FROM", "TO")).toBe(flows);
+	});
+
+	it("always lets a channel's content stay in that channel", () => {
+		label();
+		expect(canFlow(CHANNEL.private, CHANNEL.private)).toBe(true);
+	});
+
+	it("shows workspace memory where its label reaches", () => {
+		label();
+		expect(showsWorkspaceMemory(CHANNEL.team)).toBe(true);
+		expect(showsWorkspaceMemory(CHANNEL.private)).toBe(true);
+		expect(showsWorkspaceMemory(CHANNEL.public)).toBe(false);
+
+		label("private");
+		expect(showsWorkspaceMemory(CHANNEL.private)).toBe(false);
+		label("public");
+		expect(showsWorkspaceMemory(CHANNEL.public)).toBe(true);
+	});
+
+	it("keeps workspace MEMORY.md out of /memory where it isn't shown", async () => {
+		const dir = mkdtempSync(join(tmpdir(), "visibility-"));
+		try {
+			writeFileSync(join(dir, "MEMORY.md"), "workspace secret");
+			mkdirSync(join(dir, CHANNEL.public));
+			writeFileSync(join(dir, CHANNEL.public, "MEMORY.md"), "channel note");
+			label();
+
+			const replies: string[] = [];
+			const platform = {
+				name: "slack",
+				maxMessageLength: 4000,
+				postMessage: async (_channel: string, text: string) => {
+					replies.push(text);
+					return "1";
+				},
+			} as unknown as PlatformAdapter;
+			const registry = createCommandRegistry({
+				workingDir: dir,
+				isRunning: () => false,
+				stop: async () => {},
+				getRunner: () => {
+					throw new Error("not used");
+				},
+				access: new AccessPolicy(dir),
+				approvals: new ApprovalGate(),
+				budget: {} as BudgetPolicy,
+				resume: () => undefined,
+			});
+
+			await registry.execute("/memory", CHANNEL.public, "U1", platform);
+			expect(replies[0]).not.toContain("workspace secret");
+			expect(replies[0]).toContain("channel note");
+
+			await registry.execute("/memory", CHANNEL.team, "U1", platform);
+			expect(replies[1]).toContain("workspace secret");
+		} finally {
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});